@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { Copy, Download, FileText } from 'lucide-react';
+import {
+  APA_FORMAT_LABELS, ApaFormat, ApaTable, splitStars, tableToLatex, tableToMarkdown, tablesToDocx
+} from './apaTables';
+import { downloadBlob, fileSlug } from './exporting';
+
+const FORMATS: ApaFormat[] = ['markdown', 'latex', 'docx'];
+
+const TEXT_FORMATS: Record<Exclude<ApaFormat, 'docx'>, { render: (table: ApaTable) => string; extension: string; mime: string }> = {
+  markdown: { render: tableToMarkdown, extension: 'md', mime: 'text/markdown' },
+  latex: { render: tableToLatex, extension: 'tex', mime: 'application/x-tex' },
+};
+
+// HTML preview in APA layout: rules above and below the header and at the end
+const TablePreview = ({ table }: { table: ApaTable }) => (
+  <div className="font-serif text-sm text-slate-800">
+    <p className="font-bold">Tabel {table.number}</p>
+    <p className="italic mb-2">{table.title}</p>
+    <table className="w-full border-t border-b border-slate-800">
+      <thead>
+        <tr className="border-b border-slate-800">
+          {table.columns.map(c => (
+            <th key={c.label} className={`px-2 py-1 font-normal ${c.italic ? 'italic' : ''} ${c.align === 'right' ? 'text-right' : 'text-left'}`}>
+              {c.label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, r) => (
+          <tr key={r}>
+            {row.map((cell, i) => {
+              const [value, stars] = splitStars(cell);
+              return (
+                <td key={i} className={`px-2 py-0.5 ${table.columns[i].align === 'right' ? 'text-right' : 'text-left'}`}>
+                  {value}{stars && <sup>{stars}</sup>}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    <p className="text-xs mt-2"><em>Catatan.</em> {table.note}</p>
+  </div>
+);
+
+// Export of the descriptive and correlation tables for manuscripts
+const ApaTablesPanel = ({ tables, datasetName }: { tables: ApaTable[]; datasetName: string }) => {
+  const [format, setFormat] = useState<ApaFormat>('markdown');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const text = format === 'docx' ? null : tables.map(TEXT_FORMATS[format].render).join('\n\n');
+  const baseName = `tabel-apa-${fileSlug(datasetName)}`;
+
+  const download = async () => {
+    setStatus(null);
+    try {
+      if (format === 'docx') {
+        downloadBlob(await tablesToDocx(tables), `${baseName}.docx`);
+      } else {
+        const { extension, mime } = TEXT_FORMATS[format];
+        downloadBlob(new Blob([text ?? ''], { type: `${mime};charset=utf-8` }), `${baseName}.${extension}`);
+      }
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Ekspor tabel gagal.');
+    }
+  };
+
+  const copy = async () => {
+    if (text === null) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus('Disalin ke clipboard.');
+    } catch {
+      setStatus('Clipboard tidak tersedia; gunakan tombol Unduh.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <FileText className="text-blue-600" size={20} />
+        <h3 className="font-bold text-slate-800">Tabel Format APA</h3>
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg ml-auto">
+          {FORMATS.map(f => (
+            <button
+              key={f}
+              onClick={() => { setFormat(f); setStatus(null); }}
+              className={`px-3 py-1 rounded-md text-xs transition-all ${
+                format === f ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {APA_FORMAT_LABELS[f]}
+            </button>
+          ))}
+        </div>
+        {text !== null && (
+          <button onClick={copy} className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs text-slate-600 border border-slate-200 hover:bg-slate-50">
+            <Copy size={14} /> Salin
+          </button>
+        )}
+        <button onClick={download} className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs bg-blue-600 text-white hover:bg-blue-700">
+          <Download size={14} /> Unduh
+        </button>
+      </div>
+
+      {text !== null ? (
+        <pre className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-xs text-slate-700 overflow-x-auto max-h-96">{text}</pre>
+      ) : (
+        <div className="border border-slate-200 rounded-lg p-6 space-y-8">
+          {tables.map(table => <TablePreview key={table.number} table={table} />)}
+        </div>
+      )}
+      {status && <p className="text-xs text-slate-500 mt-2">{status}</p>}
+      <p className="text-[11px] text-slate-400 mt-2">
+        Angka mengikuti gaya APA 7: dua desimal, tanpa nol di depan untuk ρ dan α. Bintang signifikansi tidak bergantung pada α yang dipilih.
+      </p>
+    </div>
+  );
+};
+
+export default ApaTablesPanel;
@@ -0,0 +1,49 @@
+import { Shuffle } from 'lucide-react';
+import {
+  BOOTSTRAP_ITERATION_OPTIONS, BOOTSTRAP_METHOD_LABELS, BootstrapMethod, BootstrapSettings
+} from './bootstrap';
+
+// Compact settings row shared by every chart that shows bootstrap intervals
+const BootstrapControls = ({ settings, onChange }: {
+  settings: BootstrapSettings;
+  onChange: (settings: BootstrapSettings) => void;
+}) => (
+  <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+    <span className="flex items-center gap-1"><Shuffle size={14} /> Bootstrap</span>
+    <select
+      value={settings.iterations}
+      onChange={(e) => onChange({ ...settings, iterations: parseInt(e.target.value, 10) })}
+      className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+      aria-label="Jumlah sampel bootstrap"
+    >
+      {BOOTSTRAP_ITERATION_OPTIONS.map(b => <option key={b} value={b}>{b}×</option>)}
+    </select>
+    <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+      {(Object.keys(BOOTSTRAP_METHOD_LABELS) as BootstrapMethod[]).map(method => (
+        <button
+          key={method}
+          onClick={() => onChange({ ...settings, method })}
+          className={`px-3 py-1 rounded-md text-xs transition-all ${
+            settings.method === method ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+          }`}
+        >
+          {BOOTSTRAP_METHOD_LABELS[method]}
+        </button>
+      ))}
+    </div>
+    <label className="flex items-center gap-2">
+      Seed
+      <input
+        type="number"
+        value={settings.seed}
+        onChange={(e) => {
+          const seed = parseInt(e.target.value, 10);
+          if (!isNaN(seed)) onChange({ ...settings, seed });
+        }}
+        className="w-28 bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+      />
+    </label>
+  </div>
+);
+
+export default BootstrapControls;
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  CartesianGrid, Customized, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { GroupDefinition, LikertScale, ResolvedConstruct } from './codebook';
+import { DataItem } from './types';
+
+// --- TYPES ---
+export type BrushMode = 'box' | 'lasso';
+
+type Point = [number, number];
+
+// A respondent's position in data coordinates (after any jitter)
+export interface BrushPoint {
+  id: number;
+  x: number;
+  y: number;
+}
+
+// Minimal shape of the axis entries recharts passes to <Customized>
+interface AxisEntry {
+  scale: (value: number) => number;
+}
+
+export const BRUSH_MODE_LABELS: Record<BrushMode, string> = {
+  box: 'Kotak',
+  lasso: 'Laso',
+};
+
+// Drags shorter than this (in pixels) count as a click on empty space
+const MIN_BRUSH_SIZE = 4;
+
+// --- HELPER FUNCTIONS ---
+
+// Ray casting: count edge crossings of a horizontal ray from the point
+const insidePolygon = ([px, py]: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const boxCorners = ([x1, y1]: Point, [x2, y2]: Point): Point[] => [[x1, y1], [x2, y1], [x2, y2], [x1, y2]];
+
+// --- COMPONENTS ---
+
+// Transparent layer under the points that turns a drag into a selection. Move and
+// release are tracked on the window so the drag continues over points and
+// outside the plot.
+export const BrushLayer = ({ points: targets, brushMode, onBrush, offset, xAxisMap, yAxisMap }: {
+  points: BrushPoint[];
+  brushMode: BrushMode;
+  onBrush: (ids: number[], additive: boolean) => void;
+  offset?: { left: number; top: number; width: number; height: number };
+  xAxisMap?: Record<string, AxisEntry>;
+  yAxisMap?: Record<string, AxisEntry>;
+}) => {
+  const [path, setPath] = useState<Point[]>([]);
+  const rectRef = useRef<SVGRectElement>(null);
+  const stopDrag = useRef<() => void>();
+
+  // Drop the window listeners if the chart unmounts mid-drag (tab switch)
+  useEffect(() => () => stopDrag.current?.(), []);
+
+  const xAxis = xAxisMap ? Object.values(xAxisMap)[0] : undefined;
+  const yAxis = yAxisMap ? Object.values(yAxisMap)[0] : undefined;
+  if (!offset || !xAxis || !yAxis) return null;
+
+  const start = (event: React.MouseEvent<SVGRectElement>) => {
+    const svg = rectRef.current?.ownerSVGElement;
+    if (!svg || event.button !== 0) return;
+    event.preventDefault();
+    const bounds = svg.getBoundingClientRect();
+    const toLocal = (e: MouseEvent | React.MouseEvent): Point => [e.clientX - bounds.left, e.clientY - bounds.top];
+    const additive = event.shiftKey;
+    let points: Point[] = [toLocal(event)];
+    setPath(points);
+
+    const move = (e: MouseEvent) => {
+      const next = toLocal(e);
+      points = brushMode === 'box' ? [points[0], next] : [...points, next];
+      setPath(points);
+    };
+    const stop = () => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', end);
+      stopDrag.current = undefined;
+    };
+    const end = () => {
+      stop();
+      setPath([]);
+      const xs = points.map(p => p[0]);
+      const ys = points.map(p => p[1]);
+      if (Math.max(...xs) - Math.min(...xs) < MIN_BRUSH_SIZE && Math.max(...ys) - Math.min(...ys) < MIN_BRUSH_SIZE) {
+        if (!additive) onBrush([], false);
+        return;
+      }
+      const polygon = brushMode === 'box' ? boxCorners(points[0], points[points.length - 1]) : points;
+      onBrush(
+        targets
+          .filter(p => insidePolygon([xAxis.scale(p.x), yAxis.scale(p.y)], polygon))
+          .map(p => p.id),
+        additive
+      );
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', end);
+    stopDrag.current = stop;
+  };
+
+  const outline = path.length < 2
+    ? null
+    : (brushMode === 'box' ? boxCorners(path[0], path[path.length - 1]) : path).map(p => p.join(',')).join(' ');
+
+  return (
+    <g>
+      <rect
+        ref={rectRef}
+        x={offset.left} y={offset.top} width={offset.width} height={offset.height}
+        fill="transparent" pointerEvents="all" style={{ cursor: 'crosshair' }}
+        onMouseDown={start}
+      />
+      {outline && (
+        <polygon points={outline} fill="#3b82f6" fillOpacity={0.08} stroke="#3b82f6" strokeDasharray="4 3" pointerEvents="none" />
+      )}
+    </g>
+  );
+};
+
+const RespondentTooltip = ({ active, payload, x, y, groups }: {
+  active?: boolean;
+  payload?: { payload: DataItem }[];
+  x: ResolvedConstruct;
+  y: ResolvedConstruct;
+  groups: GroupDefinition[];
+}) => {
+  if (!active || !payload?.length) return null;
+  const respondent = payload[0].payload;
+  const group = groups.find(g => g.label === respondent.usageGroup);
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-2 text-xs text-slate-700">
+      <p className="font-bold">Responden #{respondent.id}</p>
+      <p>{x.shortLabel}: {respondent.scores[x.key].toFixed(2)}</p>
+      <p>{y.shortLabel}: {respondent.scores[y.key].toFixed(2)}</p>
+      {group && <p style={{ color: group.color }}>{group.shortLabel}</p>}
+      <p className="text-slate-400 mt-1">Klik untuk detail jawaban</p>
+    </div>
+  );
+};
+
+// Scatter of two construct scores with box/lasso selection shared across charts
+const BrushableScatter = ({ data, x, y, fill, scale, groups, selectedIds, brushMode, onBrush, onPointClick }: {
+  data: DataItem[];
+  x: ResolvedConstruct;
+  y: ResolvedConstruct;
+  fill: string;
+  scale: LikertScale;
+  groups: GroupDefinition[];
+  selectedIds: Set<number>;
+  brushMode: BrushMode;
+  onBrush: (ids: number[], additive: boolean) => void;
+  onPointClick: (respondent: DataItem) => void;
+}) => {
+  const selected = data.filter(d => selectedIds.has(d.id));
+  const others = data.filter(d => !selectedIds.has(d.id));
+  const hasSelection = selected.length > 0;
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis type="number" dataKey={`scores.${x.key}`} name={x.shortLabel} domain={[scale.min, scale.max]} label={{ value: `Skor ${x.shortLabel}`, position: 'bottom', offset: 0 }} />
+        <YAxis type="number" dataKey={`scores.${y.key}`} name={y.shortLabel} domain={[scale.min, scale.max]} label={{ value: `Skor ${y.shortLabel}`, angle: -90, position: 'left' }} />
+        <Tooltip cursor={{ strokeDasharray: '3 3' }} content={<RespondentTooltip x={x} y={y} groups={groups} />} />
+        <Customized
+          component={
+            <BrushLayer
+              points={data.map(d => ({ id: d.id, x: d.scores[x.key], y: d.scores[y.key] }))}
+              brushMode={brushMode}
+              onBrush={onBrush}
+            />
+          }
+        />
+        <Scatter
+          name="Responden"
+          data={others}
+          fill={hasSelection ? '#94a3b8' : fill}
+          fillOpacity={hasSelection ? 0.3 : 0.6}
+          cursor="pointer"
+          onClick={(point: { payload: DataItem }) => onPointClick(point.payload)}
+        />
+        {hasSelection && (
+          <Scatter
+            name="Terpilih"
+            data={selected}
+            fill={fill}
+            stroke="#0f172a"
+            strokeWidth={1}
+            cursor="pointer"
+            onClick={(point: { payload: DataItem }) => onPointClick(point.payload)}
+          />
+        )}
+      </ScatterChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default BrushableScatter;
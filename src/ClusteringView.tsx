@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CartesianGrid, ComposedChart, Legend, Line, PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart,
+  ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { CheckCircle2, Shapes } from 'lucide-react';
+import {
+  CLUSTER_METHOD_LABELS, ClusterMethod, centroidScores, fitClusterSolutions, suggestClusterCount, suggestPersonaNames
+} from './clustering';
+import { LikertScale, ResolvedCodebook } from './codebook';
+import { GroupingRule, MAX_GROUP_LEVELS, defaultLevels, describeGroupingRule, validateGroupingRule } from './grouping';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart, SectionHeader } from './ui';
+
+// --- HELPER FUNCTIONS ---
+
+const SAMPLE_COLOR = '#94a3b8';
+
+const silhouetteLabel = (value: number): string => {
+  if (value >= 0.5) return 'struktur kuat';
+  if (value >= 0.25) return 'struktur sedang';
+  return 'struktur lemah';
+};
+
+// --- COMPONENTS ---
+
+const CentroidRadar = ({ name, color, scores, sampleMeans, constructs, scale }: {
+  name: string;
+  color: string;
+  scores: Record<string, number>;
+  sampleMeans: Record<string, number>;
+  constructs: ResolvedCodebook['constructs'];
+  scale: LikertScale;
+}) => (
+  <ResponsiveContainer width="100%" height="100%">
+    <RadarChart
+      data={constructs.map(c => ({ construct: c.shortLabel, cluster: scores[c.key], sample: sampleMeans[c.key] }))}
+      outerRadius="70%"
+    >
+      <PolarGrid />
+      <PolarAngleAxis dataKey="construct" tick={{ fontSize: 11 }} />
+      <PolarRadiusAxis domain={[scale.min, scale.max]} tickCount={scale.max - scale.min + 1} angle={90} tick={{ fontSize: 10 }} />
+      <Tooltip formatter={(value: number) => value.toFixed(2)} />
+      <Radar name="Rata-rata sampel" dataKey="sample" stroke={SAMPLE_COLOR} fill={SAMPLE_COLOR} fillOpacity={0.1} />
+      <Radar name={name} dataKey="cluster" stroke={color} fill={color} fillOpacity={0.3} />
+    </RadarChart>
+  </ResponsiveContainer>
+);
+
+// Persona discovery: clusters respondents on their standardized construct scores
+// and hands the solution to the grouping rule, so every group-based view can use it
+const ClusteringView = ({ data, codebook, activeRule, strategyLabel, onApply }: {
+  data: DataItem[];
+  codebook: ResolvedCodebook;
+  activeRule: GroupingRule;
+  strategyLabel: string;
+  onApply: (rule: GroupingRule) => void;
+}) => {
+  const { constructs, scale } = codebook;
+  const [method, setMethod] = useState<ClusterMethod>('kmeans');
+  const [chosenK, setChosenK] = useState<number | null>(null);   // null = automatic
+  const [names, setNames] = useState<string[]>([]);
+  const [colors, setColors] = useState<string[]>([]);
+
+  const keys = useMemo(() => constructs.map(c => c.key), [constructs]);
+  const solutions = useMemo(
+    () => fitClusterSolutions(data, keys, method, MAX_GROUP_LEVELS),
+    [data, keys, method]
+  );
+  const suggestedK = suggestClusterCount(solutions);
+  const solution = solutions.find(s => s.k === (chosenK ?? suggestedK)) ?? solutions.find(s => s.k === suggestedK);
+  const clustered = solution ? solution.sizes.reduce((a, b) => a + b, 0) : 0;
+  // Refitting is deterministic, so the applied solution is recognised by its parameters
+  const appliedModel = activeRule.method === 'cluster' && solution
+    && JSON.stringify(activeRule.cluster) === JSON.stringify(solution.model);
+
+  // Names and colors start from the applied rule or from fresh suggestions; edits
+  // are kept until the solution changes
+  useEffect(() => {
+    if (!solution) return;
+    setNames(appliedModel ? activeRule.levels.map(l => l.label) : suggestPersonaNames(solution.model, constructs));
+    setColors(appliedModel ? activeRule.levels.map(l => l.color) : defaultLevels(solution.k).map(level => level.color));
+  }, [solution, constructs]);
+
+  const sampleMeans = solution
+    ? Object.fromEntries(solution.model.keys.map((key, i) => [key, solution.model.center[i]]))
+    : {};
+
+  const rule: GroupingRule | null = solution && names.length === solution.k
+    ? {
+        basisType: 'cluster',
+        basis: '',
+        method: 'cluster',
+        thresholds: [],
+        levels: names.map((name, i) => ({ label: name.trim(), shortLabel: name.trim(), color: colors[i] })),
+        cluster: solution.model,
+      }
+    : null;
+  const ruleError = rule ? validateGroupingRule(rule, codebook) : null;
+  const isActive = appliedModel && rule !== null && JSON.stringify(rule.levels) === JSON.stringify(activeRule.levels);
+
+  const diagnostics = solutions.map(s => ({ k: s.k, withinSS: s.withinSS, silhouette: s.silhouette }));
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <SectionHeader
+        title="Klaster Responden (Persona)"
+        description="Segmentasi berbasis data pada skor konstruk yang distandarkan (skor z), sebagai alternatif pembagian kelompok berdasarkan satu variabel."
+      />
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+            {(Object.keys(CLUSTER_METHOD_LABELS) as ClusterMethod[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMethod(m)}
+                className={`px-3 py-1 rounded-md text-xs transition-all ${
+                  method === m ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {CLUSTER_METHOD_LABELS[m]}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Jumlah klaster
+            <select
+              value={chosenK ?? 'auto'}
+              onChange={(e) => setChosenK(e.target.value === 'auto' ? null : parseInt(e.target.value, 10))}
+              className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+            >
+              <option value="auto">Otomatis{suggestedK !== null ? ` (k = ${suggestedK})` : ''}</option>
+              {solutions.map(s => <option key={s.k} value={s.k}>k = {s.k}</option>)}
+            </select>
+          </label>
+          <AnalysisBadge n={clustered} strategy={`${strategyLabel} • skor lengkap`} />
+        </div>
+        <p className="text-xs text-slate-500 mt-3">
+          k otomatis = silhouette rata-rata tertinggi. {method === 'kmeans'
+            ? 'k-means memakai 10 titik awal k-means++ dan menyimpan solusi dengan jumlah kuadrat dalam-klaster terkecil.'
+            : 'Gaussian mixture (kovarians diagonal) diestimasi dengan EM dari solusi k-means; responden masuk ke komponen dengan probabilitas posterior tertinggi.'}
+        </p>
+      </div>
+
+      {!solution ? (
+        <div className="bg-amber-50 border border-amber-200 p-4 rounded-lg text-sm text-amber-800">
+          Terlalu sedikit responden dengan skor lengkap untuk membentuk klaster.
+        </div>
+      ) : (
+        <>
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+            <h3 className="font-bold text-slate-800 mb-1">Pemilihan Jumlah Klaster</h3>
+            <p className="text-xs text-slate-500 mb-4">
+              Cari "siku" pada jumlah kuadrat dalam-klaster dan puncak silhouette. k = {solution.k}: silhouette {solution.silhouette.toFixed(2)} ({silhouetteLabel(solution.silhouette)})
+              {solution.bic !== null && ` • BIC ${solution.bic.toFixed(1)}`}
+            </p>
+            <ExportableChart name="klaster-elbow-silhouette" className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={diagnostics} margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="k" label={{ value: 'k', position: 'insideBottomRight', offset: -5 }} />
+                  <YAxis yAxisId="ss" />
+                  <YAxis yAxisId="silhouette" orientation="right" domain={[0, 1]} />
+                  <Tooltip formatter={(value: number) => value.toFixed(3)} />
+                  <Legend />
+                  <ReferenceLine yAxisId="ss" x={solution.k} stroke="#64748b" strokeDasharray="4 3" />
+                  <Line yAxisId="ss" dataKey="withinSS" name="Jumlah kuadrat dalam-klaster" stroke="#3b82f6" strokeWidth={2} />
+                  <Line yAxisId="silhouette" dataKey="silhouette" name="Silhouette rata-rata" stroke="#f59e0b" strokeWidth={2} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </ExportableChart>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+            {solution.sizes.map((size, i) => (
+              <div key={i} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+                <div className="flex items-center gap-2 mb-2">
+                  <input
+                    type="color"
+                    value={colors[i] ?? SAMPLE_COLOR}
+                    onChange={(e) => setColors(colors.map((c, j) => (j === i ? e.target.value : c)))}
+                    className="w-8 h-6 rounded cursor-pointer"
+                    aria-label={`Warna klaster ${i + 1}`}
+                  />
+                  <input
+                    value={names[i] ?? ''}
+                    onChange={(e) => setNames(names.map((n, j) => (j === i ? e.target.value : n)))}
+                    className="flex-1 bg-slate-100 rounded-md px-2 py-1 text-sm font-medium text-slate-700"
+                    aria-label={`Nama klaster ${i + 1}`}
+                  />
+                </div>
+                <p className="text-xs text-slate-500">
+                  Klaster {i + 1} • n = {size} ({((size / clustered) * 100).toFixed(1)}%)
+                </p>
+                <ExportableChart name={`klaster-${i + 1}`} className="h-56">
+                  <CentroidRadar
+                    name={names[i] ?? `Klaster ${i + 1}`}
+                    color={colors[i] ?? SAMPLE_COLOR}
+                    scores={centroidScores(solution.model, i)}
+                    sampleMeans={sampleMeans}
+                    constructs={constructs}
+                    scale={scale}
+                  />
+                </ExportableChart>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-500">
+                  {constructs.map((c, j) => {
+                    const z = solution.model.centroids[i][j];
+                    return (
+                      <span key={c.key} className={Math.abs(z) >= 0.5 ? 'font-bold text-slate-700' : ''}>
+                        {c.shortLabel} z = {z >= 0 ? '+' : ''}{z.toFixed(2)}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+            <div className="flex flex-wrap items-center gap-3">
+              <Shapes className="text-blue-600" size={20} />
+              <div>
+                <h3 className="font-bold text-slate-800">Gunakan sebagai Pengelompokan</h3>
+                <p className="text-xs text-slate-500">
+                  Aktif saat ini: {describeGroupingRule(activeRule, codebook)}
+                </p>
+              </div>
+              <button
+                onClick={() => rule && onApply(rule)}
+                disabled={!rule || ruleError !== null || isActive}
+                className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-40"
+              >
+                <CheckCircle2 size={16} /> {isActive ? 'Sedang dipakai' : 'Pakai klaster ini'}
+              </button>
+            </div>
+            {ruleError && <p className="text-xs text-red-600 mt-2">{ruleError}</p>}
+            <p className="text-xs text-slate-500 mt-3">
+              Klaster menggantikan kelompok penggunaan di semua tab (perbandingan kelompok, filter, warna diagram pencar, ekspor).
+              Responden baru atau di luar filter saat ini dimasukkan ke klaster terdekat; responden tanpa skor lengkap tidak berkelompok.
+              Aturan kembali ke pembagian codebook lewat panel Pengelompokan di tab Overview.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClusteringView;
@@ -0,0 +1,106 @@
+import { Scale } from 'lucide-react';
+import {
+  COMPOSITE_UNAVAILABLE_NOTE, CORRELATION_METHODS, CORRELATION_METHOD_LABELS, CORRELATION_SYMBOLS, CorrelationMethod
+} from './correlationMethods';
+import { significanceStars } from './stats';
+import { CorrelationItem } from './types';
+import { AnalysisBadge } from './ui';
+
+// Side-by-side table of every pair under every correlation method. A pair is
+// flagged when the methods disagree on significance or on the sign. Methods
+// that do not apply to the data are passed as null and shown as a dash.
+const CorrelationMethodComparison = ({ results, selected, alpha, n, strategyLabel }: {
+  results: Record<CorrelationMethod, CorrelationItem[] | null>;
+  selected: CorrelationMethod;
+  alpha: number;
+  n: number;
+  strategyLabel: string;
+}) => {
+  const pairKey = (c: CorrelationItem) => `${c.var1}|${c.var2}`;
+  const available = CORRELATION_METHODS.filter(m => results[m]);
+  const lookup = Object.fromEntries(available.map(m => [m, new Map(results[m]!.map(c => [pairKey(c), c]))])) as
+    Partial<Record<CorrelationMethod, Map<string, CorrelationItem>>>;
+  // Rows follow the ranking of the selected method
+  const rows = (results[selected] ?? []).map(pair => {
+    const cells = CORRELATION_METHODS.map(m => lookup[m]?.get(pairKey(pair)));
+    const decisions = new Set(cells.filter(c => c).map(c => c!.significant));
+    const signs = new Set(cells.filter(c => c && c.correlation !== 0).map(c => Math.sign(c!.correlation)));
+    return { pair, cells, consistent: decisions.size === 1 && signs.size <= 1 };
+  });
+  const changed = rows.filter(r => !r.consistent).length;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex justify-between items-start gap-2 mb-1">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2">
+          <Scale className="text-blue-600" size={20} />
+          Perbandingan Metode Korelasi
+        </h3>
+        <AnalysisBadge n={n} strategy={strategyLabel} />
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        {changed === 0
+          ? `Kesimpulan semua ${rows.length} pasangan sama di ${available.length} metode (α = ${alpha}).`
+          : `${changed} dari ${rows.length} pasangan berubah kesimpulan (signifikansi atau arah) bergantung metode (α = ${alpha}).`}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-100">
+              <th className="p-2 text-left font-medium">Pasangan</th>
+              {CORRELATION_METHODS.map(m => (
+                <th
+                  key={m}
+                  title={results[m] ? undefined : COMPOSITE_UNAVAILABLE_NOTE}
+                  className={`p-2 text-center font-medium ${m === selected ? 'bg-blue-50 text-blue-700' : ''} ${results[m] ? '' : 'text-slate-300'}`}
+                >
+                  {CORRELATION_METHOD_LABELS[m]} ({CORRELATION_SYMBOLS[m]})
+                </th>
+              ))}
+              <th className="p-2 text-center font-medium">Kesimpulan</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ pair, cells, consistent }) => (
+              <tr key={pairKey(pair)} className={`border-b border-slate-50 ${consistent ? '' : 'bg-amber-50'}`}>
+                <td className="p-2 text-slate-700">{pair.label1} ↔ {pair.label2}</td>
+                {cells.map((c, i) => (
+                  <td
+                    key={CORRELATION_METHODS[i]}
+                    className={`p-2 text-center font-mono ${CORRELATION_METHODS[i] === selected ? 'bg-blue-50/60' : ''} ${
+                      c?.significant ? 'text-slate-800 font-bold' : 'text-slate-400'
+                    }`}
+                  >
+                    {c ? c.correlation.toFixed(2) : '–'}
+                    {c && <sup className="ml-0.5">{significanceStars(c.pValue)}</sup>}
+                  </td>
+                ))}
+                <td className={`p-2 text-center ${consistent ? 'text-emerald-600' : 'text-amber-700 font-medium'}`}>
+                  {consistent ? 'Konsisten' : 'Berbeda'}
+                </td>
+              </tr>
+            ))}
+            <tr className="text-slate-600">
+              <td className="p-2 font-medium">Signifikan (p &lt; {alpha})</td>
+              {CORRELATION_METHODS.map(m => (
+                <td key={m} className={`p-2 text-center font-medium ${m === selected ? 'bg-blue-50/60' : ''}`}>
+                  {results[m] ? `${results[m]!.filter(c => c.significant).length} / ${results[m]!.length}` : '–'}
+                </td>
+              ))}
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-3 text-[11px] text-slate-400">
+        Tebal = signifikan pada α = {alpha}. Besaran koefisien tidak sebanding antar metode (τb biasanya lebih kecil
+        dari ρ), jadi bandingkan kesimpulan, bukan angkanya.
+        {available.length < CORRELATION_METHODS.length && ` ${COMPOSITE_UNAVAILABLE_NOTE}`}
+      </p>
+    </div>
+  );
+};
+
+export default CorrelationMethodComparison;
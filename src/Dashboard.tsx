@@ -1,140 +1,108 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
-  ScatterChart, Scatter, ComposedChart, PieChart, Pie, Cell 
+  PieChart, Pie, Cell, ErrorBar 
 } from 'recharts';
 import { 
   Activity, Users, AlertTriangle, Brain, 
-  ChevronRight, BarChart2, Network, LayoutGrid
+  ChevronRight, BarChart2, Network, LayoutGrid, Database, X, FileDown, Filter
 } from 'lucide-react';
+import { Codebook, ResolvedCodebook, ResolvedConstruct, itemDisplayLabel, loadCodebook } from './codebook';
+import { ParsedDataset, SheetTable, parseCSVData, parseSurveyRows } from './dataset';
+import { 
+  TEST_METHOD_LABELS, formatPValue, significanceStars 
+} from './stats';
+import {
+  COMPOSITE_METHODS, COMPOSITE_UNAVAILABLE_NOTE, CORRELATION_METHODS, CORRELATION_METHOD_LABELS, CORRELATION_SYMBOLS,
+  CorrelationMethod, PARTIAL_METHODS,
+  RANK_BASED_METHODS, calculateCorrelationMatrix, correlationCoefficient, partialCorrelation
+} from './correlationMethods';
+import CorrelationMethodComparison from './CorrelationMethodComparison';
+import { CorrelationItem, DataItem } from './types';
+import { AnalysisBadge, EvidenceLink, ExportableChart, KpiCard, SectionHeader } from './ui';
+import ReliabilityView from './ReliabilityView';
+import ItemExplorerView from './ItemExplorerView';
+import GroupComparisonView from './GroupComparisonView';
+import ModelingView from './ModelingView';
+import { compareGroups } from './groupTests';
+import { correlationInsight, findCorrelation, researchConclusions } from './insights';
+import ReportView from './ReportView';
+import { exportReportPdf } from './exporting';
+import ApaTablesPanel from './ApaTablesPanel';
+import { correlationTable, descriptivesTable } from './apaTables';
+import ResultsExportPanel from './ResultsExportPanel';
+import FilterSidebar from './FilterSidebar';
+import BrushableScatter, { BRUSH_MODE_LABELS, BrushMode } from './BrushableScatter';
+import RespondentDrawer from './RespondentDrawer';
+import ScatterExplorer from './ScatterExplorer';
+import ProfileExplorer from './ProfileExplorer';
+import ClusteringView from './ClusteringView';
+import FactorAnalysisView from './FactorAnalysisView';
+import BootstrapControls from './BootstrapControls';
+import {
+  BootstrapInterval, BootstrapSettings, DEFAULT_BOOTSTRAP_SETTINGS, bootstrapCorrelation, bootstrapMean, describeBootstrap
+} from './bootstrap';
+import {
+  DataFilter, EMPTY_FILTER, activeFilterCount, applyFilter, normalizeFilter, timestampRange
+} from './filters';
+import DataSourcePanel from './DataSourcePanel';
+import ScreeningPanel from './ScreeningPanel';
+import { DEFAULT_SCREENING_OPTIONS, ScreeningOptions, applyScreening } from './screening';
+import MissingDataPanel from './MissingDataPanel';
+import {
+  DEFAULT_MISSING_DATA_STRATEGY, MissingDataStrategy, applyMissingDataStrategy, describeStrategy
+} from './missing';
+import GroupingPanel from './GroupingPanel';
+import {
+  GroupingPreset, GroupingRule, assignGroups, defaultGroupingRule, describeGroupingRule,
+  loadStoredGrouping, saveStoredGrouping, validateGroupingRule
+} from './grouping';
 
 // =================================================================================
 // KONFIGURASI SUMBER DATA
 // =================================================================================
 const CSV_DATA_URL = "/data_survey.csv"; 
-
-// --- TYPES ---
-interface DataItem {
-  id: number;
-  intensity: number;    // Intensitas & Kebiasaan Digital
-  dependency: number;   // Ketergantungan Psikologis
-  competence: number;   // Kemampuan & Kenyamanan Tatap Muka
-  alienation: number;   // Alienasi & Kecanggungan Sosial
-  usageGroup: string;
-}
-
-interface CorrelationItem {
-  var1: string;
-  var2: string;
-  label1: string;
-  label2: string;
-  correlation: number;
-  significant: boolean;
-}
-
-// --- HELPER FUNCTIONS ---
-
-// Calculate Spearman correlation coefficient
-const spearmanCorrelation = (x: number[], y: number[]): number => {
-  const n = x.length;
-  if (n !== y.length || n === 0) return 0;
-
-  // Rank the values
-  const rank = (arr: number[]): number[] => {
-    const sorted = [...arr].map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
-    const ranks = new Array(n);
-    for (let i = 0; i < n; i++) {
-      ranks[sorted[i].i] = i + 1;
-    }
-    return ranks;
-  };
-
-  const rankX = rank(x);
-  const rankY = rank(y);
-
-  // Calculate d² sum
-  let dSquaredSum = 0;
-  for (let i = 0; i < n; i++) {
-    dSquaredSum += Math.pow(rankX[i] - rankY[i], 2);
-  }
-
-  // Spearman formula: ρ = 1 - (6 * Σd²) / (n * (n² - 1))
-  const rho = 1 - (6 * dSquaredSum) / (n * (n * n - 1));
-  return rho;
-};
-
-// Calculate all correlations between the 4 main variables
-const calculateCorrelationMatrix = (data: DataItem[]): CorrelationItem[] => {
-  const variables = ['intensity', 'dependency', 'competence', 'alienation'] as const;
-  const labels = ['Intensitas Digital', 'Ketergantungan Psikologis', 'Kompetensi Tatap Muka', 'Alienasi Sosial'];
-  
-  const matrix: CorrelationItem[] = [];
-  
-  for (let i = 0; i < variables.length; i++) {
-    for (let j = i + 1; j < variables.length; j++) {
-      const x = data.map(d => d[variables[i]]);
-      const y = data.map(d => d[variables[j]]);
-      const corr = spearmanCorrelation(x, y);
-      
-      matrix.push({
-        var1: variables[i],
-        var2: variables[j],
-        label1: labels[i],
-        label2: labels[j],
-        correlation: parseFloat(corr.toFixed(3)),
-        significant: Math.abs(corr) >= 0.25 // Threshold for significance
-      });
-    }
-  }
-  
-  return matrix.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
-};
+const CODEBOOK_URL = "/codebook.json";
+const ALPHA_OPTIONS = [0.01, 0.05, 0.1];
+const BUNDLED_DATASET_NAME = "data_survey.csv (bawaan)";
+// Fewer filtered respondents than this cannot support correlations or group tests
+const MIN_FILTERED_N = 3;
 
 // --- COMPONENTS ---
 
-const KpiCard = ({ title, value, subtitle, icon: Icon, colorClass }: {
-  title: string;
-  value: string | number;
-  subtitle?: string;
-  icon: React.ComponentType<{ className?: string }>;
-  colorClass: string;
-}) => (
-  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex items-start justify-between">
-    <div>
-      <p className="text-sm font-medium text-slate-500 mb-1">{title}</p>
-      <h3 className="text-2xl font-bold text-slate-800">{value}</h3>
-      {subtitle && <p className={`text-xs mt-2 ${colorClass} font-medium`}>{subtitle}</p>}
-    </div>
-    <div className={`p-3 rounded-lg ${colorClass.replace('text-', 'bg-').replace('600', '100').replace('700', '100')} bg-opacity-20`}>
-      <Icon className={`w-6 h-6 ${colorClass}`} />
-    </div>
-  </div>
-);
-
-const SectionHeader = ({ title, description }: { title: string; description: string }) => (
-  <div className="mb-6">
-    <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
-      <div className="w-1 h-6 bg-blue-600 rounded-full"></div>
-      {title}
-    </h2>
-    <p className="text-sm text-slate-500 ml-3 mt-1">{description}</p>
-  </div>
-);
-
 // Correlation Matrix Heatmap Component
-const CorrelationMatrix = ({ data }: { data: DataItem[] }) => {
-  const correlations = calculateCorrelationMatrix(data);
-  const variables = ['Intensitas Digital', 'Ketergantungan Psikologis', 'Kompetensi Tatap Muka', 'Alienasi Sosial'];
+// Control constructs are left out of the grid; zeroOrder adds the unadjusted value to each cell
+const CorrelationMatrix = ({ correlations, method, constructs, controls = [], zeroOrder = null, alpha, n, strategyLabel }: {
+  correlations: CorrelationItem[];
+  method: CorrelationMethod;
+  constructs: ResolvedConstruct[];
+  controls?: ResolvedConstruct[];
+  zeroOrder?: CorrelationItem[] | null;
+  alpha: number;
+  n: number;
+  strategyLabel: string;
+}) => {
+  const shown = constructs.filter(c => !controls.includes(c));
+  const variables = shown.map(c => c.label);
+  const shortLabels = Object.fromEntries(shown.map(c => [c.label, c.shortLabel]));
+  const symbol = CORRELATION_SYMBOLS[method];
+  const zeroOrderOf = (c: CorrelationItem) => (zeroOrder ? findCorrelation(zeroOrder, c.var1, c.var2) : undefined);
   
   // Get correlation between two labels
-  const getCorrelation = (label1: string, label2: string): { correlation: number; significant: boolean } => {
-    if (label1 === label2) return { correlation: 1, significant: true };
-    const found = correlations.find(
+  const getCorrelation = (label1: string, label2: string): CorrelationItem | null => {
+    if (label1 === label2) return null;
+    return correlations.find(
       c => (c.label1 === label1 && c.label2 === label2) || (c.label1 === label2 && c.label2 === label1)
-    );
-    return found || { correlation: 0, significant: false };
+    ) ?? null;
   };
 
+  const describe = (c: CorrelationItem): string =>
+    `${c.label1} vs ${c.label2}: ${symbol}${controls.length > 0 ? ' parsial' : ''} = ${c.correlation.toFixed(2)}, ${formatPValue(c.pValue)}, ` +
+    `${Math.round((1 - alpha) * 100)}% CI [${c.ciLower.toFixed(2)}, ${c.ciUpper.toFixed(2)}] ` +
+    `(${TEST_METHOD_LABELS[c.method]}, n = ${c.n}) ${c.significant ? '(Signifikan)' : '(Tidak Signifikan)'}` +
+    (RANK_BASED_METHODS.includes(method) ? `\nTies: ${c.tiesX} obs. ${c.label1}, ${c.tiesY} obs. ${c.label2}` : '') +
+    (zeroOrderOf(c) ? `\nZero-order: ${symbol} = ${zeroOrderOf(c)!.correlation.toFixed(2)}, ${formatPValue(zeroOrderOf(c)!.pValue)}` : '');
+
   const getColor = (corr: number, significant: boolean): string => {
     if (!significant && corr !== 1) return 'bg-slate-100 text-slate-400'; // Insignificant - gray
     if (corr === 1) return 'bg-slate-800 text-white';
@@ -150,8 +118,16 @@ const CorrelationMatrix = ({ data }: { data: DataItem[] }) => {
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
       <div className="flex items-center gap-2 mb-4">
         <LayoutGrid className="text-blue-600" size={20} />
-        <h3 className="font-bold text-slate-800">Matriks Korelasi Spearman</h3>
+        <h3 className="font-bold text-slate-800">
+          Matriks Korelasi {controls.length > 0 ? 'Parsial ' : ''}{CORRELATION_METHOD_LABELS[method]}
+        </h3>
+        <div className="ml-auto"><AnalysisBadge n={n} strategy={strategyLabel} /></div>
       </div>
+      {controls.length > 0 && (
+        <p className="-mt-2 mb-3 text-xs text-slate-500">
+          Dikontrol: {controls.map(c => c.label).join(', ')}
+        </p>
+      )}
       
       {/* Heatmap Grid */}
       <div className="overflow-x-auto">
@@ -161,7 +137,7 @@ const CorrelationMatrix = ({ data }: { data: DataItem[] }) => {
               <th className="p-2"></th>
               {variables.map(v => (
                 <th key={v} className="p-2 text-center font-medium text-slate-600 max-w-[80px]">
-                  <div className="truncate" title={v}>{v.split(' ')[0]}</div>
+                  <div className="truncate" title={v}>{shortLabels[v]}</div>
                 </th>
               ))}
             </tr>
@@ -171,14 +147,21 @@ const CorrelationMatrix = ({ data }: { data: DataItem[] }) => {
               <tr key={row}>
                 <td className="p-2 font-medium text-slate-600 text-right pr-3">{row}</td>
                 {variables.map(col => {
-                  const { correlation, significant } = getCorrelation(row, col);
+                  const cell = getCorrelation(row, col);
+                  const correlation = cell ? cell.correlation : 1;
                   return (
                     <td key={col} className="p-1">
                       <div 
-                        className={`${getColor(correlation, significant)} p-2 rounded text-center font-mono font-bold transition-all hover:scale-105 cursor-default`}
-                        title={`${row} vs ${col}: ρ = ${correlation.toFixed(2)} ${significant ? '(Signifikan)' : '(Tidak Signifikan)'}`}
+                        className={`${getColor(correlation, cell ? cell.significant : true)} p-2 rounded text-center font-mono font-bold transition-all hover:scale-105 cursor-default`}
+                        title={cell ? describe(cell) : row}
                       >
                         {correlation.toFixed(2)}
+                        {cell && <sup className="ml-0.5">{significanceStars(cell.pValue)}</sup>}
+                        {cell && zeroOrderOf(cell) && (
+                          <div className="text-[10px] font-normal opacity-75">
+                            0: {zeroOrderOf(cell)!.correlation.toFixed(2)}{significanceStars(zeroOrderOf(cell)!.pValue)}
+                          </div>
+                        )}
                       </div>
                     </td>
                   );
@@ -201,26 +184,49 @@ const CorrelationMatrix = ({ data }: { data: DataItem[] }) => {
         </div>
         <div className="flex items-center gap-1">
           <div className="w-4 h-4 bg-slate-100 rounded border"></div>
-          <span className="text-amber-600 font-bold">Tidak Signifikan</span>
+          <span className="text-amber-600 font-bold">Tidak Signifikan (p ≥ {alpha})</span>
         </div>
         <div className="flex items-center gap-1">
           <div className="w-4 h-4 bg-red-300 rounded"></div>
           <span>Negatif</span>
         </div>
       </div>
+      <p className="mt-2 text-[11px] text-slate-400 text-center">
+        * p &lt; 0.05, ** p &lt; 0.01, *** p &lt; 0.001 (dua arah)
+      </p>
     </div>
   );
 };
 
 // Correlation List Component
-const CorrelationList = ({ data }: { data: DataItem[] }) => {
-  const correlations = calculateCorrelationMatrix(data);
-  
+// Bootstrap intervals are keyed by "var1|var2"
+const CorrelationList = ({ correlations, method, zeroOrder = null, intervals, bootstrapLabel, alpha, n, strategyLabel }: {
+  correlations: CorrelationItem[];
+  method: CorrelationMethod;
+  zeroOrder?: CorrelationItem[] | null;
+  intervals: Map<string, BootstrapInterval> | null;
+  bootstrapLabel: string;
+  alpha: number;
+  n: number;
+  strategyLabel: string;
+}) => {
   return (
     <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-      <h3 className="font-bold text-slate-800 mb-4">Ranking Korelasi (Semua Pasangan)</h3>
+      <div className="flex justify-between items-start gap-2 mb-4">
+        <h3 className="font-bold text-slate-800">Ranking Korelasi (Semua Pasangan)</h3>
+        <AnalysisBadge n={n} strategy={strategyLabel} />
+      </div>
+      <p className="text-[11px] text-slate-400 mb-2">
+        {intervals
+          ? `Garis = interval ${bootstrapLabel} pada skala −1 s.d. +1; titik = ${CORRELATION_SYMBOLS[method]} sampel.`
+          : 'Bootstrap tidak dihitung untuk metode ini (estimasi ulang per sampel terlalu berat); CI di bawah berasal dari uji metodenya.'}
+      </p>
       <div className="space-y-2 max-h-[400px] overflow-y-auto">
-        {correlations.map((c, idx) => (
+        {correlations.map((c, idx) => {
+          const interval = intervals?.get(`${c.var1}|${c.var2}`);
+          const unadjusted = zeroOrder ? findCorrelation(zeroOrder, c.var1, c.var2) : undefined;
+          const toPercent = (r: number) => `${((Math.max(-1, Math.min(1, r)) + 1) / 2) * 100}%`;
+          return (
           <div 
             key={idx} 
             className={`flex items-center justify-between p-3 rounded-lg border ${
@@ -234,8 +240,39 @@ const CorrelationList = ({ data }: { data: DataItem[] }) => {
                 {c.label1} ↔ {c.label2}
               </p>
               <p className={`text-xs ${c.significant ? 'text-slate-500' : 'text-amber-600 font-medium'}`}>
-                {c.significant ? '✓ Signifikan' : '✗ Tidak Signifikan (|ρ| < 0.25)'}
+                {c.significant ? '✓ Signifikan' : '✗ Tidak Signifikan'} ({formatPValue(c.pValue)}, α = {alpha})
               </p>
+              <p className="text-[11px] text-slate-400">
+                {Math.round((1 - alpha) * 100)}% CI [{c.ciLower.toFixed(2)}, {c.ciUpper.toFixed(2)}] • {TEST_METHOD_LABELS[c.method]}
+              </p>
+              {unadjusted && (
+                <p className="text-[11px] text-slate-500">
+                  Zero-order {CORRELATION_SYMBOLS[method]} = {unadjusted.correlation.toFixed(2)} ({formatPValue(unadjusted.pValue)})
+                  {' → '}parsial {c.correlation.toFixed(2)} (Δ {(c.correlation - unadjusted.correlation >= 0 ? '+' : '') + (c.correlation - unadjusted.correlation).toFixed(2)})
+                  {unadjusted.significant !== c.significant && (
+                    <span className="ml-1 font-medium text-amber-700">• kesimpulan berubah</span>
+                  )}
+                </p>
+              )}
+              {interval && !isNaN(interval.lower) && (
+                <>
+                  <p className="text-[11px] text-slate-500">
+                    Bootstrap {Math.round((1 - alpha) * 100)}% CI [{interval.lower.toFixed(2)}, {interval.upper.toFixed(2)}] • SE {interval.se.toFixed(2)}
+                  </p>
+                  <div className="relative h-3 mt-1 mr-4">
+                    <div className="absolute top-1.5 left-0 right-0 h-px bg-slate-200" />
+                    <div className="absolute top-0 bottom-0 w-px bg-slate-300" style={{ left: '50%' }} />
+                    <div
+                      className="absolute top-1 h-1 rounded-full bg-slate-500"
+                      style={{ left: toPercent(interval.lower), width: `calc(${toPercent(interval.upper)} - ${toPercent(interval.lower)})` }}
+                    />
+                    <div
+                      className="absolute top-0.5 w-2 h-2 -ml-1 rounded-full bg-slate-800"
+                      style={{ left: toPercent(c.correlation) }}
+                    />
+                  </div>
+                </>
+              )}
             </div>
             <div className={`text-lg font-bold font-mono ${
               c.correlation >= 0.5 ? 'text-emerald-600' :
@@ -244,10 +281,11 @@ const CorrelationList = ({ data }: { data: DataItem[] }) => {
               c.correlation >= -0.25 ? 'text-slate-400' :
               'text-red-500'
             }`}>
-              {c.correlation >= 0 ? '+' : ''}{c.correlation.toFixed(3)}
+              {c.correlation >= 0 ? '+' : ''}{c.correlation.toFixed(2)}
             </div>
           </div>
-        ))}
+          );
+        })}
       </div>
     </div>
   );
@@ -257,82 +295,342 @@ const CorrelationList = ({ data }: { data: DataItem[] }) => {
 
 export default function ResearchDashboard() {
   const [activeTab, setActiveTab] = useState('overview');
-  const [data, setData] = useState<DataItem[]>([]);
+  const [respondents, setRespondents] = useState<DataItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [codebook, setCodebook] = useState<ResolvedCodebook | null>(null);
+  const [alpha, setAlpha] = useState(0.05);
 
-  // --- CSV PARSING LOGIC ---
-  const parseCSVData = (csvText: string): DataItem[] => {
-    const lines = csvText.trim().split('\n');
-    
-    const parsedData = lines.slice(1).map((line, index) => {
-      const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/);
-      
-      const getVal = (idx: number) => parseInt(values[idx]) || 0;
+  const [rawCodebook, setRawCodebook] = useState<Codebook | null>(null);
+  const [datasetName, setDatasetName] = useState(BUNDLED_DATASET_NAME);
+  const [showDataPanel, setShowDataPanel] = useState(false);
+  const [screeningOptions, setScreeningOptions] = useState<ScreeningOptions>(DEFAULT_SCREENING_OPTIONS);
+  const [missingStrategy, setMissingStrategy] = useState<MissingDataStrategy>(DEFAULT_MISSING_DATA_STRATEGY);
+  const [groupingRule, setGroupingRule] = useState<GroupingRule | null>(() => loadStoredGrouping().active);
+  const [groupingPresets, setGroupingPresets] = useState<GroupingPreset[]>(() => loadStoredGrouping().presets);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<DataFilter>(EMPTY_FILTER);
+  const [bootstrapSettings, setBootstrapSettings] = useState<BootstrapSettings>(DEFAULT_BOOTSTRAP_SETTINGS);
+  const [correlationMethod, setCorrelationMethod] = useState<CorrelationMethod>('spearman');
+  const [showMethodComparison, setShowMethodComparison] = useState(false);
+  const [partialMode, setPartialMode] = useState(false);
+  const [partialControls, setPartialControls] = useState<string[]>([]);
+  const [compareZeroOrder, setCompareZeroOrder] = useState(true);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [brushMode, setBrushMode] = useState<BrushMode>('box');
+  const [detailId, setDetailId] = useState<number | null>(null);
 
-      // 1. Intensitas & Kebiasaan Digital (5 items): cols 2, 4, 5, 18, 19
-      // - Smartphone >6 jam, media sosial harian, pesan cepat, akses mudah, wajib untuk akademik
-      const intensityScore = (getVal(2) + getVal(4) + getVal(5) + getVal(18) + getVal(19)) / 5;
-      
-      // 2. Ketergantungan Psikologis (5 items): cols 3, 6, 20, 21, 22
-      // - Cek notifikasi, cemas tanpa HP, hiburan/pelarian, FOMO, kebiasaan sulit dihentikan
-      const dependencyScore = (getVal(3) + getVal(6) + getVal(20) + getVal(21) + getVal(22)) / 5;
-      
-      // 3. Kompetensi Tatap Muka (4 items): cols 7, 8, 9, 10
-      // - Nyaman presentasi, kontak mata, bahasa tubuh, prefer diskusi langsung
-      const competenceScore = (getVal(7) + getVal(8) + getVal(9) + getVal(10)) / 4;
+  useEffect(() => {
+    saveStoredGrouping({ active: groupingRule, presets: groupingPresets });
+  }, [groupingRule, groupingPresets]);
+
+  // Screening decides which respondents enter the analysis; the missing-data
+  // strategy then computes their construct scores
+  const { data: screenedRespondents, report: screeningReport } = useMemo(
+    () => applyScreening(respondents, screeningOptions),
+    [respondents, screeningOptions]
+  );
+  const missingDataResult = useMemo(
+    () => codebook
+      ? applyMissingDataStrategy(screenedRespondents, codebook, missingStrategy)
+      : { data: [], dropped: [], missingCells: 0, imputedCells: 0 },
+    [screenedRespondents, codebook, missingStrategy]
+  );
+  // A saved rule that does not fit the loaded codebook falls back to the codebook's split
+  const activeGroupingRule = useMemo(
+    () => codebook
+      ? (groupingRule && !validateGroupingRule(groupingRule, codebook) ? groupingRule : defaultGroupingRule(codebook))
+      : null,
+    [groupingRule, codebook]
+  );
+  const groupingResult = useMemo(
+    () => activeGroupingRule
+      ? assignGroups(missingDataResult.data, activeGroupingRule)
+      : { data: [], cuts: [], counts: [], unassigned: 0 },
+    [missingDataResult, activeGroupingRule]
+  );
+  // Cross-filter from the sidebar; every tab below works on the filtered rows
+  const activeFilter = useMemo(
+    () => codebook && activeGroupingRule
+      ? normalizeFilter(filter, activeGroupingRule.levels, codebook.constructs, codebook.scale)
+      : EMPTY_FILTER,
+    [filter, codebook, activeGroupingRule]
+  );
+  const data = useMemo(() => applyFilter(groupingResult.data, activeFilter), [groupingResult, activeFilter]);
+  const filterCount = activeFilterCount(activeFilter);
+  const strategyLabel = describeStrategy(missingStrategy);
+
+  const countAnalyzable = (parsed: ParsedDataset): number =>
+    applyMissingDataStrategy(applyScreening(parsed.respondents, screeningOptions).data, parsed.codebook, missingStrategy).data.length;
+
+  const loadBundledData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [response, loadedCodebook] = await Promise.all([
+        fetch(CSV_DATA_URL),
+        loadCodebook(CODEBOOK_URL)
+      ]);
+      setRawCodebook(loadedCodebook);
       
-      // 4. Alienasi Sosial (5 items): cols 13, 14, 15, 16, 17
-      // - Hindari percakapan mendalam, interaksi dangkal, lebih terhubung online, canggung, kesulitan empati
-      const alienationScore = (getVal(13) + getVal(14) + getVal(15) + getVal(16) + getVal(17)) / 5;
+      if (!response.ok) {
+        throw new Error("File CSV tidak ditemukan.");
+      }
+
+      const text = await response.text();
+      const parsed = parseCSVData(text, loadedCodebook);
       
-      const usageGroup = getVal(2) >= 4 ? 'Heavy User (>6 Jam)' : 'Moderate/Light';
-
-      return {
-        id: index + 1,
-        intensity: parseFloat(intensityScore.toFixed(2)),
-        dependency: parseFloat(dependencyScore.toFixed(2)),
-        competence: parseFloat(competenceScore.toFixed(2)),
-        alienation: parseFloat(alienationScore.toFixed(2)),
-        usageGroup: usageGroup
-      };
-    });
-
-    return parsedData.filter(d => !isNaN(d.intensity));
+      if (countAnalyzable(parsed) > 0) {
+        setCodebook(parsed.codebook);
+        setRespondents(parsed.respondents);
+        setDatasetName(BUNDLED_DATASET_NAME);
+        setFilter(EMPTY_FILTER);
+        setSelectedIds(new Set());
+        setDetailId(null);
+      } else {
+        throw new Error("Data CSV kosong, format salah, atau tidak ada responden yang lolos screening.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Terjadi kesalahan");
+    } finally {
+      setLoading(false);
+    }
   };
 
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const response = await fetch(CSV_DATA_URL);
-        
-        if (!response.ok) {
-          throw new Error("File CSV tidak ditemukan.");
-        }
+    loadBundledData();
+  }, []);
 
-        const text = await response.text();
-        const parsed = parseCSVData(text);
-        
-        if (parsed.length > 0) {
-          setData(parsed);
-        } else {
-          throw new Error("Data CSV kosong atau format salah.");
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Terjadi kesalahan");
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Swap in an uploaded sheet; throws so the upload panel can show the message
+  const loadUploadedRows = (sheet: SheetTable, name: string) => {
+    if (!rawCodebook) {
+      throw new Error("Codebook belum dimuat.");
+    }
+    const parsed = parseSurveyRows(sheet.rows, rawCodebook, sheet.lines);
+    if (countAnalyzable(parsed) === 0) {
+      throw new Error("Tidak ada responden valid setelah screening. Periksa format file atau kriteria responden.");
+    }
+    setCodebook(parsed.codebook);
+    setRespondents(parsed.respondents);
+    setDatasetName(name);
+    setFilter(EMPTY_FILTER);
+    setSelectedIds(new Set());
+    setDetailId(null);
+    setError(null);
+    setShowDataPanel(false);
+  };
 
-    fetchData();
-  }, []);
+  const dataSourcePanel = (
+    <DataSourcePanel
+      datasetName={datasetName}
+      isBundled={datasetName === BUNDLED_DATASET_NAME}
+      onLoad={loadUploadedRows}
+      onReset={() => {
+        setShowDataPanel(false);
+        loadBundledData();
+      }}
+    />
+  );
 
   // --- STATISTIK ---
-  const heavyUsersCount = data.filter(d => d.usageGroup.includes('Heavy')).length;
-  const avgAlienation = data.length > 0 ? (data.reduce((a, b) => a + b.alienation, 0) / data.length).toFixed(2) : '0';
-  const correlations = data.length > 0 ? calculateCorrelationMatrix(data) : [];
-  const significantCount = correlations.filter(c => c.significant).length;
+  const constructs = codebook?.constructs ?? [];
+  const findConstruct = (key: string) => constructs.find(c => c.key === key);
+  const meanScore = (key: string) => data.length > 0 ? data.reduce((a, b) => a + b.scores[key], 0) / data.length : 0;
+  const scale = codebook?.scale ?? { min: 1, max: 5 };
+  const outcome = codebook ? findConstruct(codebook.outcome) : undefined;
+  const usageGroups = activeGroupingRule?.levels ?? [];
+  const groupingLabel = codebook && activeGroupingRule
+    ? describeGroupingRule(activeGroupingRule, codebook, groupingResult.cuts)
+    : '';
+  const groupCounts = usageGroups.map(g => data.filter(d => d.usageGroup === g.label).length);
+  const topGroup = usageGroups[usageGroups.length - 1];
+  const topGroupCount = groupCounts[usageGroups.length - 1] ?? 0;
+  const largestGroupIndex = groupCounts.indexOf(Math.max(...groupCounts));
+  const tooFewFiltered = filterCount > 0 && data.length < MIN_FILTERED_N;
+
+  // Respondents brushed in any scatter; shared by every chart that shows individuals
+  const selectedRespondents = data.filter(d => selectedIds.has(d.id));
+  const handleBrush = (ids: number[], additive: boolean) =>
+    setSelectedIds(prev => new Set(additive ? [...prev, ...ids] : ids));
+  const detailRespondent = detailId !== null ? groupingResult.data.find(d => d.id === detailId) : undefined;
+  const visibleTab = tooFewFiltered ? null : activeTab;
+  const overviewVisible = visibleTab === 'overview';
+  const matrixVisible = visibleTab === 'matrix';
+  const avgOutcome = outcome ? meanScore(outcome.key).toFixed(2) : '0';
+  const correlations = useMemo(
+    () => data.length > 0 && codebook ? calculateCorrelationMatrix(data, codebook.constructs, alpha) : [],
+    [data, codebook, alpha]
+  );
+  // Insights, report and APA tables stay on Spearman; the matrix tab and the
+  // KPI follow the selected method. Every other method has its own memo and is
+  // only computed while selected or while the comparison panel is open, so
+  // switching methods never recomputes the rest. Polychoric does not apply to
+  // construct scores and stays null.
+  const comparisonOpen = matrixVisible && showMethodComparison;
+  const kendallNeeded = correlationMethod === 'kendall' || comparisonOpen;
+  const pearsonNeeded = correlationMethod === 'pearson' || comparisonOpen;
+  const kendallCorrelations = useMemo(
+    () => kendallNeeded && data.length > 0 && codebook ? calculateCorrelationMatrix(data, codebook.constructs, alpha, 'kendall') : null,
+    [kendallNeeded, data, codebook, alpha]
+  );
+  const pearsonCorrelations = useMemo(
+    () => pearsonNeeded && data.length > 0 && codebook ? calculateCorrelationMatrix(data, codebook.constructs, alpha, 'pearson') : null,
+    [pearsonNeeded, data, codebook, alpha]
+  );
+  const correlationsByMethod: Record<CorrelationMethod, CorrelationItem[] | null> = {
+    spearman: correlations,
+    kendall: kendallCorrelations,
+    polychoric: null,
+    pearson: pearsonCorrelations,
+  };
+  const methodCorrelations = correlationsByMethod[correlationMethod] ?? correlations;
+  const methodComparison = comparisonOpen && COMPOSITE_METHODS.every(m => correlationsByMethod[m])
+    ? correlationsByMethod
+    : null;
+  // Resampling is only run for the tab that shows the intervals
+  const bootstrapLabel = describeBootstrap(bootstrapSettings, alpha);
+  const meanIntervals = useMemo(
+    () => overviewVisible
+      ? constructs.map(c => bootstrapMean(data.map(d => d.scores[c.key]), bootstrapSettings, alpha))
+      : null,
+    [overviewVisible, data, constructs, bootstrapSettings, alpha]
+  );
+  // Partial mode needs a Pearson-type method and at least one control; the
+  // matrix tab then shows the partial values in place of the zero-order ones
+  const partialAvailable = PARTIAL_METHODS.includes(correlationMethod);
+  const controlConstructs = useMemo(
+    () => partialMode && partialAvailable ? constructs.filter(c => partialControls.includes(c.key)) : [],
+    [partialMode, partialAvailable, constructs, partialControls]
+  );
+  const partialCorrelations = useMemo(
+    () => controlConstructs.length > 0 && data.length > 0 && codebook
+      ? calculateCorrelationMatrix(data, codebook.constructs, alpha, correlationMethod, controlConstructs)
+      : null,
+    [controlConstructs, data, codebook, alpha, correlationMethod]
+  );
+  const matrixCorrelations = partialCorrelations ?? methodCorrelations;
+  const togglePartialControl = (key: string) =>
+    setPartialControls(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  const correlationIntervals = useMemo(
+    () => {
+      if (!matrixVisible) return null;
+      const controlColumns = controlConstructs.map(c => data.map(d => d.scores[c.key]));
+      return new Map(matrixCorrelations.map(c => [
+        `${c.var1}|${c.var2}`,
+        bootstrapCorrelation(
+          data.map(d => d.scores[c.var1]),
+          data.map(d => d.scores[c.var2]),
+          (x, y, controls) => controls.length > 0
+            ? partialCorrelation(correlationMethod, x, y, controls)
+            : correlationCoefficient(correlationMethod, x, y),
+          bootstrapSettings,
+          alpha,
+          controlColumns
+        ),
+      ]));
+    },
+    [matrixVisible, matrixCorrelations, controlConstructs, correlationMethod, data, bootstrapSettings, alpha]
+  );
+
+  // Scatter pairs shown on the correlation tab (skipped if the codebook lacks a construct)
+  const scatterPairs = [
+    { x: 'dependency', y: 'alienation', fill: '#ef4444', insightClass: 'bg-red-50 border-red-100 text-red-800' },
+    { x: 'intensity', y: 'competence', fill: '#3b82f6', insightClass: 'bg-blue-50 border-blue-100 text-blue-800' },
+  ].flatMap(pair => {
+    const x = findConstruct(pair.x);
+    const y = findConstruct(pair.y);
+    const correlation = findCorrelation(correlations, pair.x, pair.y);
+    return x && y && correlation
+      ? [{ ...pair, x, y, correlation, insight: correlationInsight(correlation, pair.x, alpha) }]
+      : [];
+  });
+
+  // Statements for the behavior tab, generated from the tests above
+  const outcomeComparison = useMemo(
+    () => outcome
+      ? compareGroups(usageGroups.map(g => ({
+          label: g.label,
+          values: data.filter(d => d.usageGroup === g.label).map(d => d.scores[outcome.key]),
+        })))
+      : null,
+    [data, outcome, usageGroups]
+  );
+  const conclusions = outcome
+    ? researchConclusions({ correlations, outcome, constructs, outcomeComparison, groups: usageGroups, alpha })
+    : [];
+  const apaTables = useMemo(
+    () => [
+      descriptivesTable(data, constructs, strategyLabel, 1),
+      correlationTable(correlations, constructs, data.length, strategyLabel, 2),
+    ],
+    [data, constructs, correlations, strategyLabel]
+  );
+  const strongestInsight = correlations.length > 0
+    ? correlationInsight(correlations[0], correlations[0].var1, alpha)
+    : null;
+
+  // The dashboard counts significant pairs under the selected method; the PDF
+  // report stays on Spearman like its matrix, scatter insights and conclusions
+  const renderKpiCards = (correlationItems: CorrelationItem[], method: CorrelationMethod) => (
+    <>
+        <KpiCard 
+          title="Total Responden" 
+          value={data.length} 
+          subtitle={screeningReport.excluded.length === 0
+            ? '100% Valid Data'
+            : `${screeningReport.included} dari ${screeningReport.total} valid (${((screeningReport.included / screeningReport.total) * 100).toFixed(1)}%)`} 
+          icon={Users} 
+          colorClass="text-blue-600" 
+        />
+        <KpiCard 
+          title={`Dominasi ${topGroup?.shortLabel ?? 'Kelompok Tertinggi'}`} 
+          value={data.length === 0 ? '–' : `${((topGroupCount/data.length)*100).toFixed(1)}%`} 
+          subtitle={groupingLabel} 
+          icon={Activity} 
+          colorClass="text-red-600" 
+        />
+        <KpiCard 
+          title={`Avg Skor ${outcome?.shortLabel ?? ''}`} 
+          value={avgOutcome} 
+          subtitle={`Skala ${scale.min}-${scale.max}`} 
+          icon={AlertTriangle} 
+          colorClass="text-amber-600" 
+        />
+        <KpiCard 
+          title="Korelasi Signifikan" 
+          value={correlationItems.filter(c => c.significant).length}
+          subtitle={`dari ${correlationItems.length} pasangan (${CORRELATION_METHOD_LABELS[method]}, α = ${alpha})`}
+          icon={Network} 
+          colorClass="text-emerald-600" 
+        />
+    </>
+  );
+
+  // Called by the off-screen report once its charts are laid out
+  const exportReport = async (element: HTMLElement) => {
+    try {
+      await exportReportPdf(element, {
+        title: 'Telematics Impact Analytics - Laporan Analisis',
+        datasetName,
+        n: data.length,
+        analysisDate: new Date(),
+        details: [
+          `Screening: ${screeningReport.included} dari ${screeningReport.total} baris dianalisis`,
+          `Data hilang: ${strategyLabel}`,
+          `Kelompok penggunaan: ${groupingLabel}`,
+          `Taraf signifikansi: alpha = ${alpha} (uji dua arah)`,
+          'Korelasi: Spearman (rho) di seluruh laporan',
+          ...(filterCount > 0 ? [`Filter aktif: ${data.length} dari ${groupingResult.data.length} responden`] : []),
+        ],
+      });
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Ekspor PDF gagal.');
+    } finally {
+      setExporting(false);
+    }
+  };
 
   if (loading) return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50">
@@ -345,11 +643,20 @@ export default function ResearchDashboard() {
   
   if (error) return (
     <div className="min-h-screen flex items-center justify-center bg-slate-50">
-      <div className="bg-red-50 border border-red-200 p-8 rounded-xl text-center max-w-md">
-        <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
-        <h2 className="text-xl font-bold text-red-700 mb-2">Error Loading Data</h2>
-        <p className="text-red-600">{error}</p>
-        <p className="text-sm text-slate-500 mt-4">Pastikan file <code className="bg-slate-100 px-2 py-1 rounded">data_survey.csv</code> ada di folder <code className="bg-slate-100 px-2 py-1 rounded">public/</code></p>
+      <div className="max-w-lg w-full space-y-4">
+        <div className="bg-red-50 border border-red-200 p-8 rounded-xl text-center">
+          <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-red-700 mb-2">Error Loading Data</h2>
+          <p className="text-red-600">{error}</p>
+          <p className="text-sm text-slate-500 mt-4">
+            {rawCodebook
+              ? 'Unggah file hasil ekspor Google Forms di bawah ini untuk melanjutkan.'
+              : <>Pastikan file <code className="bg-slate-100 px-2 py-1 rounded">codebook.json</code> ada di folder <code className="bg-slate-100 px-2 py-1 rounded">public/</code></>}
+          </p>
+        </div>
+        {rawCodebook && (
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">{dataSourcePanel}</div>
+        )}
       </div>
     </div>
   );
@@ -367,311 +674,651 @@ export default function ResearchDashboard() {
             <h1 className="font-bold text-lg leading-tight">Telematics Impact Analytics</h1>
             <p className="text-xs text-slate-500">
               Research Dashboard • N={data.length} • 
-              <span className="text-emerald-600 font-bold ml-1">(Live CSV Data)</span>
+              <span className="text-emerald-600 font-bold ml-1">({datasetName})</span>
             </p>
           </div>
         </div>
-        <div className="flex gap-2 text-sm bg-slate-100 p-1 rounded-lg">
-          {['overview', 'correlation', 'matrix', 'behavior'].map((tab) => (
-            <button
-              key={tab}
-              onClick={() => setActiveTab(tab)}
-              className={`px-4 py-2 rounded-md transition-all ${
-                activeTab === tab 
-                  ? 'bg-white text-blue-600 shadow-sm font-medium' 
-                  : 'text-slate-500 hover:text-slate-700'
-              }`}
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowDataPanel(true)}
+            className="flex items-center gap-1 px-3 py-2 rounded-md text-sm text-slate-600 hover:bg-slate-100"
+          >
+            <Database size={16} />
+            Data
+          </button>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-1 px-3 py-2 rounded-md text-sm hover:bg-slate-100 ${
+              filterCount > 0 ? 'text-blue-600 font-medium' : 'text-slate-600'
+            }`}
+          >
+            <Filter size={16} />
+            Filter{filterCount > 0 && ` (${filterCount})`}
+          </button>
+          <button
+            onClick={() => {
+              setExportError(null);
+              setExporting(true);
+            }}
+            disabled={exporting || !codebook}
+            className="flex items-center gap-1 px-3 py-2 rounded-md text-sm text-slate-600 hover:bg-slate-100 disabled:opacity-50"
+            title="Unduh laporan lengkap (PDF)"
+          >
+            <FileDown size={16} />
+            {exporting ? 'Mengekspor…' : 'PDF'}
+          </button>
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            α
+            <select
+              value={alpha}
+              onChange={(e) => setAlpha(parseFloat(e.target.value))}
+              className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
             >
-              {tab === 'matrix' ? 'Matrix' : tab.charAt(0).toUpperCase() + tab.slice(1)}
-            </button>
-          ))}
+              {ALPHA_OPTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </label>
+          <div className="flex gap-2 text-sm bg-slate-100 p-1 rounded-lg">
+            {['overview', 'items', 'correlation', 'matrix', 'groups', 'clusters', 'modeling', 'behavior', 'reliability', 'factors'].map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 rounded-md transition-all ${
+                  activeTab === tab 
+                    ? 'bg-white text-blue-600 shadow-sm font-medium' 
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {tab === 'matrix' ? 'Matrix' : tab.charAt(0).toUpperCase() + tab.slice(1)}
+              </button>
+            ))}
+          </div>
         </div>
       </nav>
 
+      {/* Data source dialog */}
+      {showDataPanel && (
+        <div className="fixed inset-0 bg-slate-900/40 z-20 flex items-center justify-center p-6" onClick={() => setShowDataPanel(false)}>
+          <div className="bg-white p-6 rounded-xl shadow-xl max-w-lg w-full" onClick={(e) => e.stopPropagation()}>
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="font-bold text-slate-800">Sumber Data</h3>
+              <button onClick={() => setShowDataPanel(false)} className="text-slate-400 hover:text-slate-600">
+                <X size={20} />
+              </button>
+            </div>
+            {dataSourcePanel}
+          </div>
+        </div>
+      )}
+
+      {detailRespondent && codebook && (
+        <RespondentDrawer
+          respondent={detailRespondent}
+          codebook={codebook}
+          groups={usageGroups}
+          onClose={() => setDetailId(null)}
+        />
+      )}
+
+      {/* Off-screen copy of the report while the PDF is generated */}
+      {exporting && codebook && (
+        <ReportView
+          data={data}
+          constructs={constructs}
+          means={Object.fromEntries(constructs.map(c => [c.key, meanScore(c.key)]))}
+          groups={usageGroups}
+          groupCounts={groupCounts}
+          groupingLabel={groupingLabel}
+          scale={scale}
+          kpis={renderKpiCards(correlations, 'spearman')}
+          correlationMatrix={
+            <CorrelationMatrix correlations={correlations} method="spearman" constructs={constructs} alpha={alpha} n={data.length} strategyLabel={strategyLabel} />
+          }
+          scatterPairs={scatterPairs}
+          conclusions={conclusions}
+          onReady={exportReport}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto p-6">
+        {exportError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm p-3 rounded-lg mb-4 flex justify-between">
+            {exportError}
+            <button onClick={() => setExportError(null)}><X size={16} /></button>
+          </div>
+        )}
         
-        {/* --- VIEW 1: OVERVIEW --- */}
-        {activeTab === 'overview' && (
-          <div className="space-y-6 animate-in fade-in duration-500">
-            {/* KPI Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <KpiCard 
-                title="Total Responden" 
-                value={data.length} 
-                subtitle="100% Valid Data" 
-                icon={Users} 
-                colorClass="text-blue-600" 
-              />
-              <KpiCard 
-                title="Dominasi Heavy Users" 
-                value={`${((heavyUsersCount/data.length)*100).toFixed(1)}%`} 
-                subtitle="> 6 Jam / Hari" 
-                icon={Activity} 
-                colorClass="text-red-600" 
-              />
-              <KpiCard 
-                title="Avg Skor Alienasi" 
-                value={avgAlienation} 
-                subtitle="Skala 1-5 (Moderat)" 
-                icon={AlertTriangle} 
-                colorClass="text-amber-600" 
-              />
-              <KpiCard 
-                title="Korelasi Signifikan" 
-                value={significantCount}
-                subtitle={`dari ${correlations.length} pasangan`}
-                icon={Network} 
-                colorClass="text-emerald-600" 
-              />
-            </div>
+        <div className="flex gap-6">
+          {showFilters && codebook && (
+            <FilterSidebar
+              filter={activeFilter}
+              groups={usageGroups}
+              groupCounts={groupingResult.counts}
+              constructs={constructs}
+              scale={scale}
+              dateBounds={timestampRange(groupingResult.data)}
+              filteredCount={data.length}
+              totalCount={groupingResult.data.length}
+              onChange={setFilter}
+              onReset={() => setFilter(EMPTY_FILTER)}
+              onClose={() => setShowFilters(false)}
+            />
+          )}
+          <div className="flex-1 min-w-0">
+            {filterCount > 0 && (
+              <div className="bg-blue-50 border border-blue-100 text-blue-800 text-sm p-3 rounded-lg mb-6 flex flex-wrap items-center gap-3">
+                <Filter size={16} />
+                <span>
+                  Filter aktif: menampilkan <strong>{data.length}</strong> dari <strong>{groupingResult.data.length}</strong> responden
+                </span>
+                {!showFilters && (
+                  <button onClick={() => setShowFilters(true)} className="text-xs text-blue-700 hover:underline">Ubah filter</button>
+                )}
+                <button onClick={() => setFilter(EMPTY_FILTER)} className="text-xs text-blue-700 hover:underline ml-auto">Reset filter</button>
+              </div>
+            )}
 
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              {/* Chart: Demografi Intensitas */}
-              <div className="lg:col-span-1 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-                <h3 className="font-bold text-slate-800 mb-4">Profil Intensitas Digital</h3>
-                <div className="h-64">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={[
-                          { name: 'Heavy (>6 Jam)', value: heavyUsersCount, fill: '#ef4444' },
-                          { name: 'Moderate (<6 Jam)', value: data.length - heavyUsersCount, fill: '#3b82f6' }
-                        ]}
-                        cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value"
-                      >
-                        <Cell fill="#ef4444" />
-                        <Cell fill="#3b82f6" />
-                      </Pie>
-                      <Tooltip />
-                      <Legend verticalAlign="bottom" height={36}/>
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
-                <p className="text-xs text-slate-500 mt-4 text-center">
-                  Sampel didominasi oleh pengguna intensitas tinggi.
-                </p>
+            {tooFewFiltered && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 p-6 rounded-xl text-sm">
+                Filter hanya menyisakan {data.length} responden; minimal {MIN_FILTERED_N} responden diperlukan untuk analisis.
+                Longgarkan atau reset filter.
               </div>
+            )}
 
-              {/* Chart: Distribusi Konstruk */}
-              <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-                <h3 className="font-bold text-slate-800 mb-4">Distribusi Skor Rata-Rata per Variabel</h3>
-                <div className="h-64">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart data={[
-                      { name: 'Intensitas', score: (data.reduce((a,b)=>a+b.intensity,0)/data.length).toFixed(1), fill: '#ef4444' },
-                      { name: 'Ketergantungan', score: (data.reduce((a,b)=>a+b.dependency,0)/data.length).toFixed(1), fill: '#f59e0b' },
-                      { name: 'Kompetensi F2F', score: (data.reduce((a,b)=>a+b.competence,0)/data.length).toFixed(1), fill: '#3b82f6' },
-                      { name: 'Alienasi Sosial', score: avgAlienation, fill: '#10b981' },
-                    ]} layout="vertical" margin={{ left: 40 }}>
-                      <CartesianGrid strokeDasharray="3 3" horizontal={false} />
-                      <XAxis type="number" domain={[0, 5]} />
-                      <YAxis dataKey="name" type="category" width={100} tick={{fontSize: 12}} />
-                      <Tooltip cursor={{fill: 'transparent'}} />
-                      <Bar dataKey="score" radius={[0, 4, 4, 0]} barSize={30}>
-                        {
-                          [
-                             { fill: '#ef4444' },
-                             { fill: '#f59e0b' },
-                             { fill: '#3b82f6' },
-                             { fill: '#10b981' },
-                          ].map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={entry.fill} />
-                          ))
-                        }
-                      </Bar>
-                    </BarChart>
-                  </ResponsiveContainer>
+            {/* --- VIEW 1: OVERVIEW --- */}
+            {visibleTab === 'overview' && (
+              <div className="space-y-6 animate-in fade-in duration-500">
+                {/* KPI Grid */}
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {renderKpiCards(methodCorrelations, correlationMethod)}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  {/* Chart: Demografi Intensitas */}
+                  <div className="lg:col-span-1 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+                    <div className="flex justify-between items-start gap-2 mb-4">
+                      <h3 className="font-bold text-slate-800">Profil Intensitas Digital</h3>
+                      <AnalysisBadge n={data.length} strategy={strategyLabel} />
+                    </div>
+                    <ExportableChart name="kelompok-penggunaan" className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <PieChart>
+                          <Pie
+                            data={usageGroups.map((g, i) => ({ name: g.shortLabel, value: groupCounts[i] ?? 0, fill: g.color }))}
+                            cx="50%" cy="50%" innerRadius={60} outerRadius={80} paddingAngle={5} dataKey="value"
+                          >
+                            {usageGroups.map(g => <Cell key={g.label} fill={g.color} />)}
+                          </Pie>
+                          <Tooltip />
+                          <Legend verticalAlign="bottom" height={36}/>
+                        </PieChart>
+                      </ResponsiveContainer>
+                    </ExportableChart>
+                    <p className="text-xs text-slate-500 mt-4 text-center">
+                      {largestGroupIndex >= 0 && usageGroups[largestGroupIndex]
+                        ? `Kelompok terbesar: ${usageGroups[largestGroupIndex].shortLabel} (${((groupCounts[largestGroupIndex] / data.length) * 100).toFixed(1)}%). Dasar: ${groupingLabel}.`
+                        : ''}
+                    </p>
+                  </div>
+
+                  {/* Chart: Distribusi Konstruk */}
+                  <div className="lg:col-span-2 bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+                    <div className="flex justify-between items-start gap-2 mb-4">
+                      <h3 className="font-bold text-slate-800">Distribusi Skor Rata-Rata per Variabel</h3>
+                      <AnalysisBadge n={data.length} strategy={strategyLabel} />
+                    </div>
+                    <ExportableChart name="distribusi-skor" className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={constructs.map((c, i) => {
+                          const interval = meanIntervals?.[i];
+                          const score = meanScore(c.key);
+                          return {
+                            name: c.shortLabel,
+                            score,
+                            error: interval && !isNaN(interval.lower) ? [score - interval.lower, interval.upper - score] : [0, 0],
+                            fill: c.color,
+                          };
+                        })} layout="vertical" margin={{ left: 40 }}>
+                          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                          <XAxis type="number" domain={[0, scale.max]} />
+                          <YAxis dataKey="name" type="category" width={100} tick={{fontSize: 12}} />
+                          <Tooltip cursor={{fill: 'transparent'}} formatter={(value: number) => value.toFixed(2)} />
+                          <Bar dataKey="score" name="Rata-rata" radius={[0, 4, 4, 0]} barSize={30}>
+                            {
+                              constructs.map((c, index) => (
+                                <Cell key={`cell-${index}`} fill={c.color} />
+                              ))
+                            }
+                            <ErrorBar dataKey="error" direction="x" width={8} stroke="#334155" strokeWidth={1.5} />
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </ExportableChart>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 mt-3 text-xs text-slate-600">
+                      {constructs.map((c, i) => {
+                        const interval = meanIntervals?.[i];
+                        return (
+                          <p key={c.key}>
+                            <span className="font-medium" style={{ color: c.color }}>{c.shortLabel}</span>: M = {meanScore(c.key).toFixed(2)}
+                            {interval && !isNaN(interval.lower) && ` [${interval.lower.toFixed(2)}, ${interval.upper.toFixed(2)}]`}
+                          </p>
+                        );
+                      })}
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mt-3 pt-3 border-t border-slate-100">
+                      <p className="text-[11px] text-slate-400">Batang galat: interval {bootstrapLabel}.</p>
+                      <BootstrapControls settings={bootstrapSettings} onChange={setBootstrapSettings} />
+                    </div>
+                  </div>
                 </div>
+
+                {codebook && activeGroupingRule && (
+                  <GroupingPanel
+                    key={datasetName}
+                    rule={activeGroupingRule}
+                    codebook={codebook}
+                    result={groupingResult}
+                    presets={groupingPresets}
+                    onRuleChange={setGroupingRule}
+                    onPresetsChange={setGroupingPresets}
+                  />
+                )}
+
+                {/* Data Quality Screening */}
+                <ScreeningPanel
+                  report={screeningReport}
+                  options={screeningOptions}
+                  onOptionsChange={setScreeningOptions}
+                />
+                <MissingDataPanel
+                  strategy={missingStrategy}
+                  result={missingDataResult}
+                  onStrategyChange={setMissingStrategy}
+                />
+
+                {codebook && activeGroupingRule && (
+                  <ResultsExportPanel
+                    snapshot={{
+                      datasetName, codebook, respondents, data, filter: activeFilter, screeningOptions, screeningReport,
+                      missingStrategy, strategyLabel, missingDataResult,
+                      groupingRule: activeGroupingRule, groupingLabel, groupingResult, groups: usageGroups,
+                      alpha, correlationMethod, correlations, bootstrapSettings,
+                      partialControls: controlConstructs.map(c => c.key), conclusions,
+                    }}
+                  />
+                )}
               </div>
-            </div>
-          </div>
-        )}
+            )}
 
-        {/* --- VIEW 2: CORRELATION (THE SCIENCE) --- */}
-        {activeTab === 'correlation' && (
-          <div className="space-y-6 animate-in fade-in duration-500">
-            <SectionHeader 
-              title="Analisis Korelasi & Kausalitas" 
-              description="Visualisasi hubungan antar variabel utama berdasarkan data riil."
-            />
+            {/* --- VIEW: ITEM EXPLORER --- */}
+            {visibleTab === 'items' && codebook && (
+              <ItemExplorerView data={data} codebook={codebook} strategyLabel={strategyLabel} />
+            )}
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              
-              {/* Chart 1: Dependency vs Alienation */}
-              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-                <div className="flex justify-between items-start mb-4">
-                  <h3 className="font-bold text-slate-800">1. Ketergantungan vs Alienasi</h3>
-                  <span className="bg-emerald-100 text-emerald-700 text-xs px-2 py-1 rounded-full font-bold">
-                    ρ = {spearmanCorrelation(data.map(d => d.dependency), data.map(d => d.alienation)).toFixed(2)} (Sig.)
+            {/* --- VIEW 2: CORRELATION (THE SCIENCE) --- */}
+            {visibleTab === 'correlation' && (
+              <div className="space-y-6 animate-in fade-in duration-500">
+                <SectionHeader 
+                  title="Analisis Korelasi & Kausalitas" 
+                  description="Visualisasi hubungan antar variabel utama berdasarkan data riil."
+                />
+
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+                    {(Object.keys(BRUSH_MODE_LABELS) as BrushMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setBrushMode(mode)}
+                        className={`px-3 py-1 rounded-md text-xs transition-all ${
+                          brushMode === mode ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                      >
+                        Seleksi {BRUSH_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                  <span className="text-xs text-slate-500">
+                    Seret pada grafik untuk memilih responden (Shift = tambah pilihan); klik titik untuk detail jawaban.
                   </span>
+                  {selectedRespondents.length > 0 && (
+                    <span className="ml-auto flex items-center gap-3 text-xs">
+                      <strong className="text-blue-700">{selectedRespondents.length} responden terpilih</strong>
+                      <button onClick={() => setActiveTab('behavior')} className="text-blue-700 hover:underline">Lihat profil</button>
+                      <button onClick={() => setSelectedIds(new Set())} className="text-slate-500 hover:underline">Hapus pilihan</button>
+                    </span>
+                  )}
                 </div>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 10 }}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis type="number" dataKey="dependency" name="Ketergantungan" domain={[1, 5]} label={{ value: 'Skor Ketergantungan', position: 'bottom', offset: 0 }} />
-                      <YAxis type="number" dataKey="alienation" name="Alienasi" domain={[1, 5]} label={{ value: 'Skor Alienasi', angle: -90, position: 'left' }} />
-                      <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-                      <Scatter name="Responden" data={data} fill="#ef4444" fillOpacity={0.6} />
-                    </ScatterChart>
-                  </ResponsiveContainer>
-                </div>
-                <div className="bg-red-50 p-3 rounded-lg mt-4 border border-red-100">
-                  <p className="text-xs text-red-800 font-medium">
-                    <span className="font-bold">Insight:</span> Semakin tinggi ketergantungan (FOMO), semakin tinggi alienasi sosial.
-                  </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              
+                  {scatterPairs.map((pair, idx) => (
+                    <div key={`${pair.x.key}-${pair.y.key}`} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+                      <div className="flex justify-between items-start mb-4">
+                        <div>
+                          <h3 className="font-bold text-slate-800">{idx + 1}. {pair.x.shortLabel} vs {pair.y.shortLabel}</h3>
+                          <AnalysisBadge n={data.length} strategy={strategyLabel} />
+                        </div>
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full font-bold ${
+                            pair.correlation.significant ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'
+                          }`}
+                          title={formatPValue(pair.correlation.pValue)}
+                        >
+                          ρ = {pair.correlation.correlation.toFixed(2)}
+                          {pair.correlation.significant ? significanceStars(pair.correlation.pValue) : ' (n.s.)'}
+                        </span>
+                      </div>
+                      <ExportableChart name={`scatter-${pair.x.key}-${pair.y.key}`} className="h-80">
+                        <BrushableScatter
+                          data={data}
+                          x={pair.x}
+                          y={pair.y}
+                          fill={pair.fill}
+                          scale={scale}
+                          groups={usageGroups}
+                          selectedIds={selectedIds}
+                          brushMode={brushMode}
+                          onBrush={handleBrush}
+                          onPointClick={(respondent) => setDetailId(respondent.id)}
+                        />
+                      </ExportableChart>
+                      <div className={`${pair.insight.significant ? pair.insightClass : 'bg-slate-50 border-slate-200 text-slate-600'} p-3 rounded-lg mt-4 border`}>
+                        <p className="text-xs font-medium">
+                          <span className="font-bold">{pair.insight.title}:</span> {pair.insight.text}
+                        </p>
+                        <EvidenceLink evidence={pair.insight.evidence} onClick={() => setActiveTab(pair.insight.target)} />
+                      </div>
+                    </div>
+                  ))}
                 </div>
+
+                {codebook && (
+                  <ScatterExplorer
+                    data={data}
+                    codebook={codebook}
+                    groups={usageGroups}
+                    alpha={alpha}
+                    strategyLabel={strategyLabel}
+                    selectedIds={selectedIds}
+                    brushMode={brushMode}
+                    onBrush={handleBrush}
+                    onPointClick={(respondent) => setDetailId(respondent.id)}
+                  />
+                )}
               </div>
+            )}
 
-              {/* Chart 2: Intensity vs Competence */}
-              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-                <div className="flex justify-between items-start mb-4">
-                  <h3 className="font-bold text-slate-800">2. Intensitas vs Kompetensi F2F</h3>
-                  <span className="bg-emerald-100 text-emerald-700 text-xs px-2 py-1 rounded-full font-bold">
-                    ρ = {spearmanCorrelation(data.map(d => d.intensity), data.map(d => d.competence)).toFixed(2)} (Sig.)
-                  </span>
+            {/* --- VIEW 3: CORRELATION MATRIX (NEW!) --- */}
+            {visibleTab === 'matrix' && (
+              <div className="space-y-6 animate-in fade-in duration-500">
+                <SectionHeader 
+                  title="Matriks Korelasi Lengkap" 
+                  description={`Analisis semua pasangan variabel. Korelasi abu-abu = tidak signifikan (p ≥ ${alpha}, uji dua arah).`}
+                />
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm text-slate-600">Metode korelasi</span>
+                  <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+                    {CORRELATION_METHODS.map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setCorrelationMethod(m)}
+                        disabled={!COMPOSITE_METHODS.includes(m)}
+                        title={COMPOSITE_METHODS.includes(m) ? undefined : COMPOSITE_UNAVAILABLE_NOTE}
+                        className={`px-3 py-1 rounded-md text-xs transition-all disabled:opacity-40 ${
+                          correlationMethod === m ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                      >
+                        {CORRELATION_METHOD_LABELS[m]}
+                      </button>
+                    ))}
+                  </div>
+                  {correlationMethod !== 'spearman' && (
+                    <span className="text-[11px] text-slate-400">Insight, laporan PDF dan tabel APA tetap memakai Spearman.</span>
+                  )}
+                  <span className="text-[11px] text-slate-400 basis-full">{COMPOSITE_UNAVAILABLE_NOTE}</span>
                 </div>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 10 }}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis type="number" dataKey="intensity" name="Intensitas" domain={[1, 5]} label={{ value: 'Skor Intensitas', position: 'bottom', offset: 0 }} />
-                      <YAxis type="number" dataKey="competence" name="Kompetensi" domain={[1, 5]} label={{ value: 'Skor Kompetensi F2F', angle: -90, position: 'left' }} />
-                      <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-                      <Scatter name="Responden" data={data} fill="#3b82f6" fillOpacity={0.6} />
-                    </ScatterChart>
-                  </ResponsiveContainer>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-sm text-slate-600">Mode</span>
+                  <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+                    {[false, true].map(partial => (
+                      <button
+                        key={String(partial)}
+                        onClick={() => setPartialMode(partial)}
+                        disabled={partial && !partialAvailable}
+                        title={partial && !partialAvailable ? 'Korelasi parsial tersedia untuk Spearman dan Pearson' : undefined}
+                        className={`px-3 py-1 rounded-md text-xs transition-all disabled:opacity-40 ${
+                          partialMode === partial && (partialAvailable || !partial)
+                            ? 'bg-white text-blue-600 shadow-sm font-medium'
+                            : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                      >
+                        {partial ? 'Parsial' : 'Zero-order'}
+                      </button>
+                    ))}
+                  </div>
+                  {partialMode && partialAvailable && (
+                    <>
+                      <span className="text-sm text-slate-600">Kontrol</span>
+                      {constructs.map(c => {
+                        const checked = partialControls.includes(c.key);
+                        // At least two constructs must remain to form a pair
+                        const locked = !checked && controlConstructs.length >= constructs.length - 2;
+                        return (
+                          <label key={c.key} className={`flex items-center gap-1 text-xs ${locked ? 'text-slate-300' : 'text-slate-600'}`}>
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              disabled={locked}
+                              onChange={() => togglePartialControl(c.key)}
+                            />
+                            {c.shortLabel}
+                          </label>
+                        );
+                      })}
+                      <label className="flex items-center gap-1 text-xs text-slate-600 ml-2">
+                        <input
+                          type="checkbox"
+                          checked={compareZeroOrder}
+                          onChange={(e) => setCompareZeroOrder(e.target.checked)}
+                        />
+                        Bandingkan dengan zero-order
+                      </label>
+                      {controlConstructs.length === 0 && (
+                        <span className="text-[11px] text-amber-600">Pilih minimal satu variabel kontrol.</span>
+                      )}
+                    </>
+                  )}
+                  {partialMode && !partialAvailable && (
+                    <span className="text-[11px] text-slate-400">Korelasi parsial tersedia untuk Spearman dan Pearson.</span>
+                  )}
                 </div>
-                <div className="bg-blue-50 p-3 rounded-lg mt-4 border border-blue-100">
-                  <p className="text-xs text-blue-800 font-medium">
-                    <span className="font-bold">Paradoks:</span> Heavy users tetap memiliki kompetensi tatap muka yang baik.
-                  </p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <ExportableChart name="matriks-korelasi" vector={false}>
+                    <CorrelationMatrix
+                      correlations={matrixCorrelations}
+                      method={correlationMethod}
+                      constructs={constructs}
+                      controls={controlConstructs}
+                      zeroOrder={partialCorrelations && compareZeroOrder ? methodCorrelations : null}
+                      alpha={alpha}
+                      n={data.length}
+                      strategyLabel={strategyLabel}
+                    />
+                  </ExportableChart>
+                  <div className="space-y-3">
+                    <BootstrapControls settings={bootstrapSettings} onChange={setBootstrapSettings} />
+                    <CorrelationList
+                      correlations={matrixCorrelations}
+                      method={correlationMethod}
+                      zeroOrder={partialCorrelations && compareZeroOrder ? methodCorrelations : null}
+                      intervals={correlationIntervals}
+                      bootstrapLabel={bootstrapLabel}
+                      alpha={alpha}
+                      n={data.length}
+                      strategyLabel={strategyLabel}
+                    />
+                  </div>
                 </div>
-              </div>
-            </div>
-          </div>
-        )}
 
-        {/* --- VIEW 3: CORRELATION MATRIX (NEW!) --- */}
-        {activeTab === 'matrix' && (
-          <div className="space-y-6 animate-in fade-in duration-500">
-            <SectionHeader 
-              title="Matriks Korelasi Lengkap" 
-              description="Analisis semua pasangan variabel. Korelasi abu-abu = tidak signifikan (|ρ| < 0.25)."
-            />
+                <div>
+                  <button
+                    onClick={() => setShowMethodComparison(!showMethodComparison)}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    {showMethodComparison ? 'Sembunyikan perbandingan metode' : 'Bandingkan keempat metode korelasi'}
+                  </button>
+                </div>
+                {methodComparison && (
+                  <CorrelationMethodComparison
+                    results={methodComparison}
+                    selected={correlationMethod}
+                    alpha={alpha}
+                    n={data.length}
+                    strategyLabel={strategyLabel}
+                  />
+                )}
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <CorrelationMatrix data={data} />
-              <CorrelationList data={data} />
-            </div>
+                <ApaTablesPanel tables={apaTables} datasetName={datasetName} />
 
-            {/* Insight Box for Insignificant Correlations */}
-            {correlations.filter(c => !c.significant).length > 0 && (
-              <div className="bg-amber-50 border border-amber-200 p-6 rounded-xl">
-                <h3 className="font-bold text-amber-800 mb-3 flex items-center gap-2">
-                  <AlertTriangle size={20} />
-                  Korelasi Tidak Signifikan yang Ditemukan
-                </h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {correlations.filter(c => !c.significant).map((c, idx) => (
-                    <div key={idx} className="bg-white p-4 rounded-lg border border-amber-100">
-                      <p className="font-medium text-slate-700">{c.label1} ↔ {c.label2}</p>
-                      <p className="text-2xl font-bold text-slate-400 font-mono">ρ = {c.correlation.toFixed(3)}</p>
-                      <p className="text-xs text-amber-600 mt-2">
-                        Hubungan ini terlalu lemah untuk dianggap bermakna secara statistik.
-                      </p>
+                {/* Insight Box for Insignificant Correlations */}
+                {matrixCorrelations.filter(c => !c.significant).length > 0 && (
+                  <div className="bg-amber-50 border border-amber-200 p-6 rounded-xl">
+                    <h3 className="font-bold text-amber-800 mb-3 flex items-center gap-2">
+                      <AlertTriangle size={20} />
+                      Korelasi Tidak Signifikan yang Ditemukan
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {matrixCorrelations.filter(c => !c.significant).map((c, idx) => (
+                        <div key={idx} className="bg-white p-4 rounded-lg border border-amber-100">
+                          <p className="font-medium text-slate-700">{c.label1} ↔ {c.label2}</p>
+                          <p className="text-2xl font-bold text-slate-400 font-mono">{CORRELATION_SYMBOLS[correlationMethod]}{partialCorrelations ? ' parsial' : ''} = {c.correlation.toFixed(3)}</p>
+                          <p className="text-xs text-slate-500 font-mono">{formatPValue(c.pValue)}</p>
+                          <p className="text-xs text-amber-600 mt-2">
+                            Tidak cukup bukti untuk menolak H₀ ({CORRELATION_SYMBOLS[correlationMethod]} = 0) pada α = {alpha}.
+                          </p>
+                        </div>
+                      ))}
                     </div>
-                  ))}
-                </div>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        )}
 
-        {/* --- VIEW 4: DEEP DIVE BEHAVIOR --- */}
-        {activeTab === 'behavior' && (
-          <div className="space-y-6 animate-in fade-in duration-500">
-             <SectionHeader 
-              title="Analisis Perilaku Digital" 
-              description="Perbandingan profil individu berdasarkan 4 variabel utama penelitian."
-            />
+            {/* --- VIEW 4: DEEP DIVE BEHAVIOR --- */}
+            {visibleTab === 'behavior' && (
+              <div className="space-y-6 animate-in fade-in duration-500">
+                 <SectionHeader 
+                  title="Analisis Perilaku Digital" 
+                  description="Perbandingan profil individu berdasarkan 4 variabel utama penelitian."
+                />
+
+                <ProfileExplorer
+                  data={data}
+                  selected={selectedRespondents}
+                  constructs={constructs}
+                  scale={scale}
+                  groups={usageGroups}
+                  strategyLabel={strategyLabel}
+                  footnote={strongestInsight ? `Hubungan terkuat di sampel: ${strongestInsight.text}` : undefined}
+                  onOpenDetail={setDetailId}
+                />
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Individual Profile Chart */}
-              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
-                <h3 className="font-bold text-slate-800 mb-2">Profil Individu (Sampel)</h3>
-                <p className="text-xs text-slate-500 mb-6">Perbandingan skor 4 variabel pada 15 responden pertama.</p>
-                
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <ComposedChart data={data.slice(0, 15)} layout="vertical" margin={{ left: 10, right: 10 }}>
-                      <CartesianGrid stroke="#f5f5f5" />
-                      <XAxis type="number" domain={[0, 5]} />
-                      <YAxis dataKey="id" type="category" scale="band" width={30} />
-                      <Tooltip />
-                      <Legend />
-                      <Bar dataKey="dependency" name="Ketergantungan" barSize={6} fill="#ef4444" radius={[0, 4, 4, 0]} />
-                      <Bar dataKey="alienation" name="Alienasi" barSize={6} fill="#f59e0b" radius={[0, 4, 4, 0]} />
-                      <Bar dataKey="competence" name="Kompetensi F2F" barSize={6} fill="#3b82f6" radius={[0, 4, 4, 0]} />
-                    </ComposedChart>
-                  </ResponsiveContainer>
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Conclusions */}
+                     <div className="bg-gradient-to-br from-slate-800 to-slate-900 text-white p-6 rounded-xl shadow-md">
+                        <div className="flex items-center gap-2 mb-3">
+                          <Brain className="text-blue-400" />
+                          <h3 className="font-bold text-lg">Kesimpulan Penelitian</h3>
+                        </div>
+                        <ul className="space-y-3 text-sm text-slate-300">
+                          {conclusions.map(insight => (
+                            <li key={insight.title} className="flex gap-2">
+                              <ChevronRight size={16} className={`mt-1 shrink-0 ${insight.significant ? 'text-emerald-400' : 'text-slate-500'}`} />
+                              <div>
+                                <span><strong>{insight.title}:</strong> {insight.text}</span>
+                                <div className="text-slate-400">
+                                  <EvidenceLink evidence={insight.evidence} onClick={() => setActiveTab(insight.target)} />
+                                </div>
+                              </div>
+                            </li>
+                          ))}
+                          <li className="flex gap-2">
+                            <ChevronRight size={16} className="mt-1 text-blue-400 shrink-0" />
+                            <span><strong>Catatan:</strong> Data potong-lintang; hubungan di atas bukan bukti sebab-akibat. Lihat tab Modeling untuk uji mediasi.</span>
+                          </li>
+                        </ul>
+                     </div>
+
+                     {/* Variable Info Cards */}
+                     <div className="grid grid-cols-2 gap-3 content-start">
+                       {constructs.map(c => (
+                         <div
+                           key={c.key}
+                           className="p-4 rounded-lg border"
+                           style={{ backgroundColor: `${c.color}14`, borderColor: `${c.color}33` }}
+                         >
+                           <p className="font-bold text-sm" style={{ color: c.color }}>{c.shortLabel}</p>
+                           <p className="text-xs text-slate-600 mt-1">
+                             {c.items.length} item: {c.items.map(itemDisplayLabel).join(', ')}
+                           </p>
+                         </div>
+                       ))}
+                     </div>
                 </div>
-                <p className="text-xs text-slate-500 mt-2 italic">
-                  *Responden dengan ketergantungan tinggi (merah) cenderung memiliki alienasi tinggi (kuning).
-                </p>
               </div>
+            )}
 
-              {/* Conclusions */}
-              <div className="space-y-4">
-                 <div className="bg-gradient-to-br from-slate-800 to-slate-900 text-white p-6 rounded-xl shadow-md">
-                    <div className="flex items-center gap-2 mb-3">
-                      <Brain className="text-blue-400" />
-                      <h3 className="font-bold text-lg">Kesimpulan Penelitian</h3>
-                    </div>
-                    <ul className="space-y-3 text-sm text-slate-300">
-                      <li className="flex gap-2">
-                        <ChevronRight size={16} className="mt-1 text-emerald-400 shrink-0" />
-                        <span><strong>Ketergantungan → Alienasi:</strong> Semakin tinggi FOMO & kecemasan digital, semakin tinggi perasaan terasing.</span>
-                      </li>
-                      <li className="flex gap-2">
-                        <ChevronRight size={16} className="mt-1 text-emerald-400 shrink-0" />
-                        <span><strong>Paradoks Digital:</strong> Intensitas penggunaan tinggi tidak menurunkan kompetensi tatap muka.</span>
-                      </li>
-                      <li className="flex gap-2">
-                        <ChevronRight size={16} className="mt-1 text-amber-400 shrink-0" />
-                        <span><strong>Implikasi:</strong> Masalah bukan pada durasi penggunaan, tapi pada ketergantungan psikologis.</span>
-                      </li>
-                      <li className="flex gap-2">
-                        <ChevronRight size={16} className="mt-1 text-blue-400 shrink-0" />
-                        <span><strong>Rekomendasi:</strong> Intervensi harus fokus pada aspek emosional (FOMO, kecemasan) bukan pembatasan waktu.</span>
-                      </li>
-                    </ul>
-                 </div>
-
-                 {/* Variable Info Cards */}
-                 <div className="grid grid-cols-2 gap-3">
-                   <div className="bg-red-50 p-4 rounded-lg border border-red-100">
-                     <p className="font-bold text-red-700 text-sm">Ketergantungan</p>
-                     <p className="text-xs text-red-600 mt-1">5 item: Notifikasi, Cemas, Hiburan, FOMO, Kebiasaan</p>
-                   </div>
-                   <div className="bg-amber-50 p-4 rounded-lg border border-amber-100">
-                     <p className="font-bold text-amber-700 text-sm">Alienasi Sosial</p>
-                     <p className="text-xs text-amber-600 mt-1">5 item: Hindari F2F, Dangkal, Online &gt; Offline, Canggung, Empati</p>
-                   </div>
-                   <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
-                     <p className="font-bold text-blue-700 text-sm">Kompetensi F2F</p>
-                     <p className="text-xs text-blue-600 mt-1">4 item: Presentasi, Kontak mata, Bahasa tubuh, Prefer langsung</p>
-                   </div>
-                   <div className="bg-purple-50 p-4 rounded-lg border border-purple-100">
-                     <p className="font-bold text-purple-700 text-sm">Intensitas Digital</p>
-                     <p className="text-xs text-purple-600 mt-1">5 item: Durasi, Medsos, Pesan, Akses, Akademik</p>
-                   </div>
-                 </div>
-              </div>
-            </div>
-          </div>
-        )}
+            {/* --- VIEW: GROUP COMPARISON --- */}
+            {visibleTab === 'groups' && codebook && (
+              <GroupComparisonView
+                data={data}
+                groups={usageGroups}
+                groupingLabel={groupingLabel}
+                constructs={constructs}
+                scale={scale}
+                alpha={alpha}
+                strategyLabel={strategyLabel}
+              />
+            )}
 
+            {/* --- VIEW: CLUSTERING --- */}
+            {visibleTab === 'clusters' && codebook && activeGroupingRule && (
+              <ClusteringView
+                key={datasetName}
+                data={data}
+                codebook={codebook}
+                activeRule={activeGroupingRule}
+                strategyLabel={strategyLabel}
+                onApply={setGroupingRule}
+              />
+            )}
+
+            {/* --- VIEW: REGRESSION & MEDIATION --- */}
+            {visibleTab === 'modeling' && codebook && (
+              <ModelingView
+                key={datasetName}
+                data={data}
+                constructs={constructs}
+                outcomeKey={codebook.outcome}
+                scale={scale}
+                alpha={alpha}
+                strategyLabel={strategyLabel}
+              />
+            )}
+
+            {/* --- VIEW 5: RELIABILITY --- */}
+            {visibleTab === 'reliability' && codebook && (
+              <ReliabilityView data={data} constructs={constructs} strategyLabel={strategyLabel} />
+            )}
+
+            {/* --- VIEW: FACTOR ANALYSIS --- */}
+            {visibleTab === 'factors' && codebook && (
+              <FactorAnalysisView data={data} codebook={codebook} strategyLabel={strategyLabel} />
+            )}
+          </div>
+        </div>
       </main>
     </div>
   );
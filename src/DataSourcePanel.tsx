@@ -0,0 +1,127 @@
+import { useRef, useState } from 'react';
+import { FileSpreadsheet, RotateCcw, Upload } from 'lucide-react';
+import { ACCEPTED_FILE_TYPES, SheetTable, readSurveyFile } from './dataset';
+
+// Drag-and-drop / file-picker loader for CSV and XLSX exports. Parsing happens
+// entirely in the browser; onLoad throws if the sheet does not match the codebook.
+const DataSourcePanel = ({ datasetName, isBundled, onLoad, onReset }: {
+  datasetName: string;
+  isBundled: boolean;
+  onLoad: (sheet: SheetTable, name: string) => void;
+  onReset?: () => void;
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragActive, setDragActive] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [sheets, setSheets] = useState<SheetTable[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState(0);
+
+  const loadSheet = (sheet: SheetTable, name: string) => {
+    try {
+      onLoad(sheet, name);
+      setSheets([]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Terjadi kesalahan");
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setBusy(true);
+    setError(null);
+    setSheets([]);
+    try {
+      const tables = await readSurveyFile(file);
+      setFileName(file.name);
+      if (tables.length === 1) {
+        loadSheet(tables[0], file.name);
+      } else {
+        // Let the user pick which sheet holds the responses
+        setSheets(tables);
+        setSelectedSheet(0);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Terjadi kesalahan");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragActive(true); }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-all ${
+          dragActive ? 'border-blue-500 bg-blue-50' : 'border-slate-300 hover:border-blue-400 bg-slate-50'
+        }`}
+      >
+        <Upload className={`w-10 h-10 mx-auto mb-3 ${dragActive ? 'text-blue-600' : 'text-slate-400'}`} />
+        <p className="text-sm font-medium text-slate-700">
+          {busy ? 'Membaca file...' : 'Seret file CSV/XLSX ke sini atau klik untuk memilih'}
+        </p>
+        <p className="text-xs text-slate-500 mt-1">Ekspor Google Forms / Google Sheets. File diproses di browser, tidak diunggah ke server.</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_FILE_TYPES}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {sheets.length > 1 && (
+        <div className="bg-white border border-slate-200 p-4 rounded-lg flex flex-wrap items-center gap-3">
+          <FileSpreadsheet className="text-emerald-600" size={20} />
+          <span className="text-sm text-slate-700">{fileName} berisi {sheets.length} sheet:</span>
+          <select
+            value={selectedSheet}
+            onChange={(e) => setSelectedSheet(parseInt(e.target.value))}
+            className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+          >
+            {sheets.map((sheet, idx) => (
+              <option key={sheet.name} value={idx}>{sheet.name} ({sheet.rows.length - 1} baris)</option>
+            ))}
+          </select>
+          <button
+            onClick={() => loadSheet(sheets[selectedSheet], `${fileName} • ${sheets[selectedSheet].name}`)}
+            className="px-3 py-1 rounded-md bg-blue-600 text-white text-sm font-medium hover:bg-blue-700"
+          >
+            Muat Sheet
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 p-3 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>Dataset aktif: <span className="font-medium text-slate-700">{datasetName}</span></span>
+        {!isBundled && onReset && (
+          <button onClick={onReset} className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium">
+            <RotateCcw size={14} />
+            Kembali ke dataset bawaan
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DataSourcePanel;
@@ -0,0 +1,398 @@
+import { useMemo, useState } from 'react';
+import {
+  CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { AlertTriangle, Boxes } from 'lucide-react';
+import { ResolvedCodebook, ResolvedConstruct, ResolvedItem, itemDisplayLabel } from './codebook';
+import {
+  PARALLEL_ITERATIONS, PARALLEL_QUANTILE, confirmatoryFactorAnalysis, exploratoryFactorAnalysis, interpretKmo,
+  parallelAnalysis, samplingAdequacy
+} from './factorAnalysis';
+import { formatPValue } from './stats';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart, SectionHeader } from './ui';
+
+// --- HELPER FUNCTIONS ---
+
+// Loadings at or above this size count as salient
+const LOADING_THRESHOLD = 0.4;
+// A second loading this large marks a cross-loading item
+const CROSS_LOADING_THRESHOLD = 0.3;
+const MSA_THRESHOLD = 0.5;
+const MAX_FACTORS = 8;
+// Conventional cut-offs (Hu & Bentler, 1999): [good, acceptable]
+const FIT_CUTOFFS = {
+  cfi: [0.95, 0.9],
+  tli: [0.95, 0.9],
+  rmsea: [0.06, 0.08],
+  srmr: [0.08, 0.1],
+};
+
+const formatCoefficient = (value: number, digits = 2): string => (isNaN(value) ? '–' : value.toFixed(digits));
+
+const fitClass = (value: number, [good, acceptable]: number[], higherIsBetter: boolean): string => {
+  if (isNaN(value)) return 'text-slate-400';
+  const passes = (cut: number) => (higherIsBetter ? value >= cut : value <= cut);
+  if (passes(good)) return 'text-emerald-600';
+  if (passes(acceptable)) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+// Blue for positive, red for negative loadings; intensity follows the size
+const loadingStyle = (value: number): React.CSSProperties => ({
+  backgroundColor: value >= 0 ? `rgba(59, 130, 246, ${Math.min(1, Math.abs(value))})` : `rgba(239, 68, 68, ${Math.min(1, Math.abs(value))})`,
+  color: Math.abs(value) > 0.5 ? 'white' : '#334155',
+});
+
+// --- COMPONENTS ---
+
+// Tests whether the declared item-to-construct mapping holds up: sampling
+// adequacy, number of factors, the exploratory pattern and a confirmatory fit
+const FactorAnalysisView = ({ data, codebook, strategyLabel }: {
+  data: DataItem[];
+  codebook: ResolvedCodebook;
+  strategyLabel: string;
+}) => {
+  const { constructs } = codebook;
+  const [includeAdditional, setIncludeAdditional] = useState(true);
+  const [chosenFactors, setChosenFactors] = useState<number | null>(null);   // null = parallel analysis
+
+  const constructOf = useMemo(
+    () => new Map(constructs.flatMap(c => c.items.map(item => [item.id, c] as [string, ResolvedConstruct]))),
+    [constructs]
+  );
+  const items: ResolvedItem[] = useMemo(
+    () => (includeAdditional ? codebook.allItems : constructs.flatMap(c => c.items)),
+    [includeAdditional, codebook, constructs]
+  );
+
+  // Item analyses use the reverse-scored answers of respondents who answered every item
+  const efaInput = useMemo(() => {
+    const rows = data.filter(d => items.every(item => !isNaN(d.items[item.id])));
+    return { n: rows.length, columns: items.map(item => rows.map(d => d.items[item.id])) };
+  }, [data, items]);
+
+  const adequacy = useMemo(() => samplingAdequacy(efaInput.columns), [efaInput]);
+  const parallel = useMemo(
+    () => (efaInput.n > 1 ? parallelAnalysis(efaInput.columns) : null),
+    [efaInput]
+  );
+  const maxFactors = Math.min(MAX_FACTORS, items.length - 1);
+  const factors = Math.min(maxFactors, chosenFactors ?? parallel?.suggestedFactors ?? constructs.length);
+  const efa = useMemo(
+    () => (adequacy ? exploratoryFactorAnalysis(efaInput.columns, factors) : null),
+    [efaInput, adequacy, factors]
+  );
+
+  const cfa = useMemo(() => {
+    const declared = constructs.flatMap((c, f) => c.items.map(item => ({ item, factor: f })));
+    const rows = data.filter(d => declared.every(({ item }) => !isNaN(d.items[item.id])));
+    return confirmatoryFactorAnalysis(
+      declared.map(({ item }) => rows.map(d => d.items[item.id])),
+      declared.map(({ factor }) => factor)
+    );
+  }, [data, constructs]);
+
+  // The declared construct most of a factor's salient items belong to
+  const factorLabels = efa
+    ? Array.from({ length: factors }, (_, f) => {
+        const counts = new Map<ResolvedConstruct, number>();
+        efa.loadings.forEach((row, i) => {
+          const primary = row.reduce((best, v, j) => (Math.abs(v) > Math.abs(row[best]) ? j : best), 0);
+          const construct = constructOf.get(items[i].id);
+          if (primary === f && Math.abs(row[f]) >= LOADING_THRESHOLD && construct) {
+            counts.set(construct, (counts.get(construct) ?? 0) + 1);
+          }
+        });
+        const top = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        return top ? top[0] : null;
+      })
+    : [];
+
+  const screeData = parallel
+    ? parallel.observed.map((v, i) => ({
+        factor: i + 1,
+        observed: v,
+        randomMean: parallel.randomMean[i],
+        randomQuantile: parallel.randomQuantile[i],
+      }))
+    : [];
+
+  const kmo = interpretKmo(adequacy?.kmo ?? NaN);
+  const quantileLabel = `${Math.round(PARALLEL_QUANTILE * 100)}%`;
+  const cfaItems = constructs.flatMap(c => c.items.map(item => ({ item, construct: c })));
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <SectionHeader
+        title="Analisis Faktor Item"
+        description="Menguji apakah pemetaan item ke konstruk didukung data: kelayakan sampel, jumlah faktor, pola muatan eksploratori, dan kecocokan model konfirmatori."
+      />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <AnalysisBadge n={efaInput.n} strategy={`${strategyLabel} • kasus lengkap semua item`} />
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={includeAdditional} onChange={(e) => setIncludeAdditional(e.target.checked)} />
+          Sertakan item tambahan ({codebook.additionalItems.map(item => item.id).join(', ') || 'tidak ada'})
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          Jumlah faktor EFA
+          <select
+            value={chosenFactors ?? 'auto'}
+            onChange={(e) => setChosenFactors(e.target.value === 'auto' ? null : parseInt(e.target.value, 10))}
+            className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+          >
+            <option value="auto">Parallel analysis{parallel ? ` (${parallel.suggestedFactors})` : ''}</option>
+            {Array.from({ length: maxFactors }, (_, i) => i + 1).map(k => (
+              <option key={k} value={k}>{k}{k === constructs.length ? ' (sesuai codebook)' : ''}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!adequacy ? (
+        <div className="bg-amber-50 border border-amber-200 p-4 rounded-lg text-sm text-amber-800">
+          Matriks korelasi item singular atau responden lengkap ({efaInput.n}) tidak lebih banyak dari jumlah item ({items.length});
+          analisis faktor tidak dapat dihitung. Coba tanpa item tambahan atau dengan data yang lebih besar.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Sampling adequacy */}
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+              <h3 className="font-bold text-slate-800 mb-4">Kelayakan Sampel</h3>
+              <p className="text-xs text-slate-400">Kaiser-Meyer-Olkin (KMO)</p>
+              <p className="text-3xl font-bold text-slate-800 font-mono">{formatCoefficient(adequacy.kmo, 3)}</p>
+              <p className={`text-xs font-medium ${kmo.colorClass}`}>{kmo.label}</p>
+              <p className="text-xs text-slate-400 mt-4">Uji Bartlett (sferisitas)</p>
+              <p className="font-mono text-sm text-slate-800">
+                χ²({adequacy.bartlettDf}) = {adequacy.bartlettChiSquare.toFixed(1)}, {formatPValue(adequacy.bartlettPValue)}
+              </p>
+              {adequacy.itemMsa.some(v => v < MSA_THRESHOLD) && (
+                <p className="text-xs text-red-600 mt-4">
+                  MSA item &lt; {MSA_THRESHOLD}: {items.filter((_, i) => adequacy.itemMsa[i] < MSA_THRESHOLD).map(item => item.id).join(', ')}
+                </p>
+              )}
+              <p className="text-xs text-slate-500 mt-4">
+                KMO ≥ 0,6 dan Bartlett signifikan berarti korelasi antar item cukup untuk analisis faktor.
+              </p>
+            </div>
+
+            {/* Scree with parallel analysis */}
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 lg:col-span-2">
+              <h3 className="font-bold text-slate-800 mb-1">Scree Plot & Parallel Analysis</h3>
+              <p className="text-xs text-slate-500 mb-4">
+                Faktor dipertahankan selama eigenvalue data di atas persentil {quantileLabel} eigenvalue data acak ({PARALLEL_ITERATIONS} simulasi):
+                {' '}<strong>{parallel?.suggestedFactors ?? '–'} faktor</strong>; codebook mendeklarasikan {constructs.length}.
+              </p>
+              <ExportableChart name="scree-parallel-analysis" className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={screeData} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="factor" />
+                    <YAxis />
+                    <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                    <Legend />
+                    <ReferenceLine y={1} stroke="#cbd5e1" strokeDasharray="4 3" />
+                    <Line dataKey="observed" name="Eigenvalue data" stroke="#3b82f6" strokeWidth={2} />
+                    <Line dataKey="randomQuantile" name={`Acak (persentil ${quantileLabel})`} stroke="#ef4444" strokeDasharray="5 3" dot={false} />
+                    <Line dataKey="randomMean" name="Acak (rata-rata)" stroke="#94a3b8" strokeDasharray="2 2" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </ExportableChart>
+            </div>
+          </div>
+
+          {/* EFA loadings */}
+          {efa && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+              <div className="flex items-center gap-2 mb-1">
+                <Boxes className="text-blue-600" size={20} />
+                <h3 className="font-bold text-slate-800">Muatan Faktor Eksploratori ({factors} faktor)</h3>
+              </div>
+              <p className="text-xs text-slate-500 mb-4">
+                Principal axis factoring, rotasi oblik oblimin (quartimin); matriks pola. Tebal = |λ| ≥ {LOADING_THRESHOLD}.
+                {!efa.converged && <span className="text-amber-600"> Iterasi belum konvergen; tafsirkan dengan hati-hati.</span>}
+              </p>
+              <ExportableChart name="efa-muatan-faktor" vector={false}>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-slate-500 border-b border-slate-100">
+                        <th className="p-2 text-left font-medium">Item</th>
+                        <th className="p-2 text-left font-medium">Konstruk codebook</th>
+                        {factorLabels.map((construct, f) => (
+                          <th key={f} className="p-2 text-center font-medium">
+                            F{f + 1}
+                            {construct && <span className="block font-normal" style={{ color: construct.color }}>≈ {construct.shortLabel}</span>}
+                          </th>
+                        ))}
+                        <th className="p-2 text-right font-medium">h²</th>
+                        <th className="p-2 text-left font-medium">Catatan</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map((item, i) => {
+                        const row = efa.loadings[i];
+                        const construct = constructOf.get(item.id);
+                        const sorted = row.map(Math.abs).sort((a, b) => b - a);
+                        const primary = row.findIndex(v => Math.abs(v) === sorted[0]);
+                        const notes = [
+                          sorted[0] < LOADING_THRESHOLD && 'muatan lemah',
+                          sorted.length > 1 && sorted[1] >= CROSS_LOADING_THRESHOLD && 'muatan silang',
+                          sorted[0] >= LOADING_THRESHOLD && construct && factorLabels[primary] && factorLabels[primary] !== construct
+                            && `memuat di faktor ${factorLabels[primary]!.shortLabel}`,
+                        ].filter(Boolean);
+                        return (
+                          <tr key={item.id} className="border-b border-slate-50">
+                            <td className="p-2 text-slate-700" title={item.header}>
+                              <span className="font-mono text-slate-400 mr-2">{item.id}</span>
+                              {itemDisplayLabel(item)}
+                            </td>
+                            <td className="p-2">
+                              {construct
+                                ? <span style={{ color: construct.color }}>{construct.shortLabel}</span>
+                                : <span className="text-slate-400">Tambahan</span>}
+                            </td>
+                            {row.map((v, f) => (
+                              <td
+                                key={f}
+                                className={`p-2 text-center font-mono ${Math.abs(v) >= LOADING_THRESHOLD ? 'font-bold' : ''}`}
+                                style={loadingStyle(v)}
+                              >
+                                {v.toFixed(2)}
+                              </td>
+                            ))}
+                            <td className="p-2 text-right font-mono">{efa.communalities[i].toFixed(2)}</td>
+                            <td className="p-2 text-amber-700">{notes.join('; ')}</td>
+                          </tr>
+                        );
+                      })}
+                      <tr className="text-slate-500">
+                        <td className="p-2" colSpan={2}>Jumlah kuadrat muatan</td>
+                        {efa.ssLoadings.map((v, f) => <td key={f} className="p-2 text-center font-mono">{v.toFixed(2)}</td>)}
+                        <td colSpan={2} />
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </ExportableChart>
+              {factors > 1 && (
+                <div className="mt-4">
+                  <p className="text-xs font-medium text-slate-500 mb-2">Korelasi antar faktor</p>
+                  <table className="text-xs">
+                    <tbody>
+                      {efa.factorCorrelations.map((row, i) => (
+                        <tr key={i}>
+                          <td className="p-1 pr-3 text-slate-500">F{i + 1}</td>
+                          {row.slice(0, i + 1).map((v, j) => (
+                            <td key={j} className="p-1 px-2 text-right font-mono">{i === j ? '—' : v.toFixed(2)}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* CFA */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <h3 className="font-bold text-slate-800 mb-1">Analisis Faktor Konfirmatori (Struktur Codebook)</h3>
+        <p className="text-xs text-slate-500 mb-4">
+          {constructs.length} faktor berkorelasi, setiap item hanya memuat pada konstruknya; estimasi maximum likelihood pada matriks korelasi.
+          Item tambahan tidak termasuk.
+        </p>
+        {!cfa ? (
+          <p className="text-sm text-amber-700">
+            Model tidak dapat diestimasi (matriks korelasi singular atau responden lengkap terlalu sedikit).
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+              <div>
+                <p className="text-xs text-slate-400">χ²({cfa.df})</p>
+                <p className="text-xl font-bold font-mono text-slate-800">{cfa.chiSquare.toFixed(1)}</p>
+                <p className="text-xs text-slate-500">{formatPValue(cfa.pValue)}</p>
+              </div>
+              {([
+                ['CFI', cfa.cfi, FIT_CUTOFFS.cfi, true],
+                ['TLI', cfa.tli, FIT_CUTOFFS.tli, true],
+                ['RMSEA', cfa.rmsea, FIT_CUTOFFS.rmsea, false],
+                ['SRMR', cfa.srmr, FIT_CUTOFFS.srmr, false],
+              ] as [string, number, number[], boolean][]).map(([label, value, cutoffs, higherIsBetter]) => (
+                <div key={label}>
+                  <p className="text-xs text-slate-400">{label}</p>
+                  <p className={`text-xl font-bold font-mono ${fitClass(value, cutoffs, higherIsBetter)}`}>{formatCoefficient(value, 3)}</p>
+                  <p className="text-xs text-slate-500">baik {higherIsBetter ? '≥' : '≤'} {cutoffs[0]}</p>
+                </div>
+              ))}
+            </div>
+
+            {(!cfa.converged || cfa.heywood || cfa.n < 200) && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1 mb-4">
+                {!cfa.converged && <p className="flex items-center gap-1"><AlertTriangle size={14} /> Estimasi belum konvergen.</p>}
+                {cfa.heywood && <p className="flex items-center gap-1"><AlertTriangle size={14} /> Solusi tidak wajar (Heywood case): varian unik mendekati nol atau korelasi faktor ≥ 1.</p>}
+                {cfa.n < 200 && (
+                  <p>n = {cfa.n}: CFA dengan sampel kecil tidak stabil dan RMSEA cenderung terlalu tinggi; laporkan sebagai indikasi, bukan bukti.</p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <p className="text-xs font-medium text-slate-500 mb-2">Muatan terstandar</p>
+                <div className="space-y-1">
+                  {cfaItems.map(({ item, construct }, i) => (
+                    <div key={item.id} className="flex items-center gap-2 text-xs">
+                      <span className="w-12 font-mono text-slate-400">{item.id}</span>
+                      <span className="w-28 truncate" style={{ color: construct.color }} title={construct.label}>{construct.shortLabel}</span>
+                      <div className="flex-1 bg-slate-100 rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full"
+                          style={{ width: `${Math.min(1, Math.abs(cfa.loadings[i])) * 100}%`, backgroundColor: construct.color }}
+                        />
+                      </div>
+                      <span className={`w-10 text-right font-mono ${cfa.loadings[i] < 0.5 ? 'text-red-600 font-bold' : 'text-slate-700'}`}>
+                        {cfa.loadings[i].toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[11px] text-slate-400 mt-2">Merah: muatan &lt; 0,5.</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-slate-500 mb-2">Korelasi antar faktor laten</p>
+                <table className="text-xs">
+                  <tbody>
+                    {constructs.map((c, i) => (
+                      <tr key={c.key}>
+                        <td className="p-1 pr-3" style={{ color: c.color }}>{c.shortLabel}</td>
+                        {cfa.factorCorrelations[i].slice(0, i + 1).map((v, j) => (
+                          <td key={j} className="p-1 px-2 text-right font-mono">{i === j ? '—' : v.toFixed(2)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 p-4 rounded-xl text-xs text-slate-500 space-y-1">
+        <p>
+          Item tambahan ({codebook.additionalItems.map(item => `${item.id} ${itemDisplayLabel(item)}`).join(', ') || '–'}) tidak masuk skor konstruk mana pun.
+          Dengan item tambahan disertakan, EFA menunjukkan apakah item tersebut sebenarnya memuat pada salah satu faktor.
+        </p>
+        <p>(R) = item reverse-coded; dianalisis setelah dibalik. Batas kecocokan CFA mengikuti Hu &amp; Bentler (1999).</p>
+      </div>
+    </div>
+  );
+};
+
+export default FactorAnalysisView;
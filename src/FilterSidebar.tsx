@@ -0,0 +1,146 @@
+import { Filter, RotateCcw, X } from 'lucide-react';
+import { GroupDefinition, LikertScale, ResolvedConstruct } from './codebook';
+import { DataFilter, ELIGIBILITY_FILTER_LABELS, EligibilityFilter, activeFilterCount } from './filters';
+
+const ELIGIBILITY_OPTIONS: EligibilityFilter[] = ['all', 'eligible', 'ineligible'];
+
+const inputClass = 'w-full bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700';
+
+// Cross-filter for every tab: the dashboard recomputes all statistics on the
+// respondents that pass these conditions
+const FilterSidebar = ({ filter, groups, groupCounts, constructs, scale, dateBounds, filteredCount, totalCount, onChange, onReset, onClose }: {
+  filter: DataFilter;
+  groups: GroupDefinition[];
+  groupCounts: number[];               // Analyzed respondents per group before filtering
+  constructs: ResolvedConstruct[];
+  scale: LikertScale;
+  dateBounds: [string, string] | null;
+  filteredCount: number;
+  totalCount: number;
+  onChange: (filter: DataFilter) => void;
+  onReset: () => void;
+  onClose: () => void;
+}) => {
+  const toggleGroup = (label: string) => {
+    const selected = filter.groups.includes(label)
+      ? filter.groups.filter(g => g !== label)
+      : [...filter.groups, label];
+    onChange({ ...filter, groups: selected });
+  };
+
+  const setRange = (key: string, bound: 0 | 1, value: number) => {
+    if (isNaN(value)) return;
+    const current = filter.scoreRanges[key] ?? [scale.min, scale.max];
+    const next: [number, number] = [...current];
+    next[bound] = Math.min(scale.max, Math.max(scale.min, value));
+    onChange({ ...filter, scoreRanges: { ...filter.scoreRanges, [key]: next } });
+  };
+
+  return (
+    <aside className="w-72 shrink-0 bg-white p-5 rounded-xl shadow-sm border border-slate-100 space-y-5 self-start sticky top-24 max-h-[calc(100vh-7rem)] overflow-y-auto">
+      <div className="flex items-center gap-2">
+        <Filter className="text-blue-600" size={18} />
+        <h3 className="font-bold text-slate-800">Filter Data</h3>
+        <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600" title="Tutup panel filter">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 text-sm text-blue-800">
+        <p>
+          Menampilkan <strong>{filteredCount}</strong> dari <strong>{totalCount}</strong> responden
+        </p>
+        <button
+          onClick={onReset}
+          disabled={activeFilterCount(filter) === 0}
+          className="mt-2 flex items-center gap-1 text-xs text-blue-700 hover:underline disabled:opacity-40 disabled:no-underline"
+        >
+          <RotateCcw size={12} /> Reset semua filter
+        </button>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-500 mb-2">Kelompok penggunaan</p>
+        <div className="space-y-1">
+          {groups.map((g, i) => (
+            <label key={g.label} className="flex items-center gap-2 text-sm text-slate-700">
+              <input type="checkbox" checked={filter.groups.includes(g.label)} onChange={() => toggleGroup(g.label)} />
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: g.color }} />
+              {g.shortLabel}
+              <span className="text-xs text-slate-400 ml-auto">{groupCounts[i] ?? 0}</span>
+            </label>
+          ))}
+        </div>
+        <p className="text-[11px] text-slate-400 mt-1">Tanpa centang = semua kelompok.</p>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-500 mb-2">Rentang skor ({scale.min}–{scale.max})</p>
+        <div className="space-y-2">
+          {constructs.map(c => {
+            const [min, max] = filter.scoreRanges[c.key] ?? [scale.min, scale.max];
+            return (
+              <div key={c.key}>
+                <p className="text-xs text-slate-600 mb-1">{c.shortLabel}</p>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number" step={0.1} min={scale.min} max={scale.max} value={min}
+                    onChange={(e) => setRange(c.key, 0, parseFloat(e.target.value))}
+                    className={inputClass}
+                    aria-label={`Skor minimum ${c.label}`}
+                  />
+                  <span className="text-slate-400">–</span>
+                  <input
+                    type="number" step={0.1} min={scale.min} max={scale.max} value={max}
+                    onChange={(e) => setRange(c.key, 1, parseFloat(e.target.value))}
+                    className={inputClass}
+                    aria-label={`Skor maksimum ${c.label}`}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-500 mb-2">Kriteria responden</p>
+        <select
+          value={filter.eligibility}
+          onChange={(e) => onChange({ ...filter, eligibility: e.target.value as EligibilityFilter })}
+          className={inputClass}
+        >
+          {ELIGIBILITY_OPTIONS.map(option => (
+            <option key={option} value={option}>{ELIGIBILITY_FILTER_LABELS[option]}</option>
+          ))}
+        </select>
+        <p className="text-[11px] text-slate-400 mt-1">Responden tidak memenuhi kriteria hanya tersedia jika tidak dikeluarkan saat screening.</p>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-500 mb-2">Waktu pengisian</p>
+        {dateBounds ? (
+          <div className="space-y-2">
+            <input
+              type="date" value={filter.dateFrom} min={dateBounds[0]} max={dateBounds[1]}
+              onChange={(e) => onChange({ ...filter, dateFrom: e.target.value })}
+              className={inputClass}
+              aria-label="Tanggal awal"
+            />
+            <input
+              type="date" value={filter.dateTo} min={dateBounds[0]} max={dateBounds[1]}
+              onChange={(e) => onChange({ ...filter, dateTo: e.target.value })}
+              className={inputClass}
+              aria-label="Tanggal akhir"
+            />
+            <p className="text-[11px] text-slate-400">Data: {dateBounds[0]} s.d. {dateBounds[1]}</p>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400">Dataset tidak memiliki kolom timestamp yang terbaca.</p>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default FilterSidebar;
@@ -0,0 +1,245 @@
+import { useMemo } from 'react';
+import { Users } from 'lucide-react';
+import { GroupDefinition, LikertScale, ResolvedConstruct } from './codebook';
+import { GroupComparison, compareGroups, effectSizeLabel } from './groupTests';
+import { createRng, formatPValue, significanceStars } from './stats';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart, SectionHeader } from './ui';
+
+// --- HELPER FUNCTIONS ---
+
+const PLOT_WIDTH = 420;
+const PLOT_HEIGHT = 240;
+const PLOT_MARGIN = { top: 12, right: 12, bottom: 36, left: 36 };
+const JITTER_SEED = 7;
+
+const formatStatistic = (comparison: GroupComparison): string => {
+  const result = comparison.result;
+  if (!result) return '–';
+  if (result.test === 'mann-whitney') return `U = ${result.u.toFixed(1)}, z = ${result.z.toFixed(2)}`;
+  return `H(${result.df}) = ${result.h.toFixed(2)}`;
+};
+
+const formatEffectSize = (comparison: GroupComparison): string => {
+  const result = comparison.result;
+  if (!result) return '–';
+  return result.test === 'mann-whitney'
+    ? `r_rb = ${result.rankBiserial.toFixed(2)}`
+    : `ε² = ${result.epsilonSquared.toFixed(3)}`;
+};
+
+// Box plot (median, IQR, whiskers to the most extreme point within 1.5 × IQR)
+// with the individual scores jittered on top
+const BoxPlot = ({ comparison, values, groups, scale }: {
+  comparison: GroupComparison;
+  values: Map<string, number[]>;
+  groups: GroupDefinition[];
+  scale: LikertScale;
+}) => {
+  const innerWidth = PLOT_WIDTH - PLOT_MARGIN.left - PLOT_MARGIN.right;
+  const innerHeight = PLOT_HEIGHT - PLOT_MARGIN.top - PLOT_MARGIN.bottom;
+  const yMin = scale.min - 0.25;
+  const yMax = scale.max + 0.25;
+  const y = (v: number) => PLOT_MARGIN.top + innerHeight * (1 - (v - yMin) / (yMax - yMin));
+  const band = innerWidth / Math.max(comparison.groups.length, 1);
+  const boxWidth = Math.min(70, band * 0.45);
+  const random = createRng(JITTER_SEED);
+  const ticks = Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} className="w-full h-auto">
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={PLOT_MARGIN.left} x2={PLOT_WIDTH - PLOT_MARGIN.right} y1={y(t)} y2={y(t)} stroke="#e2e8f0" strokeDasharray="3 3" />
+          <text x={PLOT_MARGIN.left - 8} y={y(t) + 4} textAnchor="end" fontSize={11} fill="#64748b">{t}</text>
+        </g>
+      ))}
+      {comparison.groups.map((summary, idx) => {
+        const color = groups.find(g => g.label === summary.label)?.color ?? '#64748b';
+        const shortLabel = groups.find(g => g.label === summary.label)?.shortLabel ?? summary.label;
+        const cx = PLOT_MARGIN.left + band * (idx + 0.5);
+        const groupValues = values.get(summary.label) ?? [];
+        const iqr = summary.q3 - summary.q1;
+        const lowerWhisker = Math.min(...groupValues.filter(v => v >= summary.q1 - 1.5 * iqr));
+        const upperWhisker = Math.max(...groupValues.filter(v => v <= summary.q3 + 1.5 * iqr));
+        return (
+          <g key={summary.label}>
+            <line x1={cx} x2={cx} y1={y(upperWhisker)} y2={y(summary.q3)} stroke={color} />
+            <line x1={cx} x2={cx} y1={y(summary.q1)} y2={y(lowerWhisker)} stroke={color} />
+            <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={y(upperWhisker)} y2={y(upperWhisker)} stroke={color} />
+            <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={y(lowerWhisker)} y2={y(lowerWhisker)} stroke={color} />
+            <rect
+              x={cx - boxWidth / 2}
+              y={y(summary.q3)}
+              width={boxWidth}
+              height={Math.max(1, y(summary.q1) - y(summary.q3))}
+              fill={color}
+              fillOpacity={0.15}
+              stroke={color}
+            />
+            <line x1={cx - boxWidth / 2} x2={cx + boxWidth / 2} y1={y(summary.median)} y2={y(summary.median)} stroke={color} strokeWidth={3} />
+            {groupValues.map((v, i) => (
+              <circle
+                key={i}
+                cx={cx + (random() - 0.5) * boxWidth * 1.2}
+                cy={y(v)}
+                r={2.5}
+                fill={color}
+                fillOpacity={0.5}
+              >
+                <title>{v.toFixed(2)}</title>
+              </circle>
+            ))}
+            <text x={cx} y={PLOT_HEIGHT - 18} textAnchor="middle" fontSize={11} fill="#334155" fontWeight="bold">{shortLabel}</text>
+            <text x={cx} y={PLOT_HEIGHT - 5} textAnchor="middle" fontSize={10} fill="#94a3b8">
+              n = {summary.n} • Md = {summary.median.toFixed(2)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// --- COMPONENT ---
+
+const GroupComparisonView = ({ data, groups, groupingLabel, constructs, scale, alpha, strategyLabel }: {
+  data: DataItem[];
+  groups: GroupDefinition[];
+  groupingLabel: string;
+  constructs: ResolvedConstruct[];
+  scale: LikertScale;
+  alpha: number;
+  strategyLabel: string;
+}) => {
+  const results = useMemo(() => constructs.map(c => {
+    const values = new Map(groups.map(g => [
+      g.label,
+      data.filter(d => d.usageGroup === g.label).map(d => d.scores[c.key]),
+    ]));
+    return {
+      construct: c,
+      values,
+      comparison: compareGroups(groups.map(g => ({ label: g.label, values: values.get(g.label)! }))),
+    };
+  }), [data, groups, constructs]);
+
+  const groupsPresent = groups.filter(g => data.some(d => d.usageGroup === g.label)).length;
+  const testName = groupsPresent > 2 ? 'Kruskal-Wallis + Dunn (Holm)' : 'Mann-Whitney U';
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <SectionHeader
+        title="Perbandingan Kelompok Pengguna"
+        description="Apakah skor setiap konstruk berbeda antar kelompok intensitas penggunaan? Uji non-parametrik berbasis peringkat beserta ukuran efeknya."
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <AnalysisBadge n={data.filter(d => d.usageGroup !== null).length} strategy={`${strategyLabel} • ${testName}`} />
+        <span className="text-xs text-slate-500">Kelompok: {groupingLabel} (atur di tab Overview)</span>
+      </div>
+
+      {/* Summary */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-500 border-b border-slate-100 text-xs">
+              <th className="p-2 text-left font-medium">Konstruk</th>
+              {groups.map(g => (
+                <th key={g.label} className="p-2 text-right font-medium">
+                  <span style={{ color: g.color }}>●</span> Median {g.shortLabel}
+                </th>
+              ))}
+              <th className="p-2 text-right font-medium">Statistik</th>
+              <th className="p-2 text-right font-medium">p</th>
+              <th className="p-2 text-right font-medium">Ukuran efek</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(({ construct, comparison }) => {
+              const result = comparison.result;
+              const significant = result !== null && result.pValue < alpha;
+              return (
+                <tr key={construct.key} className="border-b border-slate-50">
+                  <td className="p-2 font-medium text-slate-700">{construct.label}</td>
+                  {groups.map(g => {
+                    const summary = comparison.groups.find(s => s.label === g.label);
+                    return (
+                      <td key={g.label} className="p-2 text-right font-mono">
+                        {summary ? summary.median.toFixed(2) : '–'}
+                      </td>
+                    );
+                  })}
+                  <td className="p-2 text-right font-mono text-xs">{formatStatistic(comparison)}</td>
+                  <td className={`p-2 text-right font-mono ${significant ? 'text-green-600 font-bold' : 'text-slate-500'}`}>
+                    {result ? `${formatPValue(result.pValue)}${significanceStars(result.pValue)}` : '–'}
+                  </td>
+                  <td className="p-2 text-right text-xs">
+                    <span className="font-mono">{formatEffectSize(comparison)}</span>
+                    {result && <span className="text-slate-400 ml-2">({effectSizeLabel(result)})</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Distribution per construct */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {results.map(({ construct, values, comparison }) => {
+          const result = comparison.result;
+          return (
+            <div key={construct.key} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+              <div className="flex items-center gap-2 mb-4">
+                <Users size={20} style={{ color: construct.color }} />
+                <h3 className="font-bold text-slate-800">{construct.label}</h3>
+                {result && result.pValue < alpha && (
+                  <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full ml-auto">Berbeda signifikan</span>
+                )}
+              </div>
+              <ExportableChart name={`boxplot-${construct.key}`}>
+                <BoxPlot comparison={comparison} values={values} groups={groups} scale={scale} />
+              </ExportableChart>
+              <p className="text-xs text-slate-500 mt-3">
+                {formatStatistic(comparison)}
+                {result && `, ${formatPValue(result.pValue)}`}
+                {result?.test === 'mann-whitney' && (result.exact ? ' (eksak)' : ' (aproksimasi normal)')}
+                {' • '}{formatEffectSize(comparison)}
+              </p>
+              {result?.test === 'kruskal-wallis' && (
+                <table className="w-full text-xs mt-3">
+                  <thead>
+                    <tr className="text-slate-500 border-b border-slate-100">
+                      <th className="p-1 text-left font-medium">Pasangan (Dunn)</th>
+                      <th className="p-1 text-right font-medium">z</th>
+                      <th className="p-1 text-right font-medium">p Holm</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.posthoc.map(pair => (
+                      <tr key={`${pair.group1}-${pair.group2}`} className="border-b border-slate-50">
+                        <td className="p-1 text-slate-700">{pair.group1} vs {pair.group2}</td>
+                        <td className="p-1 text-right font-mono">{pair.z.toFixed(2)}</td>
+                        <td className={`p-1 text-right font-mono ${pair.pAdjusted < alpha ? 'text-green-600 font-bold' : ''}`}>
+                          {formatPValue(pair.pAdjusted)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 p-4 rounded-xl text-xs text-slate-500 space-y-1">
+        <p>Dua kelompok: Mann-Whitney U (eksak bila tidak ada ties dan n ≤ 20 per kelompok, selain itu aproksimasi normal dengan koreksi ties dan kontinuitas). Tiga kelompok atau lebih: Kruskal-Wallis dengan koreksi ties, dilanjutkan uji Dunn dengan penyesuaian Holm.</p>
+        <p>r_rb = korelasi rank-biserial (positif berarti kelompok pertama cenderung lebih tinggi); batas |r| 0,1 / 0,3 / 0,5. ε² = epsilon-squared Kruskal-Wallis; batas 0,01 / 0,08 / 0,26.</p>
+        <p>Kotak = kuartil 1–3, garis tebal = median, whisker = nilai terjauh dalam 1,5 × IQR; titik = skor tiap responden.</p>
+      </div>
+    </div>
+  );
+};
+
+export default GroupComparisonView;
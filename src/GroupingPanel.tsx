@@ -0,0 +1,239 @@
+import { useState } from 'react';
+import { Layers, Plus, RotateCcw, Save, X } from 'lucide-react';
+import { GroupDefinition, ResolvedCodebook } from './codebook';
+import {
+  GROUPING_METHOD_LABELS, GroupingMethod, GroupingPreset, GroupingResult, GroupingRule,
+  MAX_GROUP_LEVELS, defaultGroupingRule, defaultLevels, describeGroupingRule, levelCount, validateGroupingRule
+} from './grouping';
+
+// Editor for the rule that splits respondents into usage groups. Edits are kept
+// as a draft and only passed up while the rule is valid.
+const GroupingPanel = ({ rule, codebook, result, presets, onRuleChange, onPresetsChange }: {
+  rule: GroupingRule;
+  codebook: ResolvedCodebook;
+  result: GroupingResult;
+  presets: GroupingPreset[];
+  onRuleChange: (rule: GroupingRule) => void;
+  onPresetsChange: (presets: GroupingPreset[]) => void;
+}) => {
+  const [draft, setDraft] = useState(rule);
+  const [presetName, setPresetName] = useState('');
+  const error = validateGroupingRule(draft, codebook);
+
+  const update = (next: GroupingRule) => {
+    setDraft(next);
+    if (!validateGroupingRule(next, codebook)) onRuleChange(next);
+  };
+
+  // Changing the number of levels resets names and colors to the defaults
+  const withLevelCount = (next: Omit<GroupingRule, 'levels'>): GroupingRule => {
+    const count = levelCount(next);
+    return { ...next, levels: count === draft.levels.length ? draft.levels : defaultLevels(count) };
+  };
+
+  const updateLevel = (index: number, patch: Partial<GroupDefinition>) =>
+    update({ ...draft, levels: draft.levels.map((level, i) => (i === index ? { ...level, ...patch } : level)) });
+
+  const updateThreshold = (index: number, value: number) =>
+    update({ ...draft, thresholds: draft.thresholds.map((t, i) => (i === index ? value : t)) });
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || error) return;
+    onPresetsChange([...presets.filter(p => p.name !== name), { name, rule: draft }]);
+    setPresetName('');
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="text-blue-600" size={20} />
+        <h3 className="font-bold text-slate-800">Pengelompokan Responden</h3>
+        <span className="text-xs text-slate-500 ml-auto">
+          Aktif: {describeGroupingRule(rule, codebook, result.cuts)}
+          {result.unassigned > 0 && ` • ${result.unassigned} tanpa nilai`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          Dasar
+          <select
+            value={`${draft.basisType}:${draft.basis}`}
+            onChange={(e) => {
+              const [basisType, basis] = e.target.value.split(':') as [GroupingRule['basisType'], string];
+              if (basisType === 'cluster') update(rule);
+              else if (draft.method === 'cluster') {
+                // Persona names do not carry over to a score-based split
+                const next = { ...draft, basisType, basis, method: 'median' as const, thresholds: [codebook.usageGroup.threshold], cluster: undefined };
+                update({ ...next, levels: defaultLevels(levelCount(next)) });
+              } else update({ ...draft, basisType, basis });
+            }}
+            className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+          >
+            {rule.basisType === 'cluster' && (
+              <optgroup label="Klaster">
+                <option value="cluster:">{describeGroupingRule(rule, codebook)}</option>
+              </optgroup>
+            )}
+            <optgroup label="Skor konstruk">
+              {codebook.constructs.map(c => <option key={c.key} value={`construct:${c.key}`}>{c.label}</option>)}
+            </optgroup>
+            <optgroup label="Item (jawaban asli)">
+              {codebook.allItems.map(item => (
+                <option key={item.id} value={`item:${item.id}`}>{item.id} • {item.label}</option>
+              ))}
+            </optgroup>
+          </select>
+        </label>
+
+        {draft.method === 'cluster' ? (
+          <span className="text-xs text-slate-500">Klaster diatur di tab Clusters; nama dan warna dapat diubah di bawah.</span>
+        ) : (
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Metode
+            <select
+              value={draft.method}
+              onChange={(e) => update(withLevelCount({ ...draft, method: e.target.value as GroupingMethod }))}
+              className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+            >
+              {(Object.keys(GROUPING_METHOD_LABELS) as GroupingMethod[]).filter(method => method !== 'cluster').map(method => (
+                <option key={method} value={method}>{GROUPING_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {draft.method === 'threshold' && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+            Batas (≥)
+            {draft.thresholds.map((t, i) => (
+              <span key={i} className="flex items-center gap-1">
+                <input
+                  type="number"
+                  step={0.1}
+                  min={codebook.scale.min}
+                  max={codebook.scale.max}
+                  value={isNaN(t) ? '' : t}
+                  onChange={(e) => updateThreshold(i, parseFloat(e.target.value))}
+                  className="w-16 bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+                />
+                {draft.thresholds.length > 1 && (
+                  <button
+                    onClick={() => update(withLevelCount({ ...draft, thresholds: draft.thresholds.filter((_, j) => j !== i) }))}
+                    className="text-slate-400 hover:text-red-500"
+                    title="Hapus batas"
+                  >
+                    <X size={14} />
+                  </button>
+                )}
+              </span>
+            ))}
+            {draft.thresholds.length + 1 < MAX_GROUP_LEVELS && (
+              <button
+                onClick={() => {
+                  const last = draft.thresholds[draft.thresholds.length - 1];
+                  const next = Math.min(codebook.scale.max, (isNaN(last) ? codebook.scale.min : last) + 1);
+                  update(withLevelCount({ ...draft, thresholds: [...draft.thresholds, next] }));
+                }}
+                className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+              >
+                <Plus size={14} /> Batas
+              </button>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={() => update(defaultGroupingRule(codebook))}
+          className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 ml-auto"
+        >
+          <RotateCcw size={14} /> Aturan codebook
+        </button>
+      </div>
+
+      {/* Levels, lowest first */}
+      <table className="w-full text-xs mt-4">
+        <thead>
+          <tr className="text-slate-500 border-b border-slate-100">
+            <th className="p-2 text-left font-medium">Warna</th>
+            <th className="p-2 text-left font-medium">Nama kelompok</th>
+            <th className="p-2 text-left font-medium">Nama singkat</th>
+            <th className="p-2 text-right font-medium">n</th>
+          </tr>
+        </thead>
+        <tbody>
+          {draft.levels.map((level, i) => (
+            <tr key={i} className="border-b border-slate-50">
+              <td className="p-2">
+                <input
+                  type="color"
+                  value={level.color}
+                  onChange={(e) => updateLevel(i, { color: e.target.value })}
+                  className="w-8 h-6 rounded cursor-pointer"
+                />
+              </td>
+              <td className="p-2">
+                <input
+                  value={level.label}
+                  onChange={(e) => updateLevel(i, { label: e.target.value })}
+                  className="w-full bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+                />
+              </td>
+              <td className="p-2">
+                <input
+                  value={level.shortLabel}
+                  onChange={(e) => updateLevel(i, { shortLabel: e.target.value })}
+                  className="w-full bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+                />
+              </td>
+              <td className="p-2 text-right font-mono">{error ? '–' : result.counts[i] ?? 0}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error} Aturan aktif tidak diubah.</p>}
+
+      {/* Saved rules */}
+      <div className="flex flex-wrap items-center gap-2 mt-4 text-xs">
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Nama aturan"
+          className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim() || error !== null}
+          className="flex items-center gap-1 px-3 py-1 rounded-md bg-blue-600 text-white disabled:opacity-40"
+        >
+          <Save size={14} /> Simpan
+        </button>
+        {presets.map(preset => (
+          <span key={preset.name} className="flex items-center gap-1 bg-slate-100 rounded-full pl-3 pr-1 py-0.5">
+            <button
+              onClick={() => update(preset.rule)}
+              className="text-slate-700 hover:text-blue-600"
+              title={describeGroupingRule(preset.rule, codebook)}
+            >
+              {preset.name}
+            </button>
+            <button
+              onClick={() => onPresetsChange(presets.filter(p => p.name !== preset.name))}
+              className="text-slate-400 hover:text-red-500"
+              title="Hapus aturan tersimpan"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500 mt-3">
+        Aturan aktif dan aturan tersimpan disimpan di browser ini. Titik potong tertil/kuartil/median dihitung dari sampel yang dianalisis; nilai tepat di titik potong masuk ke kelompok yang lebih tinggi.
+      </p>
+    </div>
+  );
+};
+
+export default GroupingPanel;
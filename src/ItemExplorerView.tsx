@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { ListChecks } from 'lucide-react';
+import { LikertScale, ResolvedCodebook, ResolvedItem, itemDisplayLabel, scalePointLabel } from './codebook';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart, SectionHeader } from './ui';
+
+// --- TYPES ---
+type SortMode = 'questionnaire' | 'agreement';
+
+interface ItemRow {
+  id: string;
+  n: number;
+  agreement: number;   // % answering above the midpoint
+  [segment: string]: number | string;
+}
+
+interface ItemGroup {
+  key: string;
+  label: string;
+  color: string;
+  items: ResolvedItem[];
+}
+
+// --- HELPER FUNCTIONS ---
+
+const NEGATIVE_COLORS = ['#fca5a5', '#f87171', '#dc2626', '#991b1b'];
+const POSITIVE_COLORS = ['#6ee7b7', '#34d399', '#059669', '#065f46'];
+const NEUTRAL_COLOR = '#cbd5e1';
+const ROW_HEIGHT = 64;
+const LINE_LENGTH = 58;
+
+const scalePoints = (scale: LikertScale): number[] =>
+  Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+
+// Points below the midpoint diverge to the left, above it to the right; an odd
+// scale's middle point is split half/half around zero.
+const classifyPoint = (scale: LikertScale, point: number): 'negative' | 'neutral' | 'positive' => {
+  const middle = (scale.min + scale.max) / 2;
+  if (point < middle) return 'negative';
+  if (point > middle) return 'positive';
+  return 'neutral';
+};
+
+const pointColor = (scale: LikertScale, point: number): string => {
+  const middle = (scale.min + scale.max) / 2;
+  const side = classifyPoint(scale, point);
+  if (side === 'neutral') return NEUTRAL_COLOR;
+  const distance = Math.ceil(Math.abs(point - middle)) - 1;
+  const palette = side === 'negative' ? NEGATIVE_COLORS : POSITIVE_COLORS;
+  return palette[Math.min(distance, palette.length - 1)];
+};
+
+const wrapText = (text: string, maxLength: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).forEach(word => {
+    if ((current + ' ' + word).trim().length > maxLength && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = (current + ' ' + word).trim();
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+const buildRow = (item: ResolvedItem, data: DataItem[], scale: LikertScale): ItemRow => {
+  const answers = data.map(d => d.responses[item.id]).filter(v => !isNaN(v));
+  const n = answers.length;
+  const row: ItemRow = { id: item.id, n, agreement: 0 };
+
+  scalePoints(scale).forEach(point => {
+    const pct = n > 0 ? (answers.filter(v => v === point).length / n) * 100 : 0;
+    const side = classifyPoint(scale, point);
+    if (side === 'neutral') {
+      row[`neg_${point}`] = -pct / 2;
+      row[`pos_${point}`] = pct / 2;
+    } else if (side === 'negative') {
+      row[`neg_${point}`] = -pct;
+    } else {
+      row[`pos_${point}`] = pct;
+      row.agreement += pct;
+    }
+    row[`pct_${point}`] = pct;
+  });
+
+  return row;
+};
+
+// Y-axis tick showing the item id and the wrapped question text
+const QuestionTick = ({ x, y, payload, items }: {
+  x?: number;
+  y?: number;
+  payload?: { value: string };
+  items: Map<string, ResolvedItem>;
+}) => {
+  const item = payload ? items.get(payload.value) : undefined;
+  if (!item) return null;
+  const wrapped = wrapText(item.header, LINE_LENGTH);
+  const lines = wrapped.slice(0, 3);
+  if (wrapped.length > 3) lines[2] += '…';
+  return (
+    <g transform={`translate(${x},${y})`}>
+      <text textAnchor="end" fontSize={11} fill="#334155">
+        <tspan x={-8} dy={-((lines.length) * 12) / 2 + 4} fontWeight="bold">
+          {item.id} • {itemDisplayLabel(item)}
+        </tspan>
+        {lines.map((line, idx) => (
+          <tspan key={idx} x={-8} dy={12} fill="#64748b">{line}</tspan>
+        ))}
+      </text>
+    </g>
+  );
+};
+
+// --- COMPONENT ---
+
+const ItemExplorerView = ({ data, codebook, strategyLabel }: {
+  data: DataItem[];
+  codebook: ResolvedCodebook;
+  strategyLabel: string;
+}) => {
+  const [sortMode, setSortMode] = useState<SortMode>('agreement');
+  const scale = codebook.scale;
+  const points = scalePoints(scale);
+
+  const groups: ItemGroup[] = useMemo(() => [
+    ...codebook.constructs.map(c => ({ key: c.key, label: c.label, color: c.color, items: c.items })),
+    ...(codebook.additionalItems.length > 0
+      ? [{ key: 'additional', label: 'Item di luar konstruk', color: '#64748b', items: codebook.additionalItems }]
+      : []),
+  ], [codebook]);
+
+  const itemLookup = useMemo(() => new Map(codebook.allItems.map(item => [item.id, item])), [codebook]);
+
+  const rowsByGroup = useMemo(() => groups.map(group => {
+    const rows = group.items.map(item => buildRow(item, data, scale));
+    return sortMode === 'agreement' ? [...rows].sort((a, b) => b.agreement - a.agreement) : rows;
+  }), [groups, data, scale, sortMode]);
+
+  // Bars are drawn from zero outward, so the negative side is listed from the
+  // neutral point toward the lowest answer
+  const negativePoints = points.filter(p => classifyPoint(scale, p) !== 'positive').reverse();
+  const positivePoints = points.filter(p => classifyPoint(scale, p) !== 'negative');
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <SectionHeader
+        title="Eksplorasi Item Likert"
+        description="Distribusi jawaban setiap pertanyaan (persentase per titik skala), berpusat pada jawaban netral."
+      />
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <AnalysisBadge n={data.length} strategy={`${strategyLabel} • jawaban asli per item`} />
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg ml-auto">
+          {([['agreement', 'Urut persetujuan'], ['questionnaire', 'Urut kuesioner']] as [SortMode, string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => setSortMode(mode)}
+              className={`px-3 py-1 rounded-md text-xs transition-all ${
+                sortMode === mode ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {groups.map((group, gIdx) => (
+        <div key={group.key} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <div className="flex items-center gap-2 mb-4">
+            <ListChecks size={20} style={{ color: group.color }} />
+            <h3 className="font-bold text-slate-800">{group.label}</h3>
+            <span className="text-xs text-slate-400 ml-auto">{group.items.length} item</span>
+          </div>
+          <ExportableChart name={`likert-${group.key}`}>
+            <div style={{ height: rowsByGroup[gIdx].length * ROW_HEIGHT + 70 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rowsByGroup[gIdx]} layout="vertical" stackOffset="sign" margin={{ left: 10, right: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" domain={[-100, 100]} tickFormatter={(v: number) => `${Math.abs(v)}%`} />
+                  <YAxis
+                    dataKey="id"
+                    type="category"
+                    width={380}
+                    interval={0}
+                    tick={<QuestionTick items={itemLookup} />}
+                  />
+                  <Tooltip
+                    content={({ active, payload }) => {
+                      const row = payload?.[0]?.payload as ItemRow | undefined;
+                      const item = row ? itemLookup.get(row.id) : undefined;
+                      if (!active || !row || !item) return null;
+                      return (
+                        <div className="bg-white border border-slate-200 rounded-lg shadow-md p-3 text-xs max-w-sm">
+                          <p className="font-bold text-slate-800">{item.id} • {itemDisplayLabel(item)}</p>
+                          <p className="text-slate-500 mb-2">{item.header}</p>
+                          {points.map(point => (
+                            <p key={point} className="flex justify-between gap-4">
+                              <span style={{ color: pointColor(scale, point) }}>■ {point} = {scalePointLabel(scale, point)}</span>
+                              <span className="font-mono">{(row[`pct_${point}`] as number).toFixed(1)}%</span>
+                            </p>
+                          ))}
+                          <p className="mt-2 text-slate-500">n = {row.n} • setuju {row.agreement.toFixed(1)}%</p>
+                        </div>
+                      );
+                    }}
+                  />
+                  <Legend
+                    payload={points.map(point => ({
+                      value: `${point} = ${scalePointLabel(scale, point)}`,
+                      type: 'square' as const,
+                      color: pointColor(scale, point),
+                      id: String(point),
+                    }))}
+                  />
+                  <ReferenceLine x={0} stroke="#475569" />
+                  {negativePoints.map(point => (
+                    <Bar key={`neg_${point}`} dataKey={`neg_${point}`} name={scalePointLabel(scale, point)} stackId="likert" fill={pointColor(scale, point)} barSize={22} />
+                  ))}
+                  {positivePoints.map(point => (
+                    <Bar key={`pos_${point}`} dataKey={`pos_${point}`} name={scalePointLabel(scale, point)} stackId="likert" fill={pointColor(scale, point)} barSize={22} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </ExportableChart>
+        </div>
+      ))}
+
+      <p className="text-xs text-slate-500">
+        Persentase dihitung dari responden yang menjawab item tersebut. Jawaban netral dibagi dua di kiri dan kanan garis tengah.
+        (R) = item reverse-coded; grafik menampilkan jawaban asli sebelum dibalik.
+      </p>
+    </div>
+  );
+};
+
+export default ItemExplorerView;
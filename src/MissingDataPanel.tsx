@@ -0,0 +1,61 @@
+import { Puzzle } from 'lucide-react';
+import {
+  MIN_ITEM_RATIO_OPTIONS, MISSING_DATA_METHOD_LABELS,
+  MissingDataMethod, MissingDataResult, MissingDataStrategy
+} from './missing';
+
+const METHOD_DESCRIPTIONS: Record<MissingDataMethod, string> = {
+  listwise: 'Responden dengan satu item kosong pun dikeluarkan dari semua analisis.',
+  personMean: 'Skor konstruk = rata-rata item yang dijawab, jika jumlah item terjawab memenuhi batas minimum.',
+  itemMean: 'Item kosong diisi rata-rata item tersebut pada seluruh sampel.',
+};
+
+// Strategy selector and summary for construct scores with missing items
+const MissingDataPanel = ({ strategy, result, onStrategyChange }: {
+  strategy: MissingDataStrategy;
+  result: MissingDataResult;
+  onStrategyChange: (strategy: MissingDataStrategy) => void;
+}) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+    <div className="flex items-center gap-2 mb-4">
+      <Puzzle className="text-blue-600" size={20} />
+      <h3 className="font-bold text-slate-800">Penanganan Data Hilang</h3>
+      <span className="text-xs text-slate-500 ml-auto">
+        {result.missingCells} sel kosong • {result.imputedCells} diimputasi • {result.dropped.length} responden tidak dapat diskor
+      </span>
+    </div>
+
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <select
+        value={strategy.method}
+        onChange={(e) => onStrategyChange({ ...strategy, method: e.target.value as MissingDataMethod })}
+        className="bg-slate-100 rounded-md px-2 py-1 text-slate-700"
+      >
+        {(Object.keys(MISSING_DATA_METHOD_LABELS) as MissingDataMethod[]).map(method => (
+          <option key={method} value={method}>{MISSING_DATA_METHOD_LABELS[method]}</option>
+        ))}
+      </select>
+
+      {strategy.method === 'personMean' && (
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          Minimum item terjawab
+          <select
+            value={strategy.minItemRatio}
+            onChange={(e) => onStrategyChange({ ...strategy, minItemRatio: parseFloat(e.target.value) })}
+            className="bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700"
+          >
+            {MIN_ITEM_RATIO_OPTIONS.map(ratio => (
+              <option key={ratio} value={ratio}>{Math.round(ratio * 100)}%</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+    <p className="text-xs text-slate-500 mt-3">{METHOD_DESCRIPTIONS[strategy.method]}</p>
+    <p className="text-[11px] text-slate-400 mt-1">
+      Imputasi ganda (multiple imputation) belum tersedia: hasilnya harus digabung dengan aturan Rubin di setiap analisis.
+    </p>
+  </div>
+);
+
+export default MissingDataPanel;
@@ -0,0 +1,353 @@
+import { useMemo, useState } from 'react';
+import { GitBranch, Sigma } from 'lucide-react';
+import { LikertScale, ResolvedConstruct } from './codebook';
+import { BOOTSTRAP_ITERATION_OPTIONS } from './bootstrap';
+import {
+  Coefficient, MediationPath, MediationResult, mediationAnalysis, olsRegression, ordinalRegression
+} from './regression';
+import { formatPValue, significanceStars } from './stats';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart, SectionHeader } from './ui';
+
+// --- TYPES ---
+type ModelType = 'ols' | 'ordinal';
+
+// --- HELPER FUNCTIONS ---
+
+const formatNumber = (value: number | undefined, digits = 3): string =>
+  value === undefined || isNaN(value) ? '–' : value.toFixed(digits);
+
+const ciLabel = (alpha: number): string => `CI ${Math.round((1 - alpha) * 100)}%`;
+
+// Construct scores are averages of items; the ordinal model needs ordered
+// categories, so scores are rounded to the nearest scale point
+const toScalePoint = (value: number, scale: LikertScale): number =>
+  Math.min(scale.max, Math.max(scale.min, Math.round(value)));
+
+const pathLabel = (name: string, path: MediationPath): string =>
+  `${name} = ${path.estimate.toFixed(2)}${significanceStars(path.pValue)}`;
+
+const CoefficientTable = ({ coefficients, modelType, alpha }: {
+  coefficients: Coefficient[];
+  modelType: ModelType;
+  alpha: number;
+}) => (
+  <table className="w-full text-xs">
+    <thead>
+      <tr className="text-slate-500 border-b border-slate-100">
+        <th className="p-2 text-left font-medium">Variabel</th>
+        <th className="p-2 text-right font-medium">{modelType === 'ols' ? 'B' : 'B (log-odds)'}</th>
+        <th className="p-2 text-right font-medium">SE</th>
+        <th className="p-2 text-right font-medium">{modelType === 'ols' ? 'β' : 'OR'}</th>
+        <th className="p-2 text-right font-medium">{modelType === 'ols' ? 't' : 'z'}</th>
+        <th className="p-2 text-right font-medium">p</th>
+        <th className="p-2 text-right font-medium">{ciLabel(alpha)}</th>
+      </tr>
+    </thead>
+    <tbody>
+      {coefficients.map(c => (
+        <tr key={c.name} className="border-b border-slate-50">
+          <td className="p-2 text-slate-700">{c.name}</td>
+          <td className="p-2 text-right font-mono">{formatNumber(c.estimate)}</td>
+          <td className="p-2 text-right font-mono">{formatNumber(c.se)}</td>
+          <td className="p-2 text-right font-mono">
+            {formatNumber(modelType === 'ols' ? c.standardized : c.oddsRatio)}
+          </td>
+          <td className="p-2 text-right font-mono">{formatNumber(c.statistic, 2)}</td>
+          <td className={`p-2 text-right font-mono ${c.pValue < alpha ? 'text-green-600 font-bold' : 'text-slate-500'}`}>
+            {formatPValue(c.pValue)}{significanceStars(c.pValue)}
+          </td>
+          <td className="p-2 text-right font-mono text-slate-500">
+            [{formatNumber(c.ciLower)}, {formatNumber(c.ciUpper)}]
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// X → M → Y triangle with the unstandardized path coefficients
+const PathDiagram = ({ result, labels, alpha }: {
+  result: MediationResult;
+  labels: { x: string; m: string; y: string };
+  alpha: number;
+}) => {
+  const box = { width: 150, height: 44 };
+  const nodes = { x: { cx: 100, cy: 190 }, m: { cx: 300, cy: 50 }, y: { cx: 500, cy: 190 } };
+  const color = (path: MediationPath) => (path.pValue < alpha ? '#16a34a' : '#94a3b8');
+
+  const Node = ({ cx, cy, label }: { cx: number; cy: number; label: string }) => (
+    <g>
+      <rect x={cx - box.width / 2} y={cy - box.height / 2} width={box.width} height={box.height} rx={8} fill="#f8fafc" stroke="#334155" />
+      <text x={cx} y={cy + 4} textAnchor="middle" fontSize={12} fontWeight="bold" fill="#1e293b">{label}</text>
+    </g>
+  );
+
+  return (
+    <svg viewBox="0 0 600 240" className="w-full h-auto">
+      <defs>
+        {['#16a34a', '#94a3b8'].map(c => (
+          <marker key={c} id={`arrow-${c.slice(1)}`} viewBox="0 0 10 10" refX={10} refY={5} markerWidth={8} markerHeight={8} orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={c} />
+          </marker>
+        ))}
+      </defs>
+      <line x1={130} x2={255} y1={190 - box.height / 2} y2={50 + box.height / 2} stroke={color(result.a)} strokeWidth={2} markerEnd={`url(#arrow-${color(result.a).slice(1)})`} />
+      <line x1={345} x2={470} y1={50 + box.height / 2} y2={190 - box.height / 2} stroke={color(result.b)} strokeWidth={2} markerEnd={`url(#arrow-${color(result.b).slice(1)})`} />
+      <line x1={175} x2={425} y1={190} y2={190} stroke={color(result.cPrime)} strokeWidth={2} markerEnd={`url(#arrow-${color(result.cPrime).slice(1)})`} />
+      <text x={170} y={110} textAnchor="end" fontSize={12} fill="#334155">{pathLabel('a', result.a)}</text>
+      <text x={430} y={110} fontSize={12} fill="#334155">{pathLabel('b', result.b)}</text>
+      <text x={300} y={182} textAnchor="middle" fontSize={12} fill="#334155">{pathLabel("c'", result.cPrime)}</text>
+      <text x={300} y={232} textAnchor="middle" fontSize={11} fill="#64748b">({pathLabel('c', result.c)} total)</text>
+      <Node {...nodes.x} label={labels.x} />
+      <Node {...nodes.m} label={labels.m} />
+      <Node {...nodes.y} label={labels.y} />
+    </svg>
+  );
+};
+
+// --- COMPONENT ---
+
+const ModelingView = ({ data, constructs, outcomeKey, scale, alpha, strategyLabel }: {
+  data: DataItem[];
+  constructs: ResolvedConstruct[];
+  outcomeKey: string;
+  scale: LikertScale;
+  alpha: number;
+  strategyLabel: string;
+}) => {
+  const keys = constructs.map(c => c.key);
+  const pick = (preferred: string, fallback: number) => (keys.includes(preferred) ? preferred : keys[fallback] ?? keys[0]);
+  const labelOf = (key: string) => constructs.find(c => c.key === key)?.shortLabel ?? key;
+
+  const [modelType, setModelType] = useState<ModelType>('ols');
+  const [outcome, setOutcome] = useState(outcomeKey);
+  const [predictors, setPredictors] = useState<string[]>(keys.filter(k => k !== outcomeKey));
+  const [mediation, setMediation] = useState({
+    x: pick('intensity', 0),
+    m: pick('dependency', 1),
+    y: pick(outcomeKey, 2),
+  });
+  const [iterations, setIterations] = useState(BOOTSTRAP_ITERATION_OPTIONS[2]);
+
+  const activePredictors = predictors.filter(k => k !== outcome);
+  const scoresOf = (key: string) => data.map(d => d.scores[key]);
+
+  const regression = useMemo(() => {
+    if (activePredictors.length === 0) return null;
+    const columns = activePredictors.map(scoresOf);
+    const names = activePredictors.map(labelOf);
+    return modelType === 'ols'
+      ? { type: 'ols' as const, result: olsRegression(scoresOf(outcome), columns, names, alpha) }
+      : { type: 'ordinal' as const, result: ordinalRegression(scoresOf(outcome).map(v => toScalePoint(v, scale)), columns, names, alpha) };
+  }, [data, outcome, predictors, modelType, alpha, scale]);
+
+  const mediationDistinct = new Set([mediation.x, mediation.m, mediation.y]).size === 3;
+  const mediationResult = useMemo(
+    () => mediationDistinct
+      ? mediationAnalysis(scoresOf(mediation.x), scoresOf(mediation.m), scoresOf(mediation.y), iterations, alpha)
+      : null,
+    [data, mediation, iterations, alpha]
+  );
+
+  const mediationConclusion = (result: MediationResult): string => {
+    if (isNaN(result.ciLower)) {
+      return 'Interval efek tidak langsung tidak tersedia: semua sampel bootstrap singular (tidak ada variasi X atau M).';
+    }
+    const indirectSignificant = result.ciLower > 0 || result.ciUpper < 0;
+    if (!indirectSignificant) {
+      return `Tidak ada bukti mediasi: ${ciLabel(alpha)} efek tidak langsung mencakup nol.`;
+    }
+    return result.cPrime.pValue < alpha
+      ? `Mediasi parsial: efek tidak langsung signifikan dan efek langsung ${labelOf(mediation.x)} → ${labelOf(mediation.y)} tetap signifikan.`
+      : `Mediasi penuh: efek tidak langsung signifikan, sedangkan efek langsung ${labelOf(mediation.x)} → ${labelOf(mediation.y)} tidak signifikan setelah mengontrol ${labelOf(mediation.m)}.`;
+  };
+
+  const selectClass = 'bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700';
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <SectionHeader
+        title="Regresi & Mediasi"
+        description="Model multivariat pada skor konstruk: regresi OLS atau ordinal dengan prediktor pilihan, dan model mediasi sederhana dengan interval bootstrap untuk efek tidak langsung."
+      />
+      <AnalysisBadge n={data.length} strategy={strategyLabel} />
+
+      {/* Regression */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex items-center gap-2 mb-4">
+          <Sigma className="text-blue-600" size={20} />
+          <h3 className="font-bold text-slate-800">Model Regresi</h3>
+          <div className="flex gap-1 bg-slate-100 p-1 rounded-lg ml-auto">
+            {([['ols', 'OLS'], ['ordinal', 'Ordinal (proportional odds)']] as [ModelType, string][]).map(([type, label]) => (
+              <button
+                key={type}
+                onClick={() => setModelType(type)}
+                className={`px-3 py-1 rounded-md text-xs transition-all ${
+                  modelType === type ? 'bg-white text-blue-600 shadow-sm font-medium' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm mb-4">
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Variabel terikat (Y)
+            <select value={outcome} onChange={(e) => setOutcome(e.target.value)} className={selectClass}>
+              {constructs.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+            </select>
+          </label>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+            Prediktor:
+            {constructs.filter(c => c.key !== outcome).map(c => (
+              <label key={c.key} className="flex items-center gap-1 text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={predictors.includes(c.key)}
+                  onChange={(e) => setPredictors(e.target.checked
+                    ? [...predictors, c.key]
+                    : predictors.filter(k => k !== c.key))}
+                />
+                {c.shortLabel}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {!regression && <p className="text-sm text-slate-500">Pilih minimal satu prediktor.</p>}
+        {regression && !regression.result && (
+          <p className="text-sm text-red-600">Model tidak dapat diestimasi (sampel terlalu kecil atau prediktor kolinear sempurna).</p>
+        )}
+
+        {regression?.type === 'ols' && regression.result && (
+          <>
+            <CoefficientTable coefficients={regression.result.coefficients} modelType="ols" alpha={alpha} />
+            <p className="text-xs text-slate-500 mt-3">
+              n = {regression.result.n} • R² = {regression.result.rSquared.toFixed(3)} • R² adj = {regression.result.adjRSquared.toFixed(3)} •
+              F({regression.result.df1}, {regression.result.df2}) = {regression.result.fStatistic.toFixed(2)}, {formatPValue(regression.result.fPValue)}
+            </p>
+          </>
+        )}
+
+        {regression?.type === 'ordinal' && regression.result && (
+          <>
+            <CoefficientTable coefficients={regression.result.coefficients} modelType="ordinal" alpha={alpha} />
+            <details className="mt-3 text-xs text-slate-500">
+              <summary className="cursor-pointer">Threshold (cut point) antar kategori</summary>
+              <CoefficientTable coefficients={regression.result.thresholds} modelType="ordinal" alpha={alpha} />
+            </details>
+            <p className="text-xs text-slate-500 mt-3">
+              n = {regression.result.n} • kategori Y: {regression.result.categories.join(', ')} •
+              LR χ²({activePredictors.length}) = {regression.result.lrChiSquare.toFixed(2)}, {formatPValue(regression.result.lrPValue)} •
+              McFadden R² = {regression.result.pseudoRSquared.toFixed(3)} • AIC = {regression.result.aic.toFixed(1)}
+              {!regression.result.converged && <span className="text-amber-600 font-medium"> • estimasi belum konvergen</span>}
+            </p>
+            <p className="text-xs text-slate-400 mt-1">
+              Skor Y dibulatkan ke titik skala terdekat sebagai kategori berurutan. OR &gt; 1: kenaikan prediktor meningkatkan peluang berada di kategori Y yang lebih tinggi.
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Mediation */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex items-center gap-2 mb-4">
+          <GitBranch className="text-purple-600" size={20} />
+          <h3 className="font-bold text-slate-800">Analisis Mediasi Sederhana</h3>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-slate-500 mb-4">
+          {([['x', 'Prediktor (X)'], ['m', 'Mediator (M)'], ['y', 'Outcome (Y)']] as ['x' | 'm' | 'y', string][]).map(([role, label]) => (
+            <label key={role} className="flex items-center gap-2">
+              {label}
+              <select
+                value={mediation[role]}
+                onChange={(e) => setMediation({ ...mediation, [role]: e.target.value })}
+                className={selectClass}
+              >
+                {constructs.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            Bootstrap
+            <select value={iterations} onChange={(e) => setIterations(parseInt(e.target.value))} className={selectClass}>
+              {BOOTSTRAP_ITERATION_OPTIONS.map(b => <option key={b} value={b}>{b}×</option>)}
+            </select>
+          </label>
+        </div>
+
+        {!mediationDistinct && <p className="text-sm text-slate-500">X, M, dan Y harus tiga konstruk yang berbeda.</p>}
+        {mediationDistinct && !mediationResult && (
+          <p className="text-sm text-red-600">Model mediasi tidak dapat diestimasi pada data ini.</p>
+        )}
+
+        {mediationResult && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-center">
+            <ExportableChart name="diagram-mediasi">
+              <PathDiagram
+                result={mediationResult}
+                labels={{ x: labelOf(mediation.x), m: labelOf(mediation.m), y: labelOf(mediation.y) }}
+                alpha={alpha}
+              />
+            </ExportableChart>
+            <div className="space-y-3">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 border-b border-slate-100">
+                    <th className="p-2 text-left font-medium">Efek</th>
+                    <th className="p-2 text-right font-medium">Estimasi</th>
+                    <th className="p-2 text-right font-medium">SE</th>
+                    <th className="p-2 text-right font-medium">p</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {([
+                    ['a (X → M)', mediationResult.a],
+                    ['b (M → Y | X)', mediationResult.b],
+                    ["c' langsung (X → Y | M)", mediationResult.cPrime],
+                    ['c total (X → Y)', mediationResult.c],
+                  ] as [string, MediationPath][]).map(([label, path]) => (
+                    <tr key={label} className="border-b border-slate-50">
+                      <td className="p-2 text-slate-700">{label}</td>
+                      <td className="p-2 text-right font-mono">{path.estimate.toFixed(3)}</td>
+                      <td className="p-2 text-right font-mono">{path.se.toFixed(3)}</td>
+                      <td className={`p-2 text-right font-mono ${path.pValue < alpha ? 'text-green-600 font-bold' : 'text-slate-500'}`}>
+                        {formatPValue(path.pValue)}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-purple-50">
+                    <td className="p-2 font-medium text-purple-800">a × b tidak langsung</td>
+                    <td className="p-2 text-right font-mono font-bold text-purple-800">{mediationResult.indirect.toFixed(3)}</td>
+                    <td className="p-2 text-right font-mono text-purple-800" colSpan={2}>
+                      {isNaN(mediationResult.ciLower)
+                        ? `${ciLabel(alpha)} tidak tersedia`
+                        : `${ciLabel(alpha)} [${mediationResult.ciLower.toFixed(3)}, ${mediationResult.ciUpper.toFixed(3)}]`}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="text-sm text-slate-700">{mediationConclusion(mediationResult)}</p>
+              <p className="text-xs text-slate-400">
+                Interval persentil dari {mediationResult.iterations} sampel bootstrap (seed tetap).
+                {!isNaN(mediationResult.proportionMediated) && mediationResult.indirect * mediationResult.c.estimate > 0 &&
+                  ` Proporsi termediasi ≈ ${(mediationResult.proportionMediated * 100).toFixed(0)}%.`}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 p-4 rounded-xl text-xs text-slate-500 space-y-1">
+        <p>OLS: B = koefisien tidak terstandar, β = koefisien terstandar. Ordinal: model logit kumulatif (proportional odds), estimasi Newton-Raphson; SE dari matriks informasi observasi.</p>
+        <p>Mediasi: jalur a, b, c' dari dua regresi OLS; efek tidak langsung signifikan bila interval bootstrap tidak mencakup nol. Desain potong-lintang tidak membuktikan urutan sebab-akibat.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ModelingView;
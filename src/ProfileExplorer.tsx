@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Bar, CartesianGrid, ComposedChart, Legend, PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart,
+  ResponsiveContainer, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { ArrowUpDown, ChevronLeft, ChevronRight, Search, User } from 'lucide-react';
+import { GroupDefinition, LikertScale, ResolvedConstruct } from './codebook';
+import { mean, standardDeviation } from './linalg';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart } from './ui';
+
+// --- TYPES ---
+// 'id', 'distance' (how atypical the profile is) or a construct key
+type ProfileSort = string;
+
+const PAGE_SIZE = 15;
+
+// --- HELPER FUNCTIONS ---
+
+const averageOf = (rows: DataItem[], key: string): number =>
+  mean(rows.map(d => d.scores[key]).filter(v => !isNaN(v)));
+
+// Root mean square z-score over the constructs the respondent has: 0 = exactly the
+// sample mean on every construct, values above ~1.5 stand out
+const profileDistance = (respondent: DataItem, constructs: ResolvedConstruct[], norms: Record<string, [number, number]>): number => {
+  const z = constructs
+    .filter(c => !isNaN(respondent.scores[c.key]) && norms[c.key][1] > 0)
+    .map(c => (respondent.scores[c.key] - norms[c.key][0]) / norms[c.key][1]);
+  return z.length > 0 ? Math.sqrt(mean(z.map(v => v * v))) : NaN;
+};
+
+// --- COMPONENTS ---
+
+// Paged bar chart of every respondent's construct scores (sortable, searchable by
+// id) next to a radar of the focused respondent against sample and group means
+const ProfileExplorer = ({ data, selected, constructs, scale, groups, strategyLabel, footnote, onOpenDetail }: {
+  data: DataItem[];
+  selected: DataItem[];               // Respondents brushed in the Correlation tab
+  constructs: ResolvedConstruct[];
+  scale: LikertScale;
+  groups: GroupDefinition[];
+  strategyLabel: string;
+  footnote?: string;
+  onOpenDetail: (id: number) => void;
+}) => {
+  const [query, setQuery] = useState('');
+  const [sortBy, setSortBy] = useState<ProfileSort>('id');
+  const [descending, setDescending] = useState(false);
+  const [onlySelected, setOnlySelected] = useState(true);
+  const [page, setPage] = useState(0);
+  const [focusId, setFocusId] = useState<number | null>(null);
+
+  const norms = useMemo(() => Object.fromEntries(constructs.map(c => {
+    const values = data.map(d => d.scores[c.key]).filter(v => !isNaN(v));
+    return [c.key, [mean(values), standardDeviation(values)] as [number, number]];
+  })), [data, constructs]);
+
+  const distances = useMemo(
+    () => new Map(data.map(d => [d.id, profileDistance(d, constructs, norms)])),
+    [data, constructs, norms]
+  );
+
+  const useSelection = onlySelected && selected.length > 0;
+  const rows = useMemo(() => {
+    const source = useSelection ? selected : data;
+    const needle = query.trim();
+    const matches = needle ? source.filter(d => String(d.id).includes(needle)) : source;
+    const valueOf = (d: DataItem) =>
+      sortBy === 'id' ? d.id : sortBy === 'distance' ? distances.get(d.id) ?? NaN : d.scores[sortBy];
+    // Missing values always go last, whatever the direction
+    return [...matches].sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      if (isNaN(va) || isNaN(vb)) return Number(isNaN(va)) - Number(isNaN(vb));
+      return descending ? vb - va : va - vb;
+    });
+  }, [data, selected, useSelection, query, sortBy, descending, distances]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  useEffect(() => setPage(0), [query, sortBy, descending, useSelection]);
+
+  const focused = data.find(d => d.id === focusId) ?? pageRows[0];
+  const focusedGroup = focused && groups.find(g => g.label === focused.usageGroup);
+  const groupRows = focusedGroup ? data.filter(d => d.usageGroup === focusedGroup.label) : [];
+  const radarData = focused
+    ? constructs.map(c => ({
+        construct: c.shortLabel,
+        respondent: isNaN(focused.scores[c.key]) ? scale.min : focused.scores[c.key],
+        sample: averageOf(data, c.key),
+        group: focusedGroup ? averageOf(groupRows, c.key) : undefined,
+      }))
+    : [];
+  const missingScores = focused ? constructs.filter(c => isNaN(focused.scores[c.key])) : [];
+  const focusedDistance = focused ? distances.get(focused.id) ?? NaN : NaN;
+  const distanceRank = focused && !isNaN(focusedDistance)
+    ? Array.from(distances.values()).filter(v => v > focusedDistance).length + 1
+    : null;
+
+  const inputClass = 'bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <div className="flex justify-between items-start gap-2 mb-2">
+          <h3 className="font-bold text-slate-800">Profil Individu</h3>
+          <AnalysisBadge n={data.length} strategy={strategyLabel} />
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          Skor {constructs.length} variabel untuk {useSelection ? `${selected.length} responden yang dipilih di tab Correlation` : 'seluruh responden'},
+          {' '}{PAGE_SIZE} per halaman. Klik batang untuk menampilkan responden di radar.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <label className="flex items-center gap-1 bg-slate-100 rounded-md px-2 py-1">
+            <Search size={14} className="text-slate-400" />
+            <input
+              type="text" inputMode="numeric" value={query} placeholder="Cari ID"
+              onChange={(e) => setQuery(e.target.value)}
+              className="bg-transparent text-sm text-slate-700 w-20 outline-none"
+              aria-label="Cari responden berdasarkan ID"
+            />
+          </label>
+          <select value={sortBy} onChange={(e) => setSortBy(e.target.value)} className={inputClass} aria-label="Urutkan menurut">
+            <option value="id">Urut: ID</option>
+            <option value="distance">Urut: jarak dari rata-rata</option>
+            {constructs.map(c => <option key={c.key} value={c.key}>Urut: {c.shortLabel}</option>)}
+          </select>
+          <button
+            onClick={() => setDescending(!descending)}
+            className="flex items-center gap-1 text-xs text-slate-600 hover:text-blue-600"
+            title="Balik urutan"
+          >
+            <ArrowUpDown size={14} /> {descending ? 'Menurun' : 'Menaik'}
+          </button>
+          {selected.length > 0 && (
+            <label className="flex items-center gap-1 text-xs text-slate-600">
+              <input type="checkbox" checked={onlySelected} onChange={(e) => setOnlySelected(e.target.checked)} />
+              Hanya terpilih
+            </label>
+          )}
+        </div>
+
+        {pageRows.length > 0 ? (
+          <ExportableChart name="profil-individu" className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={pageRows} layout="vertical" margin={{ left: 10, right: 10 }}>
+                <CartesianGrid stroke="#f5f5f5" />
+                <XAxis type="number" domain={[0, scale.max]} />
+                <YAxis dataKey="id" type="category" scale="band" width={30} />
+                <Tooltip />
+                <Legend />
+                {constructs.map(c => (
+                  <Bar
+                    key={c.key} dataKey={`scores.${c.key}`} name={c.shortLabel} barSize={6} fill={c.color} radius={[0, 4, 4, 0]}
+                    cursor="pointer" onClick={(bar: { payload: DataItem }) => setFocusId(bar.payload.id)}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </ExportableChart>
+        ) : (
+          <p className="h-80 flex items-center justify-center text-sm text-slate-400">Tidak ada responden dengan ID "{query}".</p>
+        )}
+
+        <div className="flex items-center justify-between mt-3 text-xs text-slate-500">
+          <span>{rows.length} responden</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}
+              className="p-1 rounded hover:bg-slate-100 disabled:opacity-40" title="Halaman sebelumnya"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>Halaman {currentPage + 1} dari {pageCount}</span>
+            <button
+              onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}
+              className="p-1 rounded hover:bg-slate-100 disabled:opacity-40" title="Halaman berikutnya"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+        {footnote && <p className="text-xs text-slate-500 mt-2 italic">*{footnote}</p>}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        {focused ? (
+          <>
+            <div className="flex justify-between items-start gap-2 mb-2">
+              <div>
+                <h3 className="font-bold text-slate-800">Responden #{focused.id} vs Rata-rata</h3>
+                <p className="text-xs text-slate-500">
+                  {focusedGroup ? `Kelompok: ${focusedGroup.shortLabel} (n = ${groupRows.length})` : 'Tidak masuk kelompok penggunaan'}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpenDetail(focused.id)}
+                className="flex items-center gap-1 text-xs text-blue-700 hover:underline"
+              >
+                <User size={14} /> Detail jawaban
+              </button>
+            </div>
+            <ExportableChart name={`radar-responden-${focused.id}`} className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart data={radarData} outerRadius="70%">
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="construct" tick={{ fontSize: 12 }} />
+                  <PolarRadiusAxis domain={[scale.min, scale.max]} tickCount={scale.max - scale.min + 1} angle={90} />
+                  <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                  <Legend />
+                  <Radar name="Rata-rata sampel" dataKey="sample" stroke="#94a3b8" fill="#94a3b8" fillOpacity={0.15} />
+                  {focusedGroup && (
+                    <Radar
+                      name={`Rata-rata ${focusedGroup.shortLabel}`} dataKey="group"
+                      stroke={focusedGroup.color} fill={focusedGroup.color} fillOpacity={0.1} strokeDasharray="4 3"
+                    />
+                  )}
+                  <Radar name={`Responden #${focused.id}`} dataKey="respondent" stroke="#2563eb" fill="#2563eb" fillOpacity={0.3} />
+                </RadarChart>
+              </ResponsiveContainer>
+            </ExportableChart>
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 mt-3 text-xs text-slate-600 space-y-1">
+              <p>
+                Jarak dari rata-rata sampel (RMS skor z):{' '}
+                <strong className="text-slate-800">{isNaN(focusedDistance) ? '–' : focusedDistance.toFixed(2)}</strong>
+                {distanceRank !== null && ` • paling atipikal ke-${distanceRank} dari ${data.length}`}
+              </p>
+              <p className="text-slate-400">
+                Mendekati 0 = profil tipikal; di atas ~1,5 = menonjol dan layak digali saat wawancara.
+              </p>
+              {missingScores.length > 0 && (
+                <p className="text-amber-600">
+                  Skor kosong (digambar di {scale.min}): {missingScores.map(c => c.shortLabel).join(', ')}
+                </p>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="h-full flex items-center justify-center text-sm text-slate-400">Belum ada responden untuk ditampilkan.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileExplorer;
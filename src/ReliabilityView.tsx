@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { ResolvedConstruct, itemDisplayLabel } from './codebook';
+import { analyzeReliability, interpretReliability } from './reliability';
+import { DataItem } from './types';
+import { AnalysisBadge, SectionHeader } from './ui';
+
+// Corrected item-total correlations below this value are flagged as weak items
+const ITEM_TOTAL_THRESHOLD = 0.3;
+
+const formatCoefficient = (value: number): string => (isNaN(value) ? '–' : value.toFixed(3));
+
+const ReliabilityView = ({ data, constructs, strategyLabel }: {
+  data: DataItem[];
+  constructs: ResolvedConstruct[];
+  strategyLabel: string;
+}) => {
+  // Item statistics use the raw answers of respondents who answered every item
+  // of the construct, regardless of how construct scores were imputed
+  const results = useMemo(
+    () => constructs.map(c => {
+      const complete = data.filter(d => c.items.every(item => !isNaN(d.items[item.id])));
+      return {
+        construct: c,
+        result: analyzeReliability(c.items.map(item => complete.map(d => d.items[item.id]))),
+      };
+    }),
+    [data, constructs]
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <SectionHeader
+        title="Analisis Reliabilitas Konstruk"
+        description="Konsistensi internal item pada setiap variabel: Cronbach's α, McDonald's ω, korelasi item-total terkoreksi, dan α jika item dihapus."
+      />
+      <AnalysisBadge n={data.length} strategy={`${strategyLabel} • statistik item: kasus lengkap per konstruk`} />
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {results.map(({ construct, result }) => {
+          const interpretation = interpretReliability(result.alpha);
+          return (
+            <div key={construct.key} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+              <div className="flex items-center gap-2 mb-3">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: construct.color }}></div>
+                <p className="text-sm font-medium text-slate-500">{construct.shortLabel}</p>
+              </div>
+              <div className="flex items-baseline gap-4">
+                <div>
+                  <p className="text-xs text-slate-400">Cronbach's α</p>
+                  <p className="text-2xl font-bold text-slate-800 font-mono">{formatCoefficient(result.alpha)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-400">McDonald's ω</p>
+                  <p className="text-2xl font-bold text-slate-800 font-mono">{formatCoefficient(result.omega)}</p>
+                </div>
+              </div>
+              <p className={`text-xs mt-2 font-medium ${interpretation.colorClass}`}>{interpretation.label}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Item analysis per construct */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {results.map(({ construct, result }) => (
+          <div key={construct.key} className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+            <div className="flex items-center gap-2 mb-4">
+              <ShieldCheck size={20} style={{ color: construct.color }} />
+              <h3 className="font-bold text-slate-800">{construct.label}</h3>
+              <span className="text-xs text-slate-400 ml-auto">{construct.items.length} item • n lengkap = {result.n}</span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-slate-500 border-b border-slate-100">
+                    <th className="p-2 text-left font-medium">Item</th>
+                    <th className="p-2 text-right font-medium">Mean</th>
+                    <th className="p-2 text-right font-medium">SD</th>
+                    <th className="p-2 text-right font-medium">λ</th>
+                    <th className="p-2 text-right font-medium">r item-total</th>
+                    <th className="p-2 text-right font-medium">α jika dihapus</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {construct.items.map((item, idx) => {
+                    const stats = result.items[idx];
+                    const weak = stats.itemTotal < ITEM_TOTAL_THRESHOLD;
+                    const improves = stats.alphaIfDeleted > result.alpha;
+                    return (
+                      <tr key={item.id} className="border-b border-slate-50">
+                        <td className="p-2 text-slate-700" title={item.header}>
+                          <span className="font-mono text-slate-400 mr-2">{item.id}</span>
+                          {itemDisplayLabel(item)}
+                        </td>
+                        <td className="p-2 text-right font-mono">{stats.mean.toFixed(2)}</td>
+                        <td className="p-2 text-right font-mono">{stats.sd.toFixed(2)}</td>
+                        <td className="p-2 text-right font-mono">{formatCoefficient(stats.loading)}</td>
+                        <td className={`p-2 text-right font-mono ${weak ? 'text-red-600 font-bold' : ''}`}>
+                          {formatCoefficient(stats.itemTotal)}
+                        </td>
+                        <td className={`p-2 text-right font-mono ${improves ? 'text-amber-600 font-bold' : ''}`}>
+                          {formatCoefficient(stats.alphaIfDeleted)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 p-4 rounded-xl text-xs text-slate-500 space-y-1">
+        <p><span className="text-red-600 font-bold">Merah</span>: korelasi item-total terkoreksi &lt; {ITEM_TOTAL_THRESHOLD} (item kurang konsisten dengan item lain).</p>
+        <p><span className="text-amber-600 font-bold">Kuning</span>: α meningkat jika item dihapus.</p>
+        <p>(R) = item reverse-coded; dianalisis setelah dibalik (min + maks − jawaban).</p>
+        <p>ω dihitung dari muatan faktor tunggal (principal axis factoring) pada matriks korelasi item. Interpretasi α mengikuti George &amp; Mallery (2003).</p>
+      </div>
+    </div>
+  );
+};
+
+export default ReliabilityView;
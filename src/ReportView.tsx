@@ -0,0 +1,135 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, ScatterChart, Scatter, PieChart, Pie, Cell
+} from 'recharts';
+import { GroupDefinition, LikertScale, ResolvedConstruct } from './codebook';
+import { Insight } from './insights';
+import { DataItem } from './types';
+
+// Fixed-size, non-animated copies of the dashboard charts, rendered off screen
+// while the PDF is captured. Every block marked data-report-section becomes one
+// image in the report.
+
+const REPORT_WIDTH = 1000;
+
+const ReportSection = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section data-report-section className="bg-white p-6">
+    <h2 className="text-lg font-bold text-slate-800 mb-4 border-b border-slate-200 pb-2">{title}</h2>
+    {children}
+  </section>
+);
+
+const ReportView = ({
+  data, constructs, means, groups, groupCounts, groupingLabel, scale, kpis, correlationMatrix,
+  scatterPairs, conclusions, onReady
+}: {
+  data: DataItem[];
+  constructs: ResolvedConstruct[];
+  means: Record<string, number>;
+  groups: GroupDefinition[];
+  groupCounts: number[];
+  groupingLabel: string;
+  scale: LikertScale;
+  kpis: React.ReactNode;
+  correlationMatrix: React.ReactNode;
+  scatterPairs: { x: ResolvedConstruct; y: ResolvedConstruct; fill: string; insight: Insight }[];
+  conclusions: Insight[];
+  onReady: (element: HTMLElement) => void;
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Give the browser two frames to lay out the SVGs before capturing
+  useEffect(() => {
+    let second = 0;
+    const first = requestAnimationFrame(() => {
+      second = requestAnimationFrame(() => {
+        if (ref.current) onReady(ref.current);
+      });
+    });
+    return () => {
+      cancelAnimationFrame(first);
+      cancelAnimationFrame(second);
+    };
+  }, []);
+
+  return (
+    <div ref={ref} aria-hidden style={{ position: 'fixed', left: -20000, top: 0, width: REPORT_WIDTH }} className="bg-white">
+      <ReportSection title="Ringkasan">
+        <div className="grid grid-cols-4 gap-4">{kpis}</div>
+      </ReportSection>
+
+      <ReportSection title="Distribusi Skor & Kelompok Penggunaan">
+        <div className="flex items-center gap-4">
+          <BarChart
+            width={600}
+            height={280}
+            data={constructs.map(c => ({ name: c.shortLabel, score: parseFloat(means[c.key].toFixed(2)), fill: c.color }))}
+            layout="vertical"
+            margin={{ left: 40, right: 30 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" domain={[0, scale.max]} />
+            <YAxis dataKey="name" type="category" width={100} tick={{ fontSize: 12 }} />
+            <Bar dataKey="score" barSize={30} isAnimationActive={false} label={{ position: 'right', fontSize: 12 }}>
+              {constructs.map(c => <Cell key={c.key} fill={c.color} />)}
+            </Bar>
+          </BarChart>
+          <div>
+            <PieChart width={320} height={260}>
+              <Pie
+                data={groups.map((g, i) => ({ name: g.shortLabel, value: groupCounts[i] ?? 0 }))}
+                cx="50%" cy="45%" innerRadius={55} outerRadius={80} paddingAngle={4} dataKey="value"
+                isAnimationActive={false}
+                label={({ value }: { value: number }) => value}
+              >
+                {groups.map(g => <Cell key={g.label} fill={g.color} />)}
+              </Pie>
+              <Legend verticalAlign="bottom" />
+            </PieChart>
+            <p className="text-xs text-slate-500 text-center">Dasar: {groupingLabel}</p>
+          </div>
+        </div>
+      </ReportSection>
+
+      <ReportSection title="Korelasi Antar Variabel (Spearman ρ)">
+        {correlationMatrix}
+      </ReportSection>
+
+      {scatterPairs.length > 0 && (
+        <ReportSection title="Diagram Pencar">
+          <div className="grid grid-cols-2 gap-6">
+            {scatterPairs.map(pair => (
+              <div key={`${pair.x.key}-${pair.y.key}`}>
+                <p className="font-bold text-sm text-slate-700 mb-2">{pair.x.shortLabel} vs {pair.y.shortLabel}</p>
+                <ScatterChart width={440} height={300} margin={{ top: 10, right: 20, bottom: 30, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" dataKey={`scores.${pair.x.key}`} domain={[scale.min, scale.max]} label={{ value: `Skor ${pair.x.shortLabel}`, position: 'bottom', offset: 0 }} />
+                  <YAxis type="number" dataKey={`scores.${pair.y.key}`} domain={[scale.min, scale.max]} label={{ value: `Skor ${pair.y.shortLabel}`, angle: -90, position: 'insideLeft' }} />
+                  <Scatter data={data} fill={pair.fill} fillOpacity={0.6} isAnimationActive={false} />
+                </ScatterChart>
+                <p className="text-xs text-slate-600 mt-2">{pair.insight.text}</p>
+                <p className="text-xs text-slate-400 font-mono">{pair.insight.evidence}</p>
+              </div>
+            ))}
+          </div>
+        </ReportSection>
+      )}
+
+      <ReportSection title="Kesimpulan">
+        <ul className="space-y-3 text-sm text-slate-700">
+          {conclusions.map(insight => (
+            <li key={insight.title}>
+              <p><strong>{insight.title}:</strong> {insight.text}</p>
+              <p className="text-xs text-slate-400 font-mono">{insight.evidence}</p>
+            </li>
+          ))}
+          <li className="text-slate-500">
+            Data potong-lintang; hubungan di atas bukan bukti sebab-akibat.
+          </li>
+        </ul>
+      </ReportSection>
+    </div>
+  );
+};
+
+export default ReportView;
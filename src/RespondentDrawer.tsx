@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import { AlertTriangle, User, X } from 'lucide-react';
+import { GroupDefinition, ResolvedCodebook, ResolvedItem, itemDisplayLabel, scalePointLabel } from './codebook';
+import { SCREENING_FLAG_LABELS } from './screening';
+import { DataItem } from './types';
+
+// Side panel with everything recorded for one respondent: construct scores,
+// screening issues and the answer to every questionnaire item
+const RespondentDrawer = ({ respondent, codebook, groups, onClose }: {
+  respondent: DataItem;
+  codebook: ResolvedCodebook;
+  groups: GroupDefinition[];
+  onClose: () => void;
+}) => {
+  const { scale } = codebook;
+  const group = groups.find(g => g.label === respondent.usageGroup);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const itemRow = (item: ResolvedItem) => {
+    const answer = respondent.responses[item.id];
+    return (
+      <li key={item.id} className="py-2 border-b border-slate-100 last:border-0">
+        <div className="flex items-start gap-3">
+          <div className="flex-1">
+            <p className="text-xs font-medium text-slate-700">{item.id} • {itemDisplayLabel(item)}</p>
+            <p className="text-xs text-slate-500">{item.header}</p>
+          </div>
+          <div className="text-right shrink-0">
+            {isNaN(answer) ? (
+              <span className="text-xs text-amber-600">Kosong</span>
+            ) : (
+              <>
+                <p className="font-mono font-bold text-slate-800">{answer}</p>
+                <p className="text-[11px] text-slate-400">{scalePointLabel(scale, answer)}</p>
+                {item.reverse && <p className="text-[11px] text-slate-400">skor {respondent.items[item.id]}</p>}
+              </>
+            )}
+          </div>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/30 z-30 flex justify-end" onClick={onClose}>
+      <aside
+        className="bg-white w-full max-w-md h-full shadow-xl overflow-y-auto p-6 space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3">
+          <div className="bg-blue-50 text-blue-600 p-2 rounded-lg"><User size={20} /></div>
+          <div>
+            <h3 className="font-bold text-slate-800">Responden #{respondent.id}</h3>
+            <p className="text-xs text-slate-500">
+              Baris {respondent.row}{respondent.timestamp && ` • ${respondent.timestamp}`}
+            </p>
+            {group && (
+              <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full text-white" style={{ backgroundColor: group.color }}>
+                {group.shortLabel}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="ml-auto text-slate-400 hover:text-slate-600" title="Tutup (Esc)">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-slate-500 mb-2">Skor konstruk</p>
+          <div className="space-y-2">
+            {codebook.constructs.map(c => {
+              const score = respondent.scores[c.key];
+              return (
+                <div key={c.key} className="flex items-center gap-3 text-sm">
+                  <span className="w-28 text-slate-600 truncate" title={c.label}>{c.shortLabel}</span>
+                  <div className="flex-1 bg-slate-100 rounded-full h-2">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{ width: `${((score - scale.min) / (scale.max - scale.min)) * 100}%`, backgroundColor: c.color }}
+                    />
+                  </div>
+                  <span className="w-10 text-right font-mono text-slate-800">{isNaN(score) ? '–' : score.toFixed(2)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {respondent.issues.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 space-y-1">
+            <p className="font-medium flex items-center gap-1"><AlertTriangle size={14} /> Catatan screening</p>
+            {respondent.issues.map((issue, i) => (
+              <p key={i}>{SCREENING_FLAG_LABELS[issue.flag]}: {issue.detail}</p>
+            ))}
+          </div>
+        )}
+
+        {codebook.constructs.map(c => (
+          <div key={c.key}>
+            <p className="text-xs font-bold mb-1" style={{ color: c.color }}>{c.label}</p>
+            <ul>{c.items.map(itemRow)}</ul>
+          </div>
+        ))}
+        {codebook.additionalItems.length > 0 && (
+          <div>
+            <p className="text-xs font-bold text-slate-500 mb-1">Item tambahan</p>
+            <ul>{codebook.additionalItems.map(itemRow)}</ul>
+          </div>
+        )}
+
+        <p className="text-[11px] text-slate-400">
+          Jawaban ditampilkan seperti diisi responden; item bertanda (R) dibalik saat penyekoran.
+        </p>
+      </aside>
+    </div>
+  );
+};
+
+export default RespondentDrawer;
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Download, FileJson, FileSpreadsheet } from 'lucide-react';
+import { downloadBlob, fileSlug } from './exporting';
+import { AnalysisSnapshot, analysisBundle, scoredDatasetCsv } from './resultsExport';
+
+// Downloads of the scored dataset and the statistics bundle for cross-checking
+// in SPSS/R and for archiving
+const ResultsExportPanel = ({ snapshot }: { snapshot: AnalysisSnapshot }) => {
+  const [error, setError] = useState<string | null>(null);
+  const baseName = fileSlug(snapshot.datasetName);
+
+  const run = (action: () => void) => {
+    setError(null);
+    try {
+      action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ekspor gagal.');
+    }
+  };
+
+  const downloadCsv = () => run(() =>
+    downloadBlob(new Blob([scoredDatasetCsv(snapshot)], { type: 'text/csv;charset=utf-8' }), `skor-${baseName}.csv`)
+  );
+
+  const downloadJson = () => run(() =>
+    downloadBlob(
+      new Blob([JSON.stringify(analysisBundle(snapshot), null, 2)], { type: 'application/json' }),
+      `hasil-analisis-${baseName}.json`
+    )
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Download className="text-blue-600" size={20} />
+        <h3 className="font-bold text-slate-800">Unduh Hasil Analisis</h3>
+        <span className="text-xs text-slate-500 ml-auto">
+          {snapshot.data.length} dianalisis dari {snapshot.respondents.length} baris
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <button
+          onClick={downloadCsv}
+          className="flex items-start gap-3 p-4 rounded-lg border border-slate-200 hover:bg-slate-50 text-left"
+        >
+          <FileSpreadsheet className="text-emerald-600 shrink-0" size={20} />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">Dataset berskor (CSV)</span>
+            <span className="block text-xs text-slate-500">
+              Semua baris: jawaban item, skor {snapshot.codebook.constructs.length} konstruk, kelompok penggunaan, flag screening dan status analisis.
+            </span>
+          </span>
+        </button>
+        <button
+          onClick={downloadJson}
+          className="flex items-start gap-3 p-4 rounded-lg border border-slate-200 hover:bg-slate-50 text-left"
+        >
+          <FileJson className="text-amber-600 shrink-0" size={20} />
+          <span>
+            <span className="block text-sm font-medium text-slate-700">Ringkasan statistik (JSON)</span>
+            <span className="block text-xs text-slate-500">
+              Pengaturan analisis, deskriptif, reliabilitas, korelasi (Spearman, Kendall, Pearson), interval bootstrap, korelasi parsial, uji kelompok dan kesimpulan.
+            </span>
+          </span>
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      <p className="text-[11px] text-slate-400 mt-3">
+        Item berisi jawaban asli (sebelum reverse-coding); sel kosong = tidak dijawab atau di luar skala.
+        Skor terisi untuk baris berstatus <code>analyzed</code> dan <code>filtered</code> (tersembunyi oleh filter).
+      </p>
+    </div>
+  );
+};
+
+export default ResultsExportPanel;
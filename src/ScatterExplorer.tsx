@@ -0,0 +1,313 @@
+import { useMemo, useState } from 'react';
+import {
+  Area, CartesianGrid, ComposedChart, Customized, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis
+} from 'recharts';
+import { Crosshair } from 'lucide-react';
+import { GroupDefinition, ResolvedCodebook, itemDisplayLabel } from './codebook';
+import { BrushLayer, BrushMode } from './BrushableScatter';
+import { DEFAULT_LOESS_SPAN, TREND_METHOD_LABELS, TrendMethod, loessTrend, olsTrend } from './trend';
+import { createRng, formatPValue, significanceStars, spearmanTest } from './stats';
+import { DataItem } from './types';
+import { AnalysisBadge, ExportableChart } from './ui';
+
+// --- TYPES ---
+interface Variable {
+  id: string;              // "c:<construct key>" or "i:<item id>"
+  label: string;
+  value: (d: DataItem) => number;
+}
+
+// One plotted marker: a single respondent, or all respondents sharing the same
+// values when points are sized by count
+interface Marker {
+  x: number;
+  y: number;
+  ids: number[];
+  color: string;
+}
+
+const JITTER_OPTIONS = [0, 0.05, 0.1, 0.2, 0.3];
+const JITTER_SEED = 20251215;
+const UNASSIGNED_COLOR = '#94a3b8';
+
+// --- HELPER FUNCTIONS ---
+
+const buildVariables = (codebook: ResolvedCodebook): Variable[] => [
+  ...codebook.constructs.map(c => ({ id: `c:${c.key}`, label: c.label, value: (d: DataItem) => d.scores[c.key] })),
+  ...codebook.allItems.map(item => ({
+    id: `i:${item.id}`,
+    label: `${item.id} • ${itemDisplayLabel(item)}`,
+    value: (d: DataItem) => d.items[item.id],
+  })),
+];
+
+const markerRadius = (count: number, sizeByCount: boolean): number =>
+  sizeByCount ? 3 + 2.5 * Math.sqrt(count - 1) : 4;
+
+// --- COMPONENTS ---
+
+const MarkerTooltip = ({ active, payload, xLabel, yLabel }: {
+  active?: boolean;
+  payload?: { payload: Marker | { fit: number } }[];
+  xLabel: string;
+  yLabel: string;
+}) => {
+  const marker = payload?.map(p => p.payload).find((p): p is Marker => 'ids' in p);
+  if (!active || !marker) return null;
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm p-2 text-xs text-slate-700">
+      <p className="font-bold">
+        {marker.ids.length === 1 ? `Responden #${marker.ids[0]}` : `${marker.ids.length} responden`}
+      </p>
+      <p>{xLabel}: {marker.x.toFixed(2)}</p>
+      <p>{yLabel}: {marker.y.toFixed(2)}</p>
+      <p className="text-slate-400 mt-1">
+        {marker.ids.length === 1 ? 'Klik untuk detail jawaban' : 'Klik untuk memilih responden ini'}
+      </p>
+    </div>
+  );
+};
+
+// Free choice of the plotted pair (constructs or single items), with optional
+// group colors, trend line, jitter and count-sized markers against overplotting
+const ScatterExplorer = ({
+  data, codebook, groups, alpha, strategyLabel, selectedIds, brushMode, onBrush, onPointClick
+}: {
+  data: DataItem[];
+  codebook: ResolvedCodebook;
+  groups: GroupDefinition[];
+  alpha: number;
+  strategyLabel: string;
+  selectedIds: Set<number>;
+  brushMode: BrushMode;
+  onBrush: (ids: number[], additive: boolean) => void;
+  onPointClick: (respondent: DataItem) => void;
+}) => {
+  const { scale } = codebook;
+  const variables = useMemo(() => buildVariables(codebook), [codebook]);
+  const [xId, setXId] = useState(variables[0]?.id ?? '');
+  const [yId, setYId] = useState(variables[1]?.id ?? '');
+  const [colorByGroup, setColorByGroup] = useState(false);
+  const [trendMethod, setTrendMethod] = useState<TrendMethod>('ols');
+  const [span, setSpan] = useState(DEFAULT_LOESS_SPAN);
+  const [jitter, setJitter] = useState(0.1);
+  const [sizeByCount, setSizeByCount] = useState(false);
+
+  const xVar = variables.find(v => v.id === xId) ?? variables[0];
+  const yVar = variables.find(v => v.id === yId) ?? variables[1];
+
+  // Respondents with a value on both variables (pairwise deletion)
+  const pairs = useMemo(
+    () => xVar && yVar
+      ? data.flatMap(d => {
+          const x = xVar.value(d);
+          const y = yVar.value(d);
+          return isNaN(x) || isNaN(y) ? [] : [{ respondent: d, x, y }];
+        })
+      : [],
+    [data, xVar, yVar]
+  );
+
+  // Fixed offsets per respondent so points do not move when other settings change
+  const jitterOffsets = useMemo(() => {
+    const random = createRng(JITTER_SEED);
+    return new Map(data.map(d => [d.id, [random() * 2 - 1, random() * 2 - 1]]));
+  }, [data]);
+
+  const colorOf = (d: DataItem): string =>
+    colorByGroup ? groups.find(g => g.label === d.usageGroup)?.color ?? UNASSIGNED_COLOR : '#3b82f6';
+
+  const markers: Marker[] = useMemo(() => {
+    if (sizeByCount) {
+      const merged = new Map<string, Marker>();
+      pairs.forEach(({ respondent, x, y }) => {
+        const color = colorOf(respondent);
+        const key = `${x.toFixed(4)}|${y.toFixed(4)}|${color}`;
+        const marker = merged.get(key);
+        if (marker) marker.ids.push(respondent.id);
+        else merged.set(key, { x, y, ids: [respondent.id], color });
+      });
+      return Array.from(merged.values());
+    }
+    return pairs.map(({ respondent, x, y }) => {
+      const [dx, dy] = jitterOffsets.get(respondent.id) ?? [0, 0];
+      return { x: x + dx * jitter, y: y + dy * jitter, ids: [respondent.id], color: colorOf(respondent) };
+    });
+  }, [pairs, sizeByCount, jitter, jitterOffsets, colorByGroup, groups]);
+
+  const trend = useMemo(() => {
+    const xs = pairs.map(p => p.x);
+    const ys = pairs.map(p => p.y);
+    if (trendMethod === 'ols') return olsTrend(xs, ys, alpha);
+    if (trendMethod === 'loess') return loessTrend(xs, ys, alpha, span);
+    return [];
+  }, [pairs, trendMethod, span, alpha]);
+
+  const correlation = useMemo(
+    () => (pairs.length >= 3 && xId !== yId ? spearmanTest(pairs.map(p => p.x), pairs.map(p => p.y), alpha) : null),
+    [pairs, xId, yId, alpha]
+  );
+
+  const hasSelection = markers.some(m => m.ids.some(id => selectedIds.has(id)));
+  const respondentById = new Map(pairs.map(p => [p.respondent.id, p.respondent]));
+  // Brushing selects on the observed scores, not the jittered marker positions
+  const brushPoints = pairs.map(({ respondent, x, y }) => ({ id: respondent.id, x, y }));
+  const ticks = Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+  const domain: [number, number] = [scale.min - 0.5, scale.max + 0.5];
+
+  const renderMarker = (props: { cx?: number; cy?: number; payload?: Marker }) => {
+    const { cx = 0, cy = 0, payload } = props;
+    if (!payload) return <g />;
+    const selected = payload.ids.some(id => selectedIds.has(id));
+    return (
+      <circle
+        cx={cx} cy={cy} r={markerRadius(payload.ids.length, sizeByCount)}
+        fill={payload.color}
+        fillOpacity={hasSelection && !selected ? 0.15 : sizeByCount ? 0.5 : 0.6}
+        stroke={selected ? '#0f172a' : 'none'}
+        strokeWidth={1}
+        style={{ cursor: 'pointer' }}
+      />
+    );
+  };
+
+  const handleMarkerClick = (marker: Marker) => {
+    const respondent = marker.ids.length === 1 ? respondentById.get(marker.ids[0]) : undefined;
+    if (respondent) onPointClick(respondent);
+    else onBrush(marker.ids, false);
+  };
+
+  const selectClass = 'bg-slate-100 rounded-md px-2 py-1 text-sm text-slate-700 max-w-[14rem]';
+  const variableSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="flex items-center gap-2 text-xs text-slate-500">
+      {label}
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+        <optgroup label="Konstruk">
+          {variables.filter(v => v.id.startsWith('c:')).map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+        </optgroup>
+        <optgroup label="Item">
+          {variables.filter(v => v.id.startsWith('i:')).map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+        </optgroup>
+      </select>
+    </label>
+  );
+
+  if (!xVar || !yVar) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap items-start gap-2 mb-4">
+        <Crosshair className="text-blue-600" size={20} />
+        <div>
+          <h3 className="font-bold text-slate-800">Eksplorasi Diagram Pencar</h3>
+          <AnalysisBadge n={pairs.length} strategy={`${strategyLabel} • pasangan lengkap`} />
+        </div>
+        {correlation && (
+          <span
+            className={`ml-auto text-xs px-2 py-1 rounded-full font-bold ${
+              correlation.pValue < alpha ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'
+            }`}
+          >
+            ρ = {correlation.rho.toFixed(2)}
+            {correlation.pValue < alpha ? significanceStars(correlation.pValue) : ' (n.s.)'} • {formatPValue(correlation.pValue)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        {variableSelect(xVar.id, setXId, 'Sumbu X')}
+        {variableSelect(yVar.id, setYId, 'Sumbu Y')}
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          Tren
+          <select value={trendMethod} onChange={(e) => setTrendMethod(e.target.value as TrendMethod)} className={selectClass}>
+            {(Object.keys(TREND_METHOD_LABELS) as TrendMethod[]).map(m => (
+              <option key={m} value={m}>{TREND_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+        </label>
+        {trendMethod === 'loess' && (
+          <label className="flex items-center gap-2 text-xs text-slate-500">
+            Span {span.toFixed(2)}
+            <input type="range" min={0.3} max={1} step={0.05} value={span} onChange={(e) => setSpan(parseFloat(e.target.value))} />
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          Jitter
+          <select
+            value={jitter}
+            onChange={(e) => setJitter(parseFloat(e.target.value))}
+            disabled={sizeByCount}
+            className={`${selectClass} disabled:opacity-50`}
+          >
+            {JITTER_OPTIONS.map(j => <option key={j} value={j}>{j === 0 ? 'Tidak ada' : `±${j}`}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={sizeByCount} onChange={(e) => setSizeByCount(e.target.checked)} />
+          Ukuran titik = jumlah responden
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={colorByGroup} onChange={(e) => setColorByGroup(e.target.checked)} />
+          Warna per kelompok
+        </label>
+      </div>
+
+      <ExportableChart name={`scatter-${xVar.id}-${yVar.id}`} className="h-96">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart margin={{ top: 20, right: 20, bottom: 20, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type="number" dataKey="x" domain={domain} ticks={ticks} allowDataOverflow
+              label={{ value: xVar.label, position: 'bottom', offset: 0 }}
+            />
+            <YAxis
+              type="number" dataKey="y" domain={domain} ticks={ticks} allowDataOverflow
+              label={{ value: yVar.label, angle: -90, position: 'left' }}
+            />
+            <Tooltip shared={false} cursor={false} content={<MarkerTooltip xLabel={xVar.label} yLabel={yVar.label} />} />
+            <Customized
+              component={
+                <BrushLayer
+                  points={brushPoints}
+                  brushMode={brushMode}
+                  onBrush={onBrush}
+                />
+              }
+            />
+            {trend.length > 0 && (
+              <Area data={trend} dataKey="band" stroke="none" fill="#64748b" fillOpacity={0.15} isAnimationActive={false} />
+            )}
+            {trend.length > 0 && (
+              <Line data={trend} dataKey="fit" stroke="#0f172a" strokeWidth={2} dot={false} isAnimationActive={false} />
+            )}
+            <Scatter
+              data={markers}
+              shape={renderMarker}
+              isAnimationActive={false}
+              onClick={(point: { payload: Marker }) => handleMarkerClick(point.payload)}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </ExportableChart>
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-slate-500">
+        {colorByGroup && [...groups, { label: '', shortLabel: 'Tanpa kelompok', color: UNASSIGNED_COLOR }].map(g => (
+          <span key={g.shortLabel} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: g.color }} />
+            {g.shortLabel}
+          </span>
+        ))}
+        {trend.length > 0 && (
+          <span className="ml-auto">
+            Garis: {TREND_METHOD_LABELS[trendMethod]} • pita: {Math.round((1 - alpha) * 100)}% CI rata-rata respons
+          </span>
+        )}
+      </div>
+      <p className="text-[11px] text-slate-400 mt-2">
+        Jitter hanya menggeser tampilan titik; ρ, tren dan seleksi dihitung dari nilai asli. Item memakai skor setelah reverse-coding.
+      </p>
+    </div>
+  );
+};
+
+export default ScatterExplorer;
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, ClipboardCheck } from 'lucide-react';
+import { SCREENING_FLAG_LABELS, ScreeningOptions, ScreeningReport } from './screening';
+import { ScreeningFlag } from './types';
+
+const FLAG_ORDER: ScreeningFlag[] = ['ineligible', 'outOfRange', 'missing', 'straightLining', 'duplicateTimestamp'];
+
+const OPTION_TOGGLES: { key: keyof ScreeningOptions; label: string }[] = [
+  { key: 'excludeIneligible', label: 'Keluarkan responden yang tidak memenuhi kriteria' },
+  { key: 'excludeStraightLining', label: 'Keluarkan straight-liner' },
+  { key: 'excludeDuplicateTimestamp', label: 'Keluarkan timestamp duplikat' },
+];
+
+// Exclusion report: counts per screening flag plus the list of affected rows
+const ScreeningPanel = ({ report, options, onOptionsChange }: {
+  report: ScreeningReport;
+  options: ScreeningOptions;
+  onOptionsChange: (options: ScreeningOptions) => void;
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const excludedIds = new Map(report.excluded.map(e => [e.respondent.id, e.reasons]));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+      <div className="flex items-center gap-2 mb-4">
+        <ClipboardCheck className="text-blue-600" size={20} />
+        <h3 className="font-bold text-slate-800">Laporan Screening Data</h3>
+        <span className="text-xs text-slate-500 ml-auto">
+          {report.included} dianalisis • {report.excluded.length} dikeluarkan • {report.total} total baris
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {FLAG_ORDER.map(flag => (
+          <div
+            key={flag}
+            className={`p-3 rounded-lg border ${report.counts[flag] > 0 ? 'bg-amber-50 border-amber-200' : 'bg-slate-50 border-slate-100'}`}
+          >
+            <p className="text-xs text-slate-500">{SCREENING_FLAG_LABELS[flag]}</p>
+            <p className={`text-xl font-bold ${report.counts[flag] > 0 ? 'text-amber-700' : 'text-slate-400'}`}>{report.counts[flag]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-slate-600 mb-2">
+        {OPTION_TOGGLES.map(toggle => (
+          <label key={toggle.key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={options[toggle.key]}
+              onChange={(e) => onOptionsChange({ ...options, [toggle.key]: e.target.checked })}
+            />
+            {toggle.label}
+          </label>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-400 mb-4">
+        Nilai di luar skala diperlakukan sebagai item kosong; item kosong ditangani oleh strategi data hilang di bawah.
+      </p>
+
+      {report.flagged.length > 0 && (
+        <>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+          >
+            {expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+            Daftar baris bermasalah ({report.flagged.length})
+          </button>
+          {expanded && (
+            <div className="mt-3 max-h-[320px] overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-slate-500 border-b border-slate-100">
+                    <th className="p-2 text-left font-medium">Baris</th>
+                    <th className="p-2 text-left font-medium">Timestamp</th>
+                    <th className="p-2 text-left font-medium">Temuan</th>
+                    <th className="p-2 text-left font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.flagged.map(r => {
+                    const reasons = excludedIds.get(r.id);
+                    return (
+                      <tr key={r.id} className="border-b border-slate-50 align-top">
+                        <td className="p-2 font-mono">{r.row}</td>
+                        <td className="p-2 font-mono text-slate-500">{r.timestamp || '–'}</td>
+                        <td className="p-2 space-y-1">
+                          {r.issues.map((issue, idx) => (
+                            <p key={idx}>
+                              <span className="font-medium text-slate-700">{SCREENING_FLAG_LABELS[issue.flag]}</span>
+                              <span className="text-slate-500">: {issue.detail}</span>
+                            </p>
+                          ))}
+                        </td>
+                        <td className="p-2">
+                          {reasons
+                            ? <span className="text-red-600 font-medium">Dikeluarkan</span>
+                            : <span className="text-slate-500">Dianalisis</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScreeningPanel;
@@ -0,0 +1,231 @@
+// =================================================================================
+// TABEL APA: statistik deskriptif dan matriks korelasi untuk naskah
+// =================================================================================
+// Tables are built once as plain cells and then rendered to Markdown, LaTeX
+// (booktabs) or DOCX. Numbers follow APA 7: two decimals, no leading zero for
+// values bounded by 1 (correlations, α), stars for p < .05 / .01 / .001.
+import { ResolvedConstruct } from './codebook';
+import { describeConstructs } from './descriptives';
+import { significanceStars } from './stats';
+import { CorrelationItem, DataItem } from './types';
+
+// --- TYPES ---
+export type ApaFormat = 'markdown' | 'latex' | 'docx';
+
+export interface ApaColumn {
+  label: string;
+  italic?: boolean;        // Statistical symbols (M, SD, Mdn, ...) are set in italics
+  align: 'left' | 'right';
+}
+
+export interface ApaTable {
+  number: number;
+  title: string;
+  columns: ApaColumn[];
+  rows: string[][];        // Cells may end in significance stars, rendered as superscript
+  note: string;            // Printed after an italic "Catatan."
+}
+
+export const APA_FORMAT_LABELS: Record<ApaFormat, string> = {
+  markdown: 'Markdown',
+  latex: 'LaTeX (booktabs)',
+  docx: 'Word (DOCX)',
+};
+
+const STAR_NOTE = '* p < .05. ** p < .01. *** p < .001.';
+
+// --- HELPER FUNCTIONS ---
+
+// APA number formatting: "-.45" instead of "-0.45" for values that cannot exceed 1
+export const formatApaBounded = (value: number, digits = 2): string => {
+  if (isNaN(value)) return '—';
+  const text = value.toFixed(digits);
+  return text.replace(/^(-?)0\./, '$1.');
+};
+
+const formatApaNumber = (value: number, digits = 2): string => (isNaN(value) ? '—' : value.toFixed(digits));
+
+export const descriptivesTable = (
+  data: DataItem[],
+  constructs: ResolvedConstruct[],
+  strategyLabel: string,
+  number = 1
+): ApaTable => ({
+  number,
+  title: 'Statistik Deskriptif dan Reliabilitas Konstruk',
+  columns: [
+    { label: 'Variabel', align: 'left' },
+    { label: 'k', italic: true, align: 'right' },
+    { label: 'M', italic: true, align: 'right' },
+    { label: 'SD', italic: true, align: 'right' },
+    { label: 'Mdn', italic: true, align: 'right' },
+    { label: 'Min', align: 'right' },
+    { label: 'Maks', align: 'right' },
+    { label: 'α', italic: true, align: 'right' },
+  ],
+  rows: describeConstructs(data, constructs).map(d => [
+    d.label,
+    String(d.items),
+    formatApaNumber(d.mean),
+    formatApaNumber(d.sd),
+    formatApaNumber(d.median),
+    formatApaNumber(d.min),
+    formatApaNumber(d.max),
+    formatApaBounded(d.alpha),
+  ]),
+  note: `N = ${data.length}. k = jumlah item; skor konstruk = rata-rata item. ` +
+    `α = Cronbach's alpha (kasus lengkap per konstruk). Data hilang: ${strategyLabel}.`,
+});
+
+// Lower-triangle matrix: variables numbered in the rows, numbers as column heads
+export const correlationTable = (
+  correlations: CorrelationItem[],
+  constructs: ResolvedConstruct[],
+  n: number,
+  strategyLabel: string,
+  number = 2
+): ApaTable => {
+  const find = (a: string, b: string) =>
+    correlations.find(c => (c.var1 === a && c.var2 === b) || (c.var1 === b && c.var2 === a));
+
+  return {
+    number,
+    title: 'Korelasi Spearman Antar Variabel Penelitian',
+    columns: [
+      { label: 'Variabel', align: 'left' },
+      ...constructs.map((_, i) => ({ label: String(i + 1), align: 'right' as const })),
+    ],
+    rows: constructs.map((row, i) => [
+      `${i + 1}. ${row.label}`,
+      ...constructs.map((col, j) => {
+        if (j > i) return '';
+        if (j === i) return '—';
+        const item = find(row.key, col.key);
+        return item ? `${formatApaBounded(item.correlation)}${significanceStars(item.pValue)}` : '';
+      }),
+    ]),
+    note: `N = ${n}. Koefisien korelasi peringkat Spearman (ρ), uji dua arah. ` +
+      `Data hilang: ${strategyLabel}. ${STAR_NOTE}`,
+  };
+};
+
+export const splitStars = (cell: string): [string, string] => {
+  const match = cell.match(/^(.*?)(\*+)$/);
+  return match ? [match[1], match[2]] : [cell, ''];
+};
+
+// --- MARKDOWN ---
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\|*_])/g, '\\$1');
+
+export const tableToMarkdown = (table: ApaTable): string => {
+  const header = table.columns.map(c => (c.italic ? `*${c.label}*` : c.label));
+  const divider = table.columns.map(c => (c.align === 'right' ? '---:' : ':---'));
+  const rows = table.rows.map(row => row.map(cell => {
+    const [value, stars] = splitStars(cell);
+    return escapeMarkdown(value) + (stars ? `<sup>${stars}</sup>` : '');
+  }));
+  return [
+    `**Tabel ${table.number}**`,
+    '',
+    `*${table.title}*`,
+    '',
+    `| ${header.join(' | ')} |`,
+    `| ${divider.join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+    '',
+    `*Catatan.* ${escapeMarkdown(table.note)}`,
+  ].join('\n');
+};
+
+// --- LATEX ---
+
+const LATEX_REPLACEMENTS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#', '_': '\\_',
+  '{': '\\{', '}': '\\}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+  'α': '$\\alpha$', 'ρ': '$\\rho$', '—': '---', '–': '--', '<': '$<$', '>': '$>$', '≥': '$\\geq$', '≤': '$\\leq$',
+};
+
+const escapeLatex = (text: string): string =>
+  text.replace(/[\\&%$#_{}~^αρ—–<>≥≤]/g, ch => LATEX_REPLACEMENTS[ch]);
+
+export const tableToLatex = (table: ApaTable): string => {
+  const spec = table.columns.map(c => (c.align === 'right' ? 'r' : 'l')).join('');
+  const header = table.columns.map(c => (c.italic ? `\\textit{${escapeLatex(c.label)}}` : escapeLatex(c.label)));
+  const rows = table.rows.map(row => row.map(cell => {
+    const [value, stars] = splitStars(cell);
+    return escapeLatex(value) + (stars ? `\\textsuperscript{${stars}}` : '');
+  }));
+  return [
+    '% Membutuhkan \\usepackage{booktabs}',
+    '\\begin{table}[htbp]',
+    '  \\centering',
+    `  \\caption{${escapeLatex(table.title)}}`,
+    `  \\label{tab:tabel-${table.number}}`,
+    `  \\begin{tabular}{${spec}}`,
+    '    \\toprule',
+    `    ${header.join(' & ')} \\\\`,
+    '    \\midrule',
+    ...rows.map(row => `    ${row.join(' & ')} \\\\`),
+    '    \\bottomrule',
+    '  \\end{tabular}',
+    '  \\par\\smallskip',
+    `  \\parbox{\\linewidth}{\\footnotesize \\textit{Catatan.} ${escapeLatex(table.note)}}`,
+    '\\end{table}',
+  ].join('\n');
+};
+
+// --- DOCX ---
+
+// One Word document with every table: bold number, italic title, horizontal
+// rules above and below the header and at the end (no vertical lines)
+export const tablesToDocx = async (tables: ApaTable[]): Promise<Blob> => {
+  const {
+    AlignmentType, BorderStyle, Document, Packer, Paragraph, Table, TableCell, TableRow, TextRun, WidthType
+  } = await import('docx');
+
+  const rule = { style: BorderStyle.SINGLE, size: 8, color: '000000' };
+  const none = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+
+  const cell = (text: string, align: ApaColumn['align'], options: { italic?: boolean; bottom?: boolean; top?: boolean }) => {
+    const [value, stars] = splitStars(text);
+    return new TableCell({
+      borders: { top: options.top ? rule : none, bottom: options.bottom ? rule : none, left: none, right: none },
+      children: [new Paragraph({
+        alignment: align === 'right' ? AlignmentType.RIGHT : AlignmentType.LEFT,
+        children: [
+          new TextRun({ text: value, italics: options.italic }),
+          ...(stars ? [new TextRun({ text: stars, superScript: true })] : []),
+        ],
+      })],
+    });
+  };
+
+  const children = tables.flatMap((table, index) => [
+    new Paragraph({ children: [new TextRun({ text: `Tabel ${table.number}`, bold: true })], spacing: { before: index > 0 ? 480 : 0 } }),
+    new Paragraph({ children: [new TextRun({ text: table.title, italics: true })], spacing: { after: 120 } }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: { top: rule, bottom: rule, left: none, right: none, insideHorizontal: none, insideVertical: none },
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: table.columns.map(c => cell(c.label, c.align, { italic: c.italic, top: true, bottom: true })),
+        }),
+        ...table.rows.map((row, r) => new TableRow({
+          children: row.map((text, i) => cell(text, table.columns[i].align, { bottom: r === table.rows.length - 1 })),
+        })),
+      ],
+    }),
+    new Paragraph({
+      spacing: { before: 120 },
+      children: [new TextRun({ text: 'Catatan.', italics: true }), new TextRun({ text: ` ${table.note}` })],
+    }),
+  ]);
+
+  const doc = new Document({
+    styles: { default: { document: { run: { font: 'Times New Roman', size: 24 } } } },
+    sections: [{ children }],
+  });
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,142 @@
+// =================================================================================
+// BOOTSTRAP: interval kepercayaan persentil dan BCa dengan seed yang dapat diatur
+// =================================================================================
+import { quantile } from './groupTests';
+import { mean, standardDeviation } from './linalg';
+import { createRng, normalCdf, normalQuantile } from './stats';
+
+// --- TYPES ---
+export type BootstrapMethod = 'percentile' | 'bca';
+
+export interface BootstrapSettings {
+  iterations: number;
+  seed: number;
+  method: BootstrapMethod;
+}
+
+export interface BootstrapInterval {
+  estimate: number;        // Statistic on the original sample
+  lower: number;
+  upper: number;
+  se: number;              // SD of the bootstrap replicates
+  iterations: number;      // Replicates with a defined statistic
+  method: BootstrapMethod; // Method actually used (BCa falls back to percentile)
+}
+
+export const BOOTSTRAP_METHOD_LABELS: Record<BootstrapMethod, string> = {
+  percentile: 'Persentil',
+  bca: 'BCa',
+};
+
+export const BOOTSTRAP_ITERATION_OPTIONS = [1000, 2000, 5000, 10000];
+
+export const DEFAULT_BOOTSTRAP_SETTINGS: BootstrapSettings = {
+  iterations: 2000,
+  seed: 20251218,
+  method: 'bca',
+};
+
+// --- HELPER FUNCTIONS ---
+
+export const describeBootstrap = (settings: BootstrapSettings, alpha: number): string =>
+  `Bootstrap ${BOOTSTRAP_METHOD_LABELS[settings.method]} ${Math.round((1 - alpha) * 100)}% • ${settings.iterations}× • seed ${settings.seed}`;
+
+// Bias-corrected and accelerated limits (Efron, 1987): the percentile levels are
+// shifted by the median bias z0 and the jackknife acceleration a
+const bcaLevels = (
+  replicates: number[],
+  estimate: number,
+  jackknife: number[],
+  alpha: number
+): [number, number] | null => {
+  const below = replicates.filter(v => v < estimate).length;
+  const equal = replicates.filter(v => v === estimate).length;
+  const z0 = normalQuantile((below + equal / 2) / replicates.length);
+
+  const jackMean = mean(jackknife);
+  const numerator = jackknife.reduce((sum, v) => sum + (jackMean - v) ** 3, 0);
+  const denominator = 6 * jackknife.reduce((sum, v) => sum + (jackMean - v) ** 2, 0) ** 1.5;
+  const a = denominator > 0 ? numerator / denominator : 0;
+
+  const adjust = (level: number) => {
+    const z = normalQuantile(level);
+    return normalCdf(z0 + (z0 + z) / (1 - a * (z0 + z)));
+  };
+  const levels: [number, number] = [adjust(alpha / 2), adjust(1 - alpha / 2)];
+  return levels.every(l => isFinite(l) && l > 0 && l < 1) ? levels : null;
+};
+
+// --- RESAMPLING ---
+
+// Resamples n cases with replacement; statistic receives the case indices of
+// each replicate and may return NaN for a degenerate resample, which is skipped
+export const bootstrapInterval = (
+  n: number,
+  statistic: (indices: number[]) => number,
+  settings: BootstrapSettings,
+  alpha: number
+): BootstrapInterval => {
+  const all = Array.from({ length: n }, (_, i) => i);
+  const estimate = statistic(all);
+  const random = createRng(settings.seed);
+
+  const replicates: number[] = [];
+  for (let iter = 0; iter < settings.iterations; iter++) {
+    const value = statistic(Array.from({ length: n }, () => Math.floor(random() * n)));
+    if (!isNaN(value)) replicates.push(value);
+  }
+  replicates.sort((a, b) => a - b);
+  if (replicates.length < 2 || isNaN(estimate)) {
+    return { estimate, lower: NaN, upper: NaN, se: NaN, iterations: replicates.length, method: settings.method };
+  }
+
+  let levels: [number, number] = [alpha / 2, 1 - alpha / 2];
+  let method: BootstrapMethod = 'percentile';
+  if (settings.method === 'bca') {
+    const jackknife = all.map(left => statistic(all.filter(i => i !== left))).filter(v => !isNaN(v));
+    const adjusted = bcaLevels(replicates, estimate, jackknife, alpha);
+    if (adjusted) {
+      levels = adjusted;
+      method = 'bca';
+    }
+  }
+
+  return {
+    estimate,
+    lower: quantile(replicates, levels[0]),
+    upper: quantile(replicates, levels[1]),
+    se: standardDeviation(replicates),
+    iterations: replicates.length,
+    method,
+  };
+};
+
+export const bootstrapMean = (values: number[], settings: BootstrapSettings, alpha: number): BootstrapInterval => {
+  const valid = values.filter(v => !isNaN(v));
+  return bootstrapInterval(valid.length, indices => mean(indices.map(i => valid[i])), settings, alpha);
+};
+
+// Correlation over complete cases; a resample without variation has no
+// coefficient. Control columns (for partial correlations) are resampled with x and y.
+export const bootstrapCorrelation = (
+  x: number[],
+  y: number[],
+  coefficient: (x: number[], y: number[], controls: number[][]) => number,
+  settings: BootstrapSettings,
+  alpha: number,
+  controls: number[][] = []
+): BootstrapInterval => {
+  const rows = x.map((v, i) => [v, y[i], ...controls.map(col => col[i])]).filter(row => row.every(v => !isNaN(v)));
+  return bootstrapInterval(
+    rows.length,
+    indices => {
+      if (indices.length === 0) return NaN;
+      const columns = rows[0].map((_, j) => indices.map(i => rows[i][j]));
+      if (columns.some(col => col.every(v => v === col[0]))) return NaN;
+      const [xs, ys, ...rest] = columns;
+      return coefficient(xs, ys, rest);
+    },
+    settings,
+    alpha
+  );
+};
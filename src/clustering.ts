@@ -0,0 +1,274 @@
+// =================================================================================
+// KLASTERISASI RESPONDEN: k-means dan Gaussian mixture pada skor konstruk terstandar
+// =================================================================================
+import { ResolvedConstruct } from './codebook';
+import { mean, standardDeviation } from './linalg';
+import { createRng } from './stats';
+import { DataItem } from './types';
+
+// --- TYPES ---
+export type ClusterMethod = 'kmeans' | 'gmm';
+
+// Everything needed to assign any respondent to a cluster later, so a solution
+// can be stored as a grouping rule and applied to rows it was not fitted on
+export interface ClusterModel {
+  method: ClusterMethod;
+  keys: string[];            // Construct keys, in the order of the centroid columns
+  center: number[];          // Sample mean per construct (standardization)
+  spread: number[];          // Sample SD per construct
+  centroids: number[][];     // Cluster means in z-scores
+  variances?: number[][];    // GMM: diagonal covariance per cluster (z-scale)
+  weights?: number[];        // GMM: mixing proportions
+}
+
+export interface ClusterSolution {
+  k: number;
+  model: ClusterModel;
+  labels: (number | null)[]; // Per input row; null when a construct score is missing
+  sizes: number[];
+  withinSS: number;          // Total within-cluster sum of squares (z-scale), for the elbow plot
+  silhouette: number;        // Mean silhouette width over clustered respondents
+  bic: number | null;        // GMM only
+}
+
+export const CLUSTER_METHOD_LABELS: Record<ClusterMethod, string> = {
+  kmeans: 'k-means',
+  gmm: 'Gaussian mixture',
+};
+
+export const MIN_CLUSTERS = 2;
+const CLUSTER_SEED = 20251216;
+const KMEANS_STARTS = 10;
+const MAX_ITERATIONS = 200;
+const EM_TOLERANCE = 1e-6;
+// Keeps a mixture component from collapsing onto a single Likert point
+const VARIANCE_FLOOR = 0.01;
+// |z| at which a centroid counts as clearly above or below the sample mean
+const PERSONA_Z = 0.5;
+
+// --- HELPER FUNCTIONS ---
+
+const squaredDistance = (a: number[], b: number[]): number =>
+  a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0);
+
+const nearest = (point: number[], centroids: number[][]): number => {
+  let best = 0;
+  centroids.forEach((c, j) => {
+    if (squaredDistance(point, c) < squaredDistance(point, centroids[best])) best = j;
+  });
+  return best;
+};
+
+const logSumExp = (values: number[]): number => {
+  const max = Math.max(...values);
+  return max + Math.log(values.reduce((sum, v) => sum + Math.exp(v - max), 0));
+};
+
+// Log of w·N(x | μ, diag(σ²)) for one mixture component
+const componentLogDensity = (point: number[], centroid: number[], variance: number[], weight: number): number =>
+  Math.log(weight) - point.reduce(
+    (sum, v, i) => sum + 0.5 * (Math.log(2 * Math.PI * variance[i]) + (v - centroid[i]) ** 2 / variance[i]),
+    0
+  );
+
+const standardize = (value: number, center: number, spread: number): number => (value - center) / spread;
+
+// k-means++ seeding followed by Lloyd iterations; an emptied cluster is moved to
+// the point farthest from its centroid
+const lloyd = (points: number[][], k: number, random: () => number): { centroids: number[][]; labels: number[]; withinSS: number } => {
+  const centroids = [points[Math.floor(random() * points.length)]];
+  while (centroids.length < k) {
+    const distances = points.map(p => Math.min(...centroids.map(c => squaredDistance(p, c))));
+    const total = distances.reduce((a, b) => a + b, 0);
+    let target = random() * total;
+    const index = distances.findIndex(d => (target -= d) <= 0);
+    centroids.push(points[index >= 0 ? index : points.length - 1]);
+  }
+
+  let labels = points.map(p => nearest(p, centroids));
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    for (let j = 0; j < k; j++) {
+      const members = points.filter((_, i) => labels[i] === j);
+      if (members.length > 0) {
+        centroids[j] = members[0].map((_, dim) => mean(members.map(m => m[dim])));
+      } else {
+        const farthest = points.reduce((best, p, i) =>
+          squaredDistance(p, centroids[labels[i]]) > squaredDistance(points[best], centroids[labels[best]]) ? i : best, 0);
+        centroids[j] = points[farthest];
+      }
+    }
+    const next = points.map(p => nearest(p, centroids));
+    if (next.every((label, i) => label === labels[i])) break;
+    labels = next;
+  }
+
+  const withinSS = points.reduce((sum, p, i) => sum + squaredDistance(p, centroids[labels[i]]), 0);
+  return { centroids, labels, withinSS };
+};
+
+const kMeans = (points: number[][], k: number, random: () => number) => {
+  let best = lloyd(points, k, random);
+  for (let start = 1; start < KMEANS_STARTS; start++) {
+    const candidate = lloyd(points, k, random);
+    if (candidate.withinSS < best.withinSS) best = candidate;
+  }
+  return best;
+};
+
+// EM for a mixture of diagonal Gaussians, started from the k-means solution
+const gaussianMixture = (points: number[][], k: number, random: () => number) => {
+  const n = points.length;
+  const dims = points[0].length;
+  const start = kMeans(points, k, random);
+  let centroids = start.centroids.map(c => [...c]);
+  let variances = centroids.map((_, j) => {
+    const members = points.filter((_, i) => start.labels[i] === j);
+    return Array.from({ length: dims }, (_, dim) =>
+      Math.max(VARIANCE_FLOOR, mean(members.map(m => (m[dim] - centroids[j][dim]) ** 2))));
+  });
+  let weights = centroids.map((_, j) => Math.max(1, start.labels.filter(l => l === j).length) / n);
+  let logLikelihood = -Infinity;
+  let responsibilities: number[][] = [];
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    // E-step
+    let total = 0;
+    responsibilities = points.map(p => {
+      const logs = centroids.map((c, j) => componentLogDensity(p, c, variances[j], weights[j]));
+      const norm = logSumExp(logs);
+      total += norm;
+      return logs.map(l => Math.exp(l - norm));
+    });
+
+    // M-step
+    const mass = centroids.map((_, j) => responsibilities.reduce((sum, r) => sum + r[j], 0));
+    weights = mass.map(m => Math.max(m, 1e-9) / n);
+    centroids = centroids.map((_, j) => Array.from({ length: dims }, (_, dim) =>
+      responsibilities.reduce((sum, r, i) => sum + r[j] * points[i][dim], 0) / Math.max(mass[j], 1e-9)));
+    variances = centroids.map((c, j) => Array.from({ length: dims }, (_, dim) => Math.max(
+      VARIANCE_FLOOR,
+      responsibilities.reduce((sum, r, i) => sum + r[j] * (points[i][dim] - c[dim]) ** 2, 0) / Math.max(mass[j], 1e-9)
+    )));
+
+    if (Math.abs(total - logLikelihood) < EM_TOLERANCE * Math.abs(total)) {
+      logLikelihood = total;
+      break;
+    }
+    logLikelihood = total;
+  }
+
+  const labels = responsibilities.map(r => r.indexOf(Math.max(...r)));
+  const parameters = k * dims * 2 + (k - 1);
+  return { centroids, variances, weights, labels, bic: -2 * logLikelihood + parameters * Math.log(n) };
+};
+
+// Mean silhouette width; singleton clusters score 0 by convention
+const silhouetteWidth = (points: number[][], labels: number[], k: number): number => {
+  const sizes = Array.from({ length: k }, (_, j) => labels.filter(l => l === j).length);
+  const widths = points.map((p, i) => {
+    if (sizes[labels[i]] < 2) return 0;
+    const sums = new Array<number>(k).fill(0);
+    points.forEach((q, m) => {
+      if (m !== i) sums[labels[m]] += Math.sqrt(squaredDistance(p, q));
+    });
+    const a = sums[labels[i]] / (sizes[labels[i]] - 1);
+    const b = Math.min(...sums.map((s, j) => (j === labels[i] || sizes[j] === 0 ? Infinity : s / sizes[j])));
+    return b === Infinity ? 0 : (b - a) / Math.max(a, b);
+  });
+  return mean(widths);
+};
+
+// --- CLUSTERING ---
+
+// Respondents with a score on every construct, as z-scores
+const standardizedPoints = (data: DataItem[], keys: string[]) => {
+  const complete = data.map(d => keys.every(key => !isNaN(d.scores[key])));
+  const rows = data.filter((_, i) => complete[i]);
+  const center = keys.map(key => mean(rows.map(d => d.scores[key])));
+  // A constant construct carries no information; keep it at z = 0
+  const spread = keys.map(key => standardDeviation(rows.map(d => d.scores[key])) || 1);
+  const points = rows.map(d => keys.map((key, i) => standardize(d.scores[key], center[i], spread[i])));
+  return { complete, center, spread, points };
+};
+
+export const maxClusters = (n: number, limit: number): number => Math.max(MIN_CLUSTERS, Math.min(limit, n - 1));
+
+// Fits one solution per k. Clusters are numbered by size, largest first, so the
+// numbering does not depend on the random start.
+export const fitClusterSolutions = (data: DataItem[], keys: string[], method: ClusterMethod, maxK: number): ClusterSolution[] => {
+  const { complete, center, spread, points } = standardizedPoints(data, keys);
+  if (points.length <= MIN_CLUSTERS) return [];
+
+  return Array.from({ length: maxClusters(points.length, maxK) - MIN_CLUSTERS + 1 }, (_, offset) => {
+    const k = MIN_CLUSTERS + offset;
+    const random = createRng(CLUSTER_SEED + k);
+    const fit = method === 'kmeans'
+      ? { ...kMeans(points, k, random), variances: undefined, weights: undefined, bic: null }
+      : gaussianMixture(points, k, random);
+
+    const rawSizes = Array.from({ length: k }, (_, j) => fit.labels.filter(l => l === j).length);
+    const order = rawSizes.map((_, j) => j).sort((a, b) => rawSizes[b] - rawSizes[a] || a - b);
+    const rank = order.map((_, j) => order.indexOf(j));
+    const labels = fit.labels.map(l => rank[l]);
+    const withinSS = points.reduce((sum, p, i) => sum + squaredDistance(p, fit.centroids[fit.labels[i]]), 0);
+
+    let next = 0;
+    return {
+      k,
+      model: {
+        method,
+        keys,
+        center,
+        spread,
+        centroids: order.map(j => fit.centroids[j]),
+        ...(fit.variances && fit.weights
+          ? { variances: order.map(j => fit.variances[j]), weights: order.map(j => fit.weights[j]) }
+          : {}),
+      },
+      labels: complete.map(isComplete => (isComplete ? labels[next++] : null)),
+      sizes: order.map(j => rawSizes[j]),
+      withinSS,
+      silhouette: silhouetteWidth(points, labels, k),
+      bic: fit.bic,
+    };
+  });
+};
+
+// Best k by mean silhouette width; ties go to the smaller k
+export const suggestClusterCount = (solutions: ClusterSolution[]): number | null =>
+  solutions.length > 0
+    ? solutions.reduce((best, s) => (s.silhouette > best.silhouette + 1e-9 ? s : best)).k
+    : null;
+
+// Cluster index for any respondent: nearest centroid (k-means) or highest
+// posterior probability (mixture); null when a construct score is missing
+export const assignCluster = (respondent: DataItem, model: ClusterModel): number | null => {
+  const point = model.keys.map((key, i) => standardize(respondent.scores[key], model.center[i], model.spread[i]));
+  if (point.some(v => isNaN(v))) return null;
+  if (model.method === 'gmm' && model.variances && model.weights) {
+    const logs = model.centroids.map((c, j) => componentLogDensity(point, c, model.variances![j], model.weights![j]));
+    return logs.indexOf(Math.max(...logs));
+  }
+  return nearest(point, model.centroids);
+};
+
+// Centroid on the original scale, per construct key
+export const centroidScores = (model: ClusterModel, index: number): Record<string, number> =>
+  Object.fromEntries(model.keys.map((key, i) => [key, model.center[i] + model.centroids[index][i] * model.spread[i]]));
+
+// Starting name from the (at most two) constructs that set the cluster apart,
+// e.g. "Tinggi Kecemasan • Tinggi Intensitas"; the user can rename it
+export const suggestPersonaNames = (model: ClusterModel, constructs: ResolvedConstruct[]): string[] => {
+  const names = model.centroids.map(centroid => {
+    const traits = model.keys
+      .map((key, i) => ({ key, z: centroid[i] }))
+      .filter(t => Math.abs(t.z) >= PERSONA_Z)
+      .sort((a, b) => Math.abs(b.z) - Math.abs(a.z))
+      .slice(0, 2)
+      .map(t => `${t.z > 0 ? 'Tinggi' : 'Rendah'} ${constructs.find(c => c.key === t.key)?.shortLabel ?? t.key}`);
+    return traits.length > 0 ? traits.join(' • ') : 'Profil Rata-rata';
+  });
+  // Group names must be unique
+  return names.map((name, i) =>
+    names.indexOf(name) === i && names.lastIndexOf(name) === i ? name : `${name} (${i + 1})`);
+};
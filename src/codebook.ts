@@ -0,0 +1,227 @@
+// =================================================================================
+// CODEBOOK: definisi konstruk, item kuesioner, dan skala
+// =================================================================================
+// The codebook is loaded next to the CSV so the questionnaire can be reordered or
+// extended without touching the parsing code. Items are matched by header text
+// (preferred) or by zero-based column index.
+
+// --- TYPES ---
+export interface ColumnRef {
+  header?: string;      // Question text as it appears in the CSV header row
+  column?: number;      // Zero-based column index, used when no header is given
+}
+
+export interface CodebookItem extends ColumnRef {
+  id: string;
+  label: string;        // Short label shown on cards and charts
+  reverse?: boolean;    // Worded against the construct; scored as (min + max - answer)
+}
+
+export interface Construct {
+  key: string;
+  label: string;
+  shortLabel: string;
+  description: string;
+  color: string;        // Hex color, e.g. "#ef4444"
+  items: CodebookItem[];
+}
+
+export interface GroupDefinition {
+  label: string;
+  shortLabel: string;
+  color: string;
+}
+
+export interface ScreeningConfig {
+  timestamp?: ColumnRef;
+  eligibility?: ColumnRef & { accept: string[] };  // Answers that count as eligible
+  straightLiningMinItems?: number;  // Minimum answered items before straight-lining is flagged
+}
+
+export interface LikertScale {
+  min: number;
+  max: number;
+  labels?: string[];    // One label per scale point, from min to max
+}
+
+export interface Codebook {
+  scale: LikertScale;
+  screening?: ScreeningConfig;
+  outcome: string;      // Construct key shown in the "Avg Skor" KPI
+  usageGroup: {
+    item: string;       // Item id used to split respondents
+    threshold: number;  // Value >= threshold falls into the "high" group
+    high: GroupDefinition;
+    low: GroupDefinition;
+  };
+  constructs: Construct[];
+  additionalItems?: CodebookItem[];  // Collected but not part of any construct
+}
+
+export interface ResolvedItem extends CodebookItem {
+  column: number;
+  header: string;
+}
+
+export interface ResolvedConstruct extends Construct {
+  items: ResolvedItem[];
+}
+
+export interface ResolvedCodebook extends Codebook {
+  constructs: ResolvedConstruct[];
+  items: ResolvedItem[];  // All construct items, flattened in declaration order
+  additionalItems: ResolvedItem[];
+  allItems: ResolvedItem[];  // Construct items followed by the additional items
+  timestampColumn: number | null;
+  eligibility: { column: number; accept: string[] } | null;
+}
+
+// --- HELPER FUNCTIONS ---
+
+const normalizeHeader = (text: string): string =>
+  text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+// Reverse-coded items mirror the answer around the scale midpoint (1 ↔ 5 on 1-5)
+export const reverseScore = (value: number, scale: { min: number; max: number }): number =>
+  scale.min + scale.max - value;
+
+export const itemDisplayLabel = (item: CodebookItem): string =>
+  item.reverse ? `${item.label} (R)` : item.label;
+
+export const scalePointLabel = (scale: LikertScale, point: number): string =>
+  scale.labels?.[point - scale.min] ?? String(point);
+
+// Validate the raw JSON shape so a typo in the codebook fails loudly instead of
+// producing empty charts.
+export const parseCodebook = (json: unknown): Codebook => {
+  const fail = (message: string): never => {
+    throw new Error(`Codebook tidak valid: ${message}`);
+  };
+
+  if (typeof json !== 'object' || json === null) fail('bukan objek JSON.');
+  const raw = json as Partial<Codebook>;
+
+  const scale = raw.scale;
+  if (!scale || typeof scale.min !== 'number' || typeof scale.max !== 'number' || scale.min >= scale.max) {
+    fail('"scale" harus berisi "min" < "max".');
+  }
+
+  if (scale?.labels !== undefined && (!Array.isArray(scale.labels) || scale.labels.length !== scale.max - scale.min + 1)) {
+    fail('"scale.labels" harus berisi satu label untuk setiap titik skala.');
+  }
+
+  if (!Array.isArray(raw.constructs) || raw.constructs.length === 0) {
+    fail('"constructs" harus berisi minimal satu konstruk.');
+  }
+
+  const keys = new Set<string>();
+  const itemIds = new Set<string>();
+  const checkItem = (item: CodebookItem, owner: string) => {
+    if (!item || typeof item.id !== 'string') fail(`item pada ${owner} tidak memiliki "id".`);
+    if (itemIds.has(item.id)) fail(`id item "${item.id}" duplikat.`);
+    itemIds.add(item.id);
+    if (typeof item.header !== 'string' && typeof item.column !== 'number') {
+      fail(`item "${item.id}" harus memiliki "header" atau "column".`);
+    }
+    if (item.reverse !== undefined && typeof item.reverse !== 'boolean') {
+      fail(`"reverse" pada item "${item.id}" harus true atau false.`);
+    }
+  };
+
+  raw.constructs!.forEach((c, idx) => {
+    if (!c || typeof c.key !== 'string' || !c.key) fail(`konstruk #${idx + 1} tidak memiliki "key".`);
+    if (keys.has(c.key)) fail(`key konstruk "${c.key}" duplikat.`);
+    keys.add(c.key);
+    if (typeof c.label !== 'string') fail(`konstruk "${c.key}" tidak memiliki "label".`);
+    if (!isHexColor(c.color)) fail(`warna konstruk "${c.key}" harus berformat hex (#rrggbb).`);
+    if (!Array.isArray(c.items) || c.items.length === 0) fail(`konstruk "${c.key}" tidak memiliki item.`);
+    c.items.forEach(item => checkItem(item, `konstruk "${c.key}"`));
+  });
+
+  if (raw.additionalItems !== undefined) {
+    if (!Array.isArray(raw.additionalItems)) fail('"additionalItems" harus berupa daftar item.');
+    raw.additionalItems!.forEach(item => checkItem(item, '"additionalItems"'));
+  }
+
+  const group = raw.usageGroup;
+  if (!group || !itemIds.has(group.item) || typeof group.threshold !== 'number' || !group.high || !group.low) {
+    fail('"usageGroup" harus merujuk ke id item yang ada dan memiliki "threshold", "high", "low".');
+  }
+
+  const screening = raw.screening;
+  if (screening?.eligibility && !Array.isArray(screening.eligibility.accept)) {
+    fail('"screening.eligibility.accept" harus berupa daftar jawaban yang memenuhi kriteria.');
+  }
+
+  if (typeof raw.outcome !== 'string' || !keys.has(raw.outcome)) {
+    fail('"outcome" harus berisi key salah satu konstruk.');
+  }
+
+  return raw as Codebook;
+};
+
+// Map every item to a concrete column of the CSV. Header matching ignores case
+// and whitespace; if no exact match exists, a unique header that starts with the
+// declared text is accepted (Google Forms sometimes appends stray characters).
+export const resolveCodebook = (codebook: Codebook, headers: string[]): ResolvedCodebook => {
+  const normalized = headers.map(normalizeHeader);
+
+  const findColumn = (ref: ColumnRef, name: string): number => {
+    let column = -1;
+
+    if (typeof ref.header === 'string') {
+      const target = normalizeHeader(ref.header);
+      column = normalized.indexOf(target);
+      if (column === -1) {
+        const candidates = normalized
+          .map((h, i) => (h.startsWith(target) ? i : -1))
+          .filter(i => i !== -1);
+        if (candidates.length > 1) {
+          throw new Error(`Header untuk ${name} ambigu (cocok dengan ${candidates.length} kolom).`);
+        }
+        column = candidates.length === 1 ? candidates[0] : -1;
+      }
+    } else if (typeof ref.column === 'number' && ref.column >= 0 && ref.column < headers.length) {
+      column = ref.column;
+    }
+
+    if (column === -1) {
+      throw new Error(`Kolom untuk ${name} tidak ditemukan di CSV.`);
+    }
+    return column;
+  };
+
+  const resolveItem = (item: CodebookItem): ResolvedItem => {
+    const column = findColumn(item, `item "${item.id}" (${item.label})`);
+    return { ...item, column, header: headers[column].trim() };
+  };
+
+  const constructs = codebook.constructs.map(c => ({ ...c, items: c.items.map(resolveItem) }));
+  const items = constructs.flatMap(c => c.items);
+  const additionalItems = (codebook.additionalItems ?? []).map(resolveItem);
+
+  const screening = codebook.screening ?? {};
+
+  return {
+    ...codebook,
+    constructs,
+    items,
+    additionalItems,
+    allItems: [...items, ...additionalItems],
+    timestampColumn: screening.timestamp ? findColumn(screening.timestamp, 'timestamp') : null,
+    eligibility: screening.eligibility
+      ? { column: findColumn(screening.eligibility, 'kriteria responden'), accept: screening.eligibility.accept }
+      : null,
+  };
+};
+
+export const loadCodebook = async (url: string): Promise<Codebook> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error("File codebook tidak ditemukan.");
+  }
+  return parseCodebook(await response.json());
+};
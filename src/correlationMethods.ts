@@ -0,0 +1,435 @@
+// =================================================================================
+// METODE KORELASI: Spearman, Pearson, Kendall tau-b, dan polikorik
+// =================================================================================
+import { ResolvedConstruct } from './codebook';
+import { correlationMatrix, invertMatrix } from './linalg';
+import {
+  CorrelationTest, EXACT_MAX_N, PERMUTATION_MAX_N, chiSquareUpperTail, normalCdf, normalQuantile,
+  pearsonCorrelation, permutationPValue, rankWithTies, spearmanCorrelation, spearmanTest, studentTTwoSided
+} from './stats';
+import { CorrelationItem, DataItem } from './types';
+
+// --- TYPES ---
+export type CorrelationMethod = 'spearman' | 'pearson' | 'kendall' | 'polychoric';
+
+export const CORRELATION_METHODS: CorrelationMethod[] = ['spearman', 'kendall', 'polychoric', 'pearson'];
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  spearman: 'Spearman',
+  pearson: 'Pearson',
+  kendall: 'Kendall tau-b',
+  polychoric: 'Polikorik',
+};
+
+export const CORRELATION_SYMBOLS: Record<CorrelationMethod, string> = {
+  spearman: 'ρ',
+  pearson: 'r',
+  kendall: 'τb',
+  polychoric: 'ρpc',
+};
+
+// Partial correlations come from inverting a Pearson-type correlation matrix,
+// which is only defined for these measures (Spearman = Pearson on ranks)
+export const PARTIAL_METHODS: CorrelationMethod[] = ['spearman', 'pearson'];
+
+// Polychoric correlation assumes each variable is one ordinal item cut from a
+// latent normal. Construct scores average several items and take 10+ distinct
+// values, so they are not ordinal categories and only these methods apply
+export const COMPOSITE_METHODS: CorrelationMethod[] = ['spearman', 'kendall', 'pearson'];
+
+export const COMPOSITE_UNAVAILABLE_NOTE =
+  'Polikorik hanya valid untuk item ordinal tunggal; skor konstruk adalah rata-rata beberapa item, bukan kategori berurutan.';
+
+// Rank-based measures handle ties by average ranks or tie corrections, so the
+// tie counts are only worth reporting for them
+export const RANK_BASED_METHODS: CorrelationMethod[] = ['spearman', 'kendall'];
+
+// --- HELPER FUNCTIONS ---
+
+// Sizes of the groups of tied values (only groups of two or more)
+const tieGroupSizes = (values: number[]): number[] => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return [...counts.values()].filter(t => t > 1);
+};
+
+// Fisher-z interval with the given standard error on the z scale
+const fisherInterval = (r: number, se: number, alpha: number): [number, number] => {
+  const z = Math.atanh(Math.max(-0.999999, Math.min(0.999999, r)));
+  const crit = normalQuantile(1 - alpha / 2);
+  return [Math.tanh(z - crit * se), Math.tanh(z + crit * se)];
+};
+
+// --- KENDALL TAU-B ---
+
+// Kendall's S statistic: concordant minus discordant pairs
+const kendallS = (x: number[], y: number[]): number => {
+  let s = 0;
+  for (let i = 0; i < x.length; i++) {
+    for (let j = i + 1; j < x.length; j++) {
+      s += Math.sign(x[i] - x[j]) * Math.sign(y[i] - y[j]);
+    }
+  }
+  return s;
+};
+
+// Tau-b divides S by the geometric mean of the untied pair counts, so a
+// perfect monotone relation reaches ±1 even with ties (matches SciPy/SPSS)
+export const kendallTauB = (x: number[], y: number[]): number => {
+  const n = x.length;
+  if (n !== y.length || n < 2) return 0;
+  const pairs = (n * (n - 1)) / 2;
+  const tiedX = tieGroupSizes(x).reduce((sum, t) => sum + (t * (t - 1)) / 2, 0);
+  const tiedY = tieGroupSizes(y).reduce((sum, t) => sum + (t * (t - 1)) / 2, 0);
+  const denominator = Math.sqrt((pairs - tiedX) * (pairs - tiedY));
+  // A constant variable has no defined correlation; report 0 like pearsonCorrelation
+  return denominator > 0 ? kendallS(x, y) / denominator : 0;
+};
+
+// Null variance of S corrected for ties in both variables (Kendall, 1970)
+const kendallVariance = (x: number[], y: number[]): number => {
+  const n = x.length;
+  const tx = tieGroupSizes(x);
+  const ty = tieGroupSizes(y);
+  const sum = (ties: number[], f: (t: number) => number) => ties.reduce((acc, t) => acc + f(t), 0);
+  const v0 = n * (n - 1) * (2 * n + 5);
+  const vt = sum(tx, t => t * (t - 1) * (2 * t + 5));
+  const vu = sum(ty, t => t * (t - 1) * (2 * t + 5));
+  const v1 = (sum(tx, t => t * (t - 1)) * sum(ty, t => t * (t - 1))) / (2 * n * (n - 1));
+  const v2 = (sum(tx, t => t * (t - 1) * (t - 2)) * sum(ty, t => t * (t - 1) * (t - 2))) / (9 * n * (n - 1) * (n - 2));
+  return (v0 - vt - vu) / 18 + v1 + v2;
+};
+
+// --- POLYCHORIC ---
+
+// Gauss-Legendre nodes and weights on [-1, 1] (positive half) for 6, 12 and 20 points
+const GAUSS_LEGENDRE: { x: number[]; w: number[] }[] = [
+  {
+    x: [0.9324695142031522, 0.6612093864662647, 0.2386191860831970],
+    w: [0.1713244923791705, 0.3607615730481384, 0.4679139345726904],
+  },
+  {
+    x: [0.9815606342467191, 0.9041172563704750, 0.7699026741943050, 0.5873179542866171, 0.3678314989981802, 0.1252334085114692],
+    w: [0.04717533638651177, 0.1069393259953183, 0.1600783285433464, 0.2031674267230659, 0.2334925365383547, 0.2491470458134029],
+  },
+  {
+    x: [
+      0.9931285991850949, 0.9639719272779138, 0.9122344282513259, 0.8391169718222188, 0.7463319064601508,
+      0.6360536807265150, 0.5108670019508271, 0.3737060887154196, 0.2277858511416451, 0.07652652113349733,
+    ],
+    w: [
+      0.01761400713915212, 0.04060142980038694, 0.06267204833410906, 0.08327674157670475, 0.1019301198172404,
+      0.1181945319615184, 0.1316886384491766, 0.1420961093183821, 0.1491729864726037, 0.1527533871307259,
+    ],
+  },
+];
+
+// Upper bivariate normal probability P(X > h, Y > k) with correlation r
+// (Drezner & Wesolowsky, 1990, in Genz's BVNU formulation)
+const bivariateNormalUpper = (h: number, k: number, r: number): number => {
+  if (h === Infinity || k === Infinity) return 0;
+  if (h === -Infinity) return k === -Infinity ? 1 : normalCdf(-k);
+  if (k === -Infinity) return normalCdf(-h);
+  if (r === 0) return normalCdf(-h) * normalCdf(-k);
+
+  const rule = GAUSS_LEGENDRE[Math.abs(r) < 0.3 ? 0 : Math.abs(r) < 0.75 ? 1 : 2];
+  const nodes = [...rule.x.map(x => 1 - x), ...rule.x.map(x => 1 + x)];
+  const weights = [...rule.w, ...rule.w];
+  const twoPi = 2 * Math.PI;
+  let hk = h * k;
+  let bvn = 0;
+
+  if (Math.abs(r) < 0.925) {
+    const hs = (h * h + k * k) / 2;
+    const asr = Math.asin(r) / 2;
+    nodes.forEach((x, i) => {
+      const sn = Math.sin(asr * x);
+      bvn += weights[i] * Math.exp((sn * hk - hs) / (1 - sn * sn));
+    });
+    return Math.max(0, Math.min(1, (bvn * asr) / twoPi + normalCdf(-h) * normalCdf(-k)));
+  }
+
+  if (r < 0) {
+    k = -k;
+    hk = -hk;
+  }
+  if (Math.abs(r) < 1) {
+    const as = 1 - r * r;
+    let a = Math.sqrt(as);
+    const bs = (h - k) ** 2;
+    const c = (4 - hk) / 8;
+    const d = (12 - hk) / 80;
+    let asr = -(bs / as + hk) / 2;
+    if (asr > -100) bvn = a * Math.exp(asr) * (1 - (c * (bs - as) * (1 - d * bs)) / 3 + c * d * as * as);
+    if (hk > -100) {
+      const b = Math.sqrt(bs);
+      const sp = Math.sqrt(twoPi) * normalCdf(-b / a);
+      bvn -= Math.exp(-hk / 2) * sp * b * (1 - (c * bs * (1 - d * bs)) / 3);
+    }
+    a /= 2;
+    let sum = 0;
+    nodes.forEach((x, i) => {
+      const xs = (a * x) ** 2;
+      asr = -(bs / xs + hk) / 2;
+      if (asr <= -100) return;
+      const sp = 1 + c * xs * (1 + 5 * d * xs);
+      const rs = Math.sqrt(1 - xs);
+      const ep = Math.exp((-(hk / 2) * xs) / (1 + rs) ** 2) / rs;
+      sum += weights[i] * Math.exp(asr) * (sp - ep);
+    });
+    bvn = (a * sum - bvn) / twoPi;
+  }
+  if (r > 0) {
+    bvn += normalCdf(-Math.max(h, k));
+  } else if (h >= k) {
+    bvn = -bvn;
+  } else {
+    const between = h < 0 ? normalCdf(k) - normalCdf(h) : normalCdf(-h) - normalCdf(-k);
+    bvn = between - bvn;
+  }
+  return Math.max(0, Math.min(1, bvn));
+};
+
+// Lower bivariate normal probability P(X ≤ h, Y ≤ k)
+export const bivariateNormalCdf = (h: number, k: number, r: number): number =>
+  bivariateNormalUpper(-h, -k, r);
+
+// Thresholds of the latent normal variable from the cumulative category shares;
+// the outer thresholds are ±∞
+const categoryThresholds = (codes: number[], categories: number): number[] => {
+  const counts = new Array(categories).fill(0);
+  codes.forEach(c => counts[c]++);
+  const thresholds = [-Infinity];
+  let cumulative = 0;
+  for (let c = 0; c < categories - 1; c++) {
+    cumulative += counts[c];
+    thresholds.push(normalQuantile(cumulative / codes.length));
+  }
+  thresholds.push(Infinity);
+  return thresholds;
+};
+
+// Two-step polychoric estimation (Olsson, 1979): thresholds come from the
+// marginals, then ρ maximises the multinomial likelihood of the contingency
+// table. Each distinct value is treated as one ordered category.
+const polychoricFit = (x: number[], y: number[]) => {
+  const levelsX = [...new Set(x)].sort((a, b) => a - b);
+  const levelsY = [...new Set(y)].sort((a, b) => a - b);
+  if (levelsX.length < 2 || levelsY.length < 2) return null;
+
+  const codesX = x.map(v => levelsX.indexOf(v));
+  const codesY = y.map(v => levelsY.indexOf(v));
+  const table = levelsX.map(() => new Array(levelsY.length).fill(0));
+  codesX.forEach((cx, i) => table[cx][codesY[i]]++);
+  const a = categoryThresholds(codesX, levelsX.length);
+  const b = categoryThresholds(codesY, levelsY.length);
+
+  const logLikelihood = (r: number): number => {
+    const cdf = a.map(ai => b.map(bj => bivariateNormalCdf(ai, bj, r)));
+    let ll = 0;
+    table.forEach((row, i) => row.forEach((count, j) => {
+      if (count === 0) return;
+      const p = cdf[i + 1][j + 1] - cdf[i][j + 1] - cdf[i + 1][j] + cdf[i][j];
+      ll += count * Math.log(Math.max(p, 1e-300));
+    }));
+    return ll;
+  };
+
+  // Golden-section search; the profile likelihood in ρ is unimodal in practice
+  const LIMIT = 0.9999;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = -LIMIT;
+  let high = LIMIT;
+  let c = high - ratio * (high - low);
+  let d = low + ratio * (high - low);
+  let fc = logLikelihood(c);
+  let fd = logLikelihood(d);
+  while (high - low > 1e-6) {
+    if (fc > fd) {
+      high = d;
+      d = c;
+      fd = fc;
+      c = high - ratio * (high - low);
+      fc = logLikelihood(c);
+    } else {
+      low = c;
+      c = d;
+      fc = fd;
+      d = low + ratio * (high - low);
+      fd = logLikelihood(d);
+    }
+  }
+  const rho = (low + high) / 2;
+  return { rho, maxLogLikelihood: logLikelihood(rho), logLikelihood, LIMIT };
+};
+
+export const polychoricCorrelation = (x: number[], y: number[]): number =>
+  polychoricFit(x, y)?.rho ?? 0;
+
+// Likelihood-ratio test of ρ = 0 and a profile-likelihood interval: the bounds
+// are where the log-likelihood drops by half the chi-square critical value
+const polychoricTest = (x: number[], y: number[], alpha: number): Omit<CorrelationTest, 'tiesX' | 'tiesY'> => {
+  const n = x.length;
+  const fit = polychoricFit(x, y);
+  if (!fit) return { rho: 0, pValue: 1, ciLower: -1, ciUpper: 1, method: 'likelihood-ratio', n };
+
+  const { rho, maxLogLikelihood, logLikelihood, LIMIT } = fit;
+  const statistic = Math.max(0, 2 * (maxLogLikelihood - logLikelihood(0)));
+  const cutoff = maxLogLikelihood - normalQuantile(1 - alpha / 2) ** 2 / 2;
+  const bound = (outer: number): number => {
+    if (logLikelihood(outer) >= cutoff) return outer;
+    let inside = rho;
+    let outside = outer;
+    for (let iter = 0; iter < 40; iter++) {
+      const mid = (inside + outside) / 2;
+      if (logLikelihood(mid) >= cutoff) inside = mid;
+      else outside = mid;
+    }
+    return (inside + outside) / 2;
+  };
+
+  return {
+    rho,
+    pValue: chiSquareUpperTail(statistic, 1),
+    ciLower: bound(-LIMIT),
+    ciUpper: bound(LIMIT),
+    method: 'likelihood-ratio',
+    n,
+  };
+};
+
+// --- TESTS ---
+
+// Pearson's r: permutation test for small n (as for Spearman), otherwise the
+// t-test with n - 2 df; Fisher-z interval with SE 1 / sqrt(n - 3)
+const pearsonTest = (x: number[], y: number[], alpha: number): Omit<CorrelationTest, 'tiesX' | 'tiesY'> => {
+  const n = x.length;
+  const r = pearsonCorrelation(x, y);
+  const [ciLower, ciUpper] = n < 4 ? [-1, 1] : fisherInterval(r, 1 / Math.sqrt(n - 3), alpha);
+  if (n < 3) return { rho: r, pValue: 1, ciLower, ciUpper, method: 'exact', n };
+  if (n <= PERMUTATION_MAX_N) {
+    const exact = n <= EXACT_MAX_N;
+    return { rho: r, pValue: permutationPValue(x, y, pearsonCorrelation, exact), ciLower, ciUpper, method: exact ? 'exact' : 'permutation', n };
+  }
+  const df = n - 2;
+  const t = Math.abs(r) >= 1 ? Infinity : r * Math.sqrt(df / (1 - r * r));
+  return { rho: r, pValue: studentTTwoSided(t, df), ciLower, ciUpper, method: 't-approx', n };
+};
+
+// Kendall's tau-b: permutation test for small n, otherwise the normal
+// approximation of S with the tie-corrected variance; Fisher-z interval with
+// the Fieller-Hartley-Pearson SE sqrt(0.437 / (n - 4))
+const kendallTest = (x: number[], y: number[], alpha: number): Omit<CorrelationTest, 'tiesX' | 'tiesY'> => {
+  const n = x.length;
+  const tau = kendallTauB(x, y);
+  const [ciLower, ciUpper] = n < 5 ? [-1, 1] : fisherInterval(tau, Math.sqrt(0.437 / (n - 4)), alpha);
+  if (n < 3) return { rho: tau, pValue: 1, ciLower, ciUpper, method: 'exact', n };
+  if (n <= PERMUTATION_MAX_N) {
+    const exact = n <= EXACT_MAX_N;
+    // Permuting y leaves the tie corrections unchanged, so |S| orders the permutations like |τb|
+    return { rho: tau, pValue: permutationPValue(x, y, kendallS, exact), ciLower, ciUpper, method: exact ? 'exact' : 'permutation', n };
+  }
+  const variance = kendallVariance(x, y);
+  const z = variance > 0 ? kendallS(x, y) / Math.sqrt(variance) : 0;
+  return { rho: tau, pValue: 2 * normalCdf(-Math.abs(z)), ciLower, ciUpper, method: 'z-approx', n };
+};
+
+export const correlationCoefficient = (method: CorrelationMethod, x: number[], y: number[]): number => {
+  switch (method) {
+    case 'spearman': return spearmanCorrelation(x, y);
+    case 'pearson': return pearsonCorrelation(x, y);
+    case 'kendall': return kendallTauB(x, y);
+    case 'polychoric': return polychoricCorrelation(x, y);
+  }
+};
+
+// Coefficient, two-sided p-value and 1 - alpha interval for the chosen measure
+export const correlationTest = (method: CorrelationMethod, x: number[], y: number[], alpha: number): CorrelationTest => {
+  if (method === 'spearman') return spearmanTest(x, y, alpha);
+  const ties = { tiesX: rankWithTies(x).tiedCount, tiesY: rankWithTies(y).tiedCount };
+  const n = Math.min(x.length, y.length);
+  const [xs, ys] = [x.slice(0, n), y.slice(0, n)];
+  switch (method) {
+    case 'pearson': return { ...pearsonTest(xs, ys, alpha), ...ties };
+    case 'kendall': return { ...kendallTest(xs, ys, alpha), ...ties };
+    case 'polychoric': return { ...polychoricTest(xs, ys, alpha), ...ties };
+  }
+};
+
+// --- PARTIAL CORRELATION ---
+
+// Correlation of x and y with the controls held constant, read off the inverse
+// of the correlation matrix: -P12 / sqrt(P11 * P22). Spearman works on ranks.
+export const partialCorrelation = (method: CorrelationMethod, x: number[], y: number[], controls: number[][]): number => {
+  const columns = [x, y, ...controls].map(col => (method === 'spearman' ? rankWithTies(col).ranks : col));
+  const precision = invertMatrix(correlationMatrix(columns));
+  if (!precision || precision[0][0] <= 0 || precision[1][1] <= 0) return NaN;
+  return Math.max(-1, Math.min(1, -precision[0][1] / Math.sqrt(precision[0][0] * precision[1][1])));
+};
+
+// t-test with n - 2 - k df for k controls; Fisher-z interval with SE
+// 1 / sqrt(n - 3 - k), inflated to sqrt(1.06 / (n - 3 - k)) for Spearman
+export const partialCorrelationTest = (
+  method: CorrelationMethod,
+  x: number[],
+  y: number[],
+  controls: number[][],
+  alpha: number
+): CorrelationTest => {
+  const n = Math.min(x.length, y.length);
+  const k = controls.length;
+  const r = partialCorrelation(method, x, y, controls);
+  const ties = { tiesX: rankWithTies(x).tiedCount, tiesY: rankWithTies(y).tiedCount };
+  const df = n - 2 - k;
+  if (isNaN(r) || df < 1) {
+    return { rho: isNaN(r) ? 0 : r, pValue: 1, ciLower: -1, ciUpper: 1, method: 't-approx', n, ...ties };
+  }
+  const se = Math.sqrt((method === 'spearman' ? 1.06 : 1) / (n - 3 - k));
+  const [ciLower, ciUpper] = n - 3 - k > 0 ? fisherInterval(r, se, alpha) : [-1, 1];
+  const t = Math.abs(r) >= 1 ? Infinity : r * Math.sqrt(df / (1 - r * r));
+  return { rho: r, pValue: studentTTwoSided(t, df), ciLower, ciUpper, method: 't-approx', n, ...ties };
+};
+
+// --- MATRIX ---
+
+// Calculate all correlations between the codebook constructs. With controls the
+// pairs among the remaining constructs get partial correlations instead.
+export const calculateCorrelationMatrix = (
+  data: DataItem[],
+  allConstructs: ResolvedConstruct[],
+  alpha: number,
+  method: CorrelationMethod = 'spearman',
+  controls: ResolvedConstruct[] = []
+): CorrelationItem[] => {
+  const matrix: CorrelationItem[] = [];
+  const constructs = allConstructs.filter(c => !controls.includes(c));
+  const controlColumns = controls.map(c => data.map(d => d.scores[c.key]));
+  
+  for (let i = 0; i < constructs.length; i++) {
+    for (let j = i + 1; j < constructs.length; j++) {
+      const x = data.map(d => d.scores[constructs[i].key]);
+      const y = data.map(d => d.scores[constructs[j].key]);
+      const test = controls.length > 0
+        ? partialCorrelationTest(method, x, y, controlColumns, alpha)
+        : correlationTest(method, x, y, alpha);
+      
+      matrix.push({
+        var1: constructs[i].key,
+        var2: constructs[j].key,
+        label1: constructs[i].label,
+        label2: constructs[j].label,
+        correlation: parseFloat(test.rho.toFixed(3)),
+        pValue: test.pValue,
+        ciLower: test.ciLower,
+        ciUpper: test.ciUpper,
+        method: test.method,
+        n: test.n,
+        tiesX: test.tiesX,
+        tiesY: test.tiesY,
+        significant: test.pValue < alpha
+      });
+    }
+  }
+  
+  return matrix.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+};
@@ -0,0 +1,184 @@
+// =================================================================================
+// DATASET: pembacaan CSV/XLSX dan penghitungan skor konstruk
+// =================================================================================
+import { Codebook, ResolvedCodebook, resolveCodebook, reverseScore } from './codebook';
+import {
+  DEFAULT_STRAIGHT_LINING_MIN_ITEMS, isStraightLining, markDuplicateTimestamps, parseLikertValue
+} from './screening';
+import { DataItem, ScreeningIssue } from './types';
+
+// --- TYPES ---
+export interface SheetTable {
+  name: string;
+  rows: string[][];   // First row is the header row
+  lines: number[];    // Source line (CSV) or sheet row (spreadsheet) where each row starts
+}
+
+export interface ParsedDataset {
+  respondents: DataItem[];   // Every response row, before screening
+  codebook: ResolvedCodebook;
+}
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods'];
+export const ACCEPTED_FILE_TYPES = ['.csv', ...SPREADSHEET_EXTENSIONS].join(',');
+
+// --- CSV PARSING LOGIC ---
+
+// Quote-aware CSV parser (RFC 4180): handles commas and line breaks inside quoted
+// cells and doubled quotes. Semicolon-separated files (Excel with an Indonesian
+// locale) are detected from the header row. Blank lines are skipped, so each
+// row keeps the line it starts on for messages that point back to the file.
+export const parseCSV = (text: string): Pick<SheetTable, 'rows' | 'lines'> => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  const starts: number[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        // Line breaks inside a quoted cell still advance the file line
+        if (ch === '\n' || (ch === '\r' && source[i + 1] !== '\n')) line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      starts.push(rowStart);
+      row = [];
+      cell = '';
+      line++;
+      rowStart = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+    starts.push(rowStart);
+  }
+
+  const kept = rows.map((r, i) => ({ cells: r.map(v => v.trim()), line: starts[i] })).filter(r => r.cells.some(v => v !== ''));
+  return { rows: kept.map(r => r.cells), lines: kept.map(r => r.line) };
+};
+
+// lines holds the source line of each row; without it rows are numbered as if
+// the file had no blank or multi-line rows
+export const parseSurveyRows = (rows: string[][], codebook: Codebook, lines?: number[]): ParsedDataset => {
+  if (rows.length < 2) {
+    throw new Error("Data kosong: tidak ada baris jawaban setelah header.");
+  }
+
+  const resolved = resolveCodebook(codebook, rows[0]);
+  const straightLiningMinItems = Math.min(
+    resolved.screening?.straightLiningMinItems ?? DEFAULT_STRAIGHT_LINING_MIN_ITEMS,
+    resolved.items.length
+  );
+  const acceptedAnswers = resolved.eligibility?.accept.map(a => a.trim().toLowerCase()) ?? [];
+
+  const respondents = rows.slice(1).map((values, index): DataItem => {
+    const issues: ScreeningIssue[] = [];
+
+    const responses: Record<string, number> = {};
+    const items: Record<string, number> = {};
+    const missing: string[] = [];
+    const invalid: string[] = [];
+    resolved.allItems.forEach(item => {
+      const { value, invalid: isInvalid } = parseLikertValue(values[item.column], resolved.scale);
+      responses[item.id] = value;
+      items[item.id] = item.reverse ? reverseScore(value, resolved.scale) : value;
+      if (isInvalid) invalid.push(`${item.id} = "${values[item.column]}"`);
+      else if (isNaN(value)) missing.push(item.id);
+    });
+    if (invalid.length > 0) issues.push({ flag: 'outOfRange', detail: invalid.join(', ') });
+    if (missing.length > 0) issues.push({ flag: 'missing', detail: missing.join(', ') });
+    // Straight-lining is judged on the answers as given, before reverse scoring
+    const answers = resolved.items.map(item => responses[item.id]);
+    if (isStraightLining(answers, straightLiningMinItems)) {
+      issues.push({ flag: 'straightLining', detail: `Semua item dijawab ${answers.find(v => !isNaN(v))}` });
+    }
+
+    const eligibilityAnswer = resolved.eligibility ? (values[resolved.eligibility.column] ?? '').trim() : '';
+    const eligible = !resolved.eligibility || acceptedAnswers.includes(eligibilityAnswer.toLowerCase());
+    if (!eligible) {
+      issues.push({ flag: 'ineligible', detail: eligibilityAnswer ? `Jawaban: "${eligibilityAnswer}"` : 'Tidak dijawab' });
+    }
+
+    return {
+      id: index + 1,
+      row: lines?.[index + 1] ?? index + 2,
+      timestamp: resolved.timestampColumn !== null ? (values[resolved.timestampColumn] ?? '').trim() : '',
+      eligible,
+      scores: {},  // Filled in by the missing-data strategy after screening
+      responses,
+      items,
+      usageGroup: null,  // Assigned by the active grouping rule after scoring
+      issues
+    };
+  });
+
+  markDuplicateTimestamps(respondents);
+
+  return {
+    respondents,
+    codebook: resolved
+  };
+};
+
+export const parseCSVData = (csvText: string, codebook: Codebook): ParsedDataset => {
+  const { rows, lines } = parseCSV(csvText);
+  return parseSurveyRows(rows, codebook, lines);
+};
+
+// --- FILE UPLOAD ---
+
+// Read an uploaded CSV or spreadsheet entirely in the browser. Spreadsheets
+// return one table per non-empty sheet; the SheetJS bundle is only loaded when
+// a spreadsheet is actually opened.
+export const readSurveyFile = async (file: File): Promise<SheetTable[]> => {
+  const lowerName = file.name.toLowerCase();
+
+  if (SPREADSHEET_EXTENSIONS.some(ext => lowerName.endsWith(ext))) {
+    const XLSX = await import('xlsx');
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: false });
+    const sheets = workbook.SheetNames.map(name => {
+      // SheetJS tags each row array with its 0-based sheet row (__rowNum__)
+      const kept = XLSX.utils
+        .sheet_to_json<unknown[] & { __rowNum__?: number }>(workbook.Sheets[name], { header: 1, raw: false, defval: '' })
+        .map((r, i) => ({ cells: r.map(v => String(v ?? '').trim()), line: (r.__rowNum__ ?? i) + 1 }))
+        .filter(r => r.cells.some(v => v !== ''));
+      return { name, rows: kept.map(r => r.cells), lines: kept.map(r => r.line) };
+    }).filter(sheet => sheet.rows.length > 0);
+
+    if (sheets.length === 0) {
+      throw new Error("File spreadsheet tidak berisi data.");
+    }
+    return sheets;
+  }
+
+  if (lowerName.endsWith('.csv') || file.type === 'text/csv') {
+    return [{ name: file.name, ...parseCSV(await file.text()) }];
+  }
+
+  throw new Error("Format file tidak didukung. Gunakan CSV atau XLSX hasil ekspor Google Forms.");
+};
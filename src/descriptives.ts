@@ -0,0 +1,43 @@
+// =================================================================================
+// DESKRIPTIF: ringkasan skor konstruk
+// =================================================================================
+import { ResolvedConstruct } from './codebook';
+import { quantile } from './groupTests';
+import { mean, standardDeviation } from './linalg';
+import { cronbachAlpha } from './reliability';
+import { DataItem } from './types';
+
+// --- TYPES ---
+export interface ConstructDescriptives {
+  key: string;
+  label: string;
+  items: number;
+  n: number;
+  mean: number;
+  sd: number;
+  median: number;
+  min: number;
+  max: number;
+  alpha: number;           // Cronbach's alpha on respondents who answered every item
+}
+
+// --- HELPER FUNCTIONS ---
+
+export const describeConstructs = (data: DataItem[], constructs: ResolvedConstruct[]): ConstructDescriptives[] =>
+  constructs.map(c => {
+    const sorted = data.map(d => d.scores[c.key]).filter(v => !isNaN(v)).sort((a, b) => a - b);
+    // Same complete-case rule as the reliability tab
+    const complete = data.filter(d => c.items.every(item => !isNaN(d.items[item.id])));
+    return {
+      key: c.key,
+      label: c.label,
+      items: c.items.length,
+      n: sorted.length,
+      mean: sorted.length > 0 ? mean(sorted) : NaN,
+      sd: sorted.length > 1 ? standardDeviation(sorted) : NaN,
+      median: quantile(sorted, 0.5),
+      min: sorted.length > 0 ? sorted[0] : NaN,
+      max: sorted.length > 0 ? sorted[sorted.length - 1] : NaN,
+      alpha: cronbachAlpha(c.items.map(item => complete.map(d => d.items[item.id]))),
+    };
+  });
@@ -0,0 +1,168 @@
+// =================================================================================
+// EKSPOR: grafik ke PNG/SVG dan laporan lengkap ke PDF
+// =================================================================================
+// jsPDF and html-to-image are only needed when the user exports, so both are
+// loaded on demand to keep them out of the initial bundle.
+
+// --- TYPES ---
+export interface ReportMeta {
+  title: string;
+  datasetName: string;
+  n: number;
+  analysisDate: Date;
+  details: string[];      // Extra lines for the title page (screening, missing data, α, ...)
+}
+
+// Rendering scale for PNG exports: 3× the on-screen size is sharp enough for print
+export const PNG_PIXEL_RATIO = 3;
+
+const PAGE_MARGIN_MM = 15;
+
+// --- HELPER FUNCTIONS ---
+
+export const fileSlug = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'grafik';
+
+export const formatAnalysisDate = (date: Date): string =>
+  date.toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// jsPDF's built-in helvetica only covers WinAnsi, so symbols from the UI labels
+// are spelled out and anything else outside Latin-1 is replaced
+const PDF_REPLACEMENTS: Record<string, string> = {
+  '≥': '>=', '≤': '<=', '≠': '!=', '•': '-', '–': '-', '—': '-', '−': '-', '×': 'x', '…': '...',
+  'α': 'alpha', 'ρ': 'rho', 'τ': 'tau', 'χ': 'chi', '²': '2', '→': '->', '↔': '<->', '‘': "'", '’': "'", '“': '"', '”': '"',
+};
+
+const toPdfText = (text: string): string =>
+  text.replace(/[^\x00-\xff]/g, ch =>
+    PDF_REPLACEMENTS[ch] ?? ch.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x00-\xff]/g, '?')
+  );
+
+const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Standalone copy of an on-screen SVG: explicit size, namespace and a white
+// background so it renders the same outside the page
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  if (!clone.getAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.setAttribute('font-family', getComputedStyle(svg).fontFamily);
+
+  const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', '#ffffff');
+  clone.insertBefore(background, clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+};
+
+export const exportSvg = (svg: SVGSVGElement, name: string) => {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), `${fileSlug(name)}.svg`);
+};
+
+// Elements marked data-export-ignore (e.g. the export buttons) are left out
+const includeInExport = (node: HTMLElement): boolean =>
+  !(node instanceof HTMLElement && node.dataset.exportIgnore !== undefined);
+
+// PNG of a whole element (chart plus its HTML legend and labels)
+export const exportPng = async (element: HTMLElement, name: string) => {
+  const { toPng } = await import('html-to-image');
+  const dataUrl = await toPng(element, { pixelRatio: PNG_PIXEL_RATIO, backgroundColor: '#ffffff', filter: includeInExport });
+  downloadUrl(dataUrl, `${fileSlug(name)}.png`);
+};
+
+// Paginated A4 report: a title page, then every element marked with
+// data-report-section, scaled to the page width. Sections taller than the
+// remaining space start on a new page; sections taller than a page are split.
+export const exportReportPdf = async (container: HTMLElement, meta: ReportMeta) => {
+  const [{ jsPDF }, { toPng }] = await Promise.all([import('jspdf'), import('html-to-image')]);
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * PAGE_MARGIN_MM;
+  const contentHeight = pageHeight - 2 * PAGE_MARGIN_MM;
+
+  // Title page
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(22);
+  pdf.text(pdf.splitTextToSize(toPdfText(meta.title), contentWidth), PAGE_MARGIN_MM, 70);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(12);
+  const lines = [
+    `Dataset: ${meta.datasetName}`,
+    `Jumlah responden dianalisis (N): ${meta.n}`,
+    `Tanggal analisis: ${formatAnalysisDate(meta.analysisDate)}`,
+    ...meta.details,
+  ].map(toPdfText);
+  let y = 95;
+  lines.forEach(line => {
+    const wrapped = pdf.splitTextToSize(line, contentWidth) as string[];
+    pdf.text(wrapped, PAGE_MARGIN_MM, y);
+    y += wrapped.length * 6 + 2;
+  });
+
+  pdf.addPage();
+  let cursor = PAGE_MARGIN_MM;
+  const sections = Array.from(container.querySelectorAll<HTMLElement>('[data-report-section]'));
+
+  for (const section of sections) {
+    const dataUrl = await toPng(section, { pixelRatio: 2, backgroundColor: '#ffffff', filter: includeInExport });
+    const image = new Image();
+    image.src = dataUrl;
+    await image.decode();
+    const height = (image.height / image.width) * contentWidth;
+
+    if (height <= contentHeight) {
+      if (cursor + height > pageHeight - PAGE_MARGIN_MM) {
+        pdf.addPage();
+        cursor = PAGE_MARGIN_MM;
+      }
+      pdf.addImage(dataUrl, 'PNG', PAGE_MARGIN_MM, cursor, contentWidth, height);
+      cursor += height + 6;
+      continue;
+    }
+
+    // Slice a tall section into page-sized strips
+    const sliceHeightPx = Math.floor((contentHeight / height) * image.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    const context = canvas.getContext('2d')!;
+    for (let top = 0; top < image.height; top += sliceHeightPx) {
+      const strip = Math.min(sliceHeightPx, image.height - top);
+      canvas.height = strip;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, strip);
+      context.drawImage(image, 0, top, image.width, strip, 0, 0, image.width, strip);
+      if (cursor > PAGE_MARGIN_MM) pdf.addPage();
+      pdf.addImage(canvas.toDataURL('image/png'), 'PNG', PAGE_MARGIN_MM, PAGE_MARGIN_MM, contentWidth, (strip / image.width) * contentWidth);
+      cursor = PAGE_MARGIN_MM + (strip / image.width) * contentWidth + 6;
+    }
+  }
+
+  const totalPages = pdf.getNumberOfPages();
+  for (let page = 2; page <= totalPages; page++) {
+    pdf.setPage(page);
+    pdf.setFontSize(9);
+    pdf.setTextColor(148, 163, 184);
+    pdf.text(toPdfText(`${meta.datasetName} - N = ${meta.n} - ${page - 1}/${totalPages - 1}`), pageWidth / 2, pageHeight - 6, { align: 'center' });
+  }
+
+  pdf.save(`laporan-${fileSlug(meta.datasetName)}.pdf`);
+};
@@ -0,0 +1,417 @@
+// =================================================================================
+// ANALISIS FAKTOR: KMO/Bartlett, parallel analysis, EFA (oblimin), CFA (ML)
+// =================================================================================
+// Everything works on the Pearson correlation matrix of the (reverse-scored)
+// items of respondents who answered every analysed item.
+import { quantile } from './groupTests';
+import {
+  Matrix, correlationMatrix, identity, invertMatrix, multiplyMatrices, symmetricEigen, transpose
+} from './linalg';
+import { chiSquareUpperTail, createRng, normalRandom } from './stats';
+
+// --- TYPES ---
+export interface SamplingAdequacy {
+  kmo: number;
+  itemMsa: number[];        // Measure of sampling adequacy per item
+  bartlettChiSquare: number;
+  bartlettDf: number;
+  bartlettPValue: number;
+}
+
+export interface ParallelAnalysis {
+  observed: number[];       // Eigenvalues of the item correlation matrix
+  randomMean: number[];     // Mean eigenvalues of uncorrelated normal data of the same size
+  randomQuantile: number[]; // PARALLEL_QUANTILE of the random eigenvalues
+  suggestedFactors: number; // Leading observed eigenvalues above the random quantile
+}
+
+export interface EfaResult {
+  loadings: Matrix;         // Pattern matrix, items × factors
+  factorCorrelations: Matrix;
+  communalities: number[];
+  ssLoadings: number[];     // Sum of squared pattern loadings per factor
+  converged: boolean;
+}
+
+export interface CfaResult {
+  n: number;
+  chiSquare: number;
+  df: number;
+  pValue: number;
+  cfi: number;
+  tli: number;
+  rmsea: number;
+  srmr: number;
+  loadings: number[];       // Standardized loading of each item on its declared factor
+  factorCorrelations: Matrix;
+  converged: boolean;
+  heywood: boolean;         // A uniqueness near zero: the solution is improper
+}
+
+export const PARALLEL_ITERATIONS = 100;
+export const PARALLEL_QUANTILE = 0.95;
+const PARALLEL_SEED = 20251217;
+const MAX_ITERATIONS = 1000;
+
+// --- HELPER FUNCTIONS ---
+
+const logDeterminant = (a: Matrix): number => {
+  const { values } = symmetricEigen(a);
+  return values.some(v => v <= 0) ? NaN : values.reduce((sum, v) => sum + Math.log(v), 0);
+};
+
+// Lower Cholesky factor, or null when the matrix is not positive definite
+const cholesky = (a: Matrix): Matrix | null => {
+  const n = a.length;
+  const l = a.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (sum <= 1e-12) return null;
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  return l;
+};
+
+// Kaiser (1974) labels for the KMO statistic
+export const interpretKmo = (kmo: number): { label: string; colorClass: string } => {
+  if (isNaN(kmo)) return { label: 'Tidak dapat dihitung', colorClass: 'text-slate-400' };
+  if (kmo >= 0.9) return { label: 'Sangat Baik', colorClass: 'text-emerald-600' };
+  if (kmo >= 0.8) return { label: 'Baik', colorClass: 'text-emerald-600' };
+  if (kmo >= 0.7) return { label: 'Cukup', colorClass: 'text-blue-600' };
+  if (kmo >= 0.6) return { label: 'Sedang', colorClass: 'text-amber-600' };
+  if (kmo >= 0.5) return { label: 'Buruk', colorClass: 'text-red-600' };
+  return { label: 'Tidak Dapat Diterima', colorClass: 'text-red-700' };
+};
+
+// --- SAMPLING ADEQUACY ---
+
+// KMO compares correlations with anti-image (partial) correlations; Bartlett
+// tests whether the correlation matrix differs from the identity
+export const samplingAdequacy = (columns: number[][]): SamplingAdequacy | null => {
+  const p = columns.length;
+  const n = columns[0]?.length ?? 0;
+  const r = correlationMatrix(columns);
+  const inverse = invertMatrix(r);
+  const logDet = logDeterminant(r);
+  if (!inverse || isNaN(logDet) || n <= p) return null;
+
+  const partial = (i: number, j: number) => -inverse[i][j] / Math.sqrt(inverse[i][i] * inverse[j][j]);
+  let sumR = 0;
+  let sumPartial = 0;
+  const itemMsa = r.map((row, i) => {
+    let itemR = 0;
+    let itemPartial = 0;
+    row.forEach((v, j) => {
+      if (i === j) return;
+      itemR += v * v;
+      itemPartial += partial(i, j) ** 2;
+    });
+    sumR += itemR;
+    sumPartial += itemPartial;
+    return itemR / (itemR + itemPartial);
+  });
+
+  const chi = -(n - 1 - (2 * p + 5) / 6) * logDet;
+  const df = (p * (p - 1)) / 2;
+  return {
+    kmo: sumR / (sumR + sumPartial),
+    itemMsa,
+    bartlettChiSquare: chi,
+    bartlettDf: df,
+    bartlettPValue: chiSquareUpperTail(chi, df),
+  };
+};
+
+// --- PARALLEL ANALYSIS ---
+
+// Horn's parallel analysis on principal-component eigenvalues
+export const parallelAnalysis = (columns: number[][], iterations = PARALLEL_ITERATIONS): ParallelAnalysis => {
+  const p = columns.length;
+  const n = columns[0]?.length ?? 0;
+  const observed = symmetricEigen(correlationMatrix(columns)).values;
+  const random = createRng(PARALLEL_SEED);
+
+  const simulated = Array.from({ length: iterations }, () => {
+    const noise = Array.from({ length: p }, () => Array.from({ length: n }, () => normalRandom(random)));
+    return symmetricEigen(correlationMatrix(noise)).values;
+  });
+  const byPosition = observed.map((_, i) => simulated.map(values => values[i]).sort((a, b) => a - b));
+  const randomMean = byPosition.map(values => values.reduce((a, b) => a + b, 0) / values.length);
+  const randomQuantile = byPosition.map(values => quantile(values, PARALLEL_QUANTILE));
+
+  const firstBelow = observed.findIndex((v, i) => v <= randomQuantile[i]);
+  return {
+    observed,
+    randomMean,
+    randomQuantile,
+    suggestedFactors: Math.max(1, firstBelow === -1 ? observed.length : firstBelow),
+  };
+};
+
+// --- EXPLORATORY FACTOR ANALYSIS ---
+
+// Iterated principal axis factoring, starting from squared multiple correlations
+const principalAxis = (r: Matrix, factors: number): { loadings: Matrix; converged: boolean } => {
+  const p = r.length;
+  const inverse = invertMatrix(r);
+  let communalities = r.map((row, i) =>
+    inverse ? 1 - 1 / inverse[i][i] : Math.max(...row.filter((_, j) => j !== i).map(Math.abs)));
+  let loadings: Matrix = [];
+  let converged = false;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const reduced = r.map((row, i) => row.map((v, j) => (i === j ? communalities[i] : v)));
+    const { values, vectors } = symmetricEigen(reduced);
+    loadings = Array.from({ length: p }, (_, i) =>
+      Array.from({ length: factors }, (_, f) => vectors[f][i] * Math.sqrt(Math.max(values[f], 0))));
+    // Capped just below 1 so a Heywood case does not stop the iteration
+    const next = loadings.map(row => Math.min(0.995, row.reduce((sum, l) => sum + l * l, 0)));
+    const change = Math.max(...next.map((h, i) => Math.abs(h - communalities[i])));
+    communalities = next;
+    if (change < 1e-6) {
+      converged = true;
+      break;
+    }
+  }
+  return { loadings, converged };
+};
+
+// Quartimin criterion and its gradient
+const quartimin = (l: Matrix): { value: number; gradient: Matrix } => {
+  const squared = l.map(row => row.map(v => v * v));
+  // Sum of the other factors' squared loadings in the same row
+  const others = squared.map(row => {
+    const total = row.reduce((a, b) => a + b, 0);
+    return row.map(v => total - v);
+  });
+  return {
+    value: squared.reduce((sum, row, i) => sum + row.reduce((s, v, j) => s + v * others[i][j], 0), 0) / 4,
+    gradient: l.map((row, i) => row.map((v, j) => v * others[i][j])),
+  };
+};
+
+// Oblique rotation with the gradient projection algorithm (Jennrich, 2002)
+const obliminRotation = (a: Matrix): { loadings: Matrix; phi: Matrix; converged: boolean } => {
+  const k = a[0].length;
+  const rotate = (t: Matrix) => {
+    const inverse = invertMatrix(t);
+    if (!inverse) return null;
+    const loadings = multiplyMatrices(a, transpose(inverse));
+    const { value, gradient } = quartimin(loadings);
+    return { loadings, value, gradient: transpose(multiplyMatrices(multiplyMatrices(transpose(loadings), gradient), inverse)).map(row => row.map(v => -v)) };
+  };
+
+  let t = identity(k);
+  let current = rotate(t)!;
+  let step = 1;
+  let converged = false;
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    // Project the gradient onto the manifold of unit-length columns
+    const g = current.gradient;
+    const columnDots = Array.from({ length: k }, (_, j) => t.reduce((sum, row, i) => sum + row[j] * g[i][j], 0));
+    const projected = g.map((row, i) => row.map((v, j) => v - t[i][j] * columnDots[j]));
+    const norm = Math.sqrt(projected.reduce((sum, row) => sum + row.reduce((s, v) => s + v * v, 0), 0));
+    if (norm < 1e-5) {
+      converged = true;
+      break;
+    }
+
+    // Backtracking as in GPFoblq: the last candidate is taken even without
+    // sufficient decrease
+    step *= 2;
+    let next: { t: Matrix; rotation: NonNullable<ReturnType<typeof rotate>> } | null = null;
+    for (let halving = 0; halving <= 10; halving++) {
+      const x = t.map((row, i) => row.map((v, j) => v - step * projected[i][j]));
+      const lengths = Array.from({ length: k }, (_, j) => Math.sqrt(x.reduce((sum, row) => sum + row[j] * row[j], 0)));
+      const candidateT = x.map(row => row.map((v, j) => v / lengths[j]));
+      const candidate = rotate(candidateT);
+      if (candidate) next = { t: candidateT, rotation: candidate };
+      if (candidate && current.value - candidate.value > 0.5 * norm * norm * step) break;
+      step /= 2;
+    }
+    if (!next) break;
+    t = next.t;
+    current = next.rotation;
+  }
+  return { loadings: current.loadings, phi: multiplyMatrices(transpose(t), t), converged };
+};
+
+export const exploratoryFactorAnalysis = (columns: number[][], factors: number): EfaResult | null => {
+  const r = correlationMatrix(columns);
+  if (factors < 1 || factors >= columns.length) return null;
+  const extracted = principalAxis(r, factors);
+  const rotated = factors > 1
+    ? obliminRotation(extracted.loadings)
+    : { loadings: extracted.loadings, phi: [[1]], converged: true };
+
+  // Order factors by explained variance and orient each so its loadings are mostly positive
+  const ss = Array.from({ length: factors }, (_, f) => rotated.loadings.reduce((sum, row) => sum + row[f] ** 2, 0));
+  const order = ss.map((_, f) => f).sort((a, b) => ss[b] - ss[a]);
+  const signs = order.map(f => (rotated.loadings.reduce((sum, row) => sum + row[f], 0) < 0 ? -1 : 1));
+  const loadings = rotated.loadings.map(row => order.map((f, j) => row[f] * signs[j]));
+  const factorCorrelations = order.map((f, i) => order.map((g, j) => rotated.phi[f][g] * signs[i] * signs[j]));
+
+  // Communality of an oblique solution: diag(Λ Φ Λ')
+  const communalities = loadings.map(row =>
+    row.reduce((sum, li, i) => sum + row.reduce((s, lj, j) => s + li * lj * factorCorrelations[i][j], 0), 0));
+
+  return {
+    loadings,
+    factorCorrelations,
+    communalities,
+    ssLoadings: order.map(f => ss[f]),
+    converged: extracted.converged && rotated.converged,
+  };
+};
+
+// --- CONFIRMATORY FACTOR ANALYSIS ---
+
+// Maximum likelihood CFA of a simple structure: every item loads on exactly one
+// factor, factor variances are fixed at 1 and factors correlate freely.
+// Parameters: loadings, factor correlations, log uniquenesses; fitted with BFGS.
+export const confirmatoryFactorAnalysis = (columns: number[][], itemFactor: number[]): CfaResult | null => {
+  const p = columns.length;
+  const n = columns[0]?.length ?? 0;
+  const m = Math.max(...itemFactor) + 1;
+  const s = correlationMatrix(columns);
+  const logDetS = logDeterminant(s);
+  if (isNaN(logDetS) || n <= p) return null;
+
+  const pairs: [number, number][] = [];
+  for (let a = 0; a < m; a++) for (let b = a + 1; b < m; b++) pairs.push([a, b]);
+
+  const unpack = (theta: number[]) => {
+    const lambda = theta.slice(0, p);
+    const phi = identity(m);
+    pairs.forEach(([a, b], i) => {
+      phi[a][b] = theta[p + i];
+      phi[b][a] = theta[p + i];
+    });
+    const psi = theta.slice(p + pairs.length).map(Math.exp);
+    const sigma = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) =>
+      lambda[i] * lambda[j] * phi[itemFactor[i]][itemFactor[j]] + (i === j ? psi[i] : 0)));
+    return { lambda, phi, psi, sigma };
+  };
+
+  // F_ML = ln|Σ| + tr(SΣ⁻¹) − ln|S| − p, with its analytic gradient
+  const evaluate = (theta: number[]): { value: number; gradient: number[] } | null => {
+    const { lambda, phi, psi, sigma } = unpack(theta);
+    const chol = cholesky(sigma);
+    const inverse = chol ? invertMatrix(sigma) : null;
+    if (!chol || !inverse) return null;
+    const logDet = 2 * chol.reduce((sum, row, i) => sum + Math.log(row[i]), 0);
+    const sInv = multiplyMatrices(s, inverse);
+    const value = logDet + sInv.reduce((sum, row, i) => sum + row[i], 0) - logDetS - p;
+
+    // Ω = Σ⁻¹(Σ − S)Σ⁻¹
+    const omega = multiplyMatrices(
+      multiplyMatrices(inverse, sigma.map((row, i) => row.map((v, j) => v - s[i][j]))),
+      inverse
+    );
+    const gradient = [
+      ...lambda.map((_, i) => 2 * omega[i].reduce((sum, w, j) => sum + w * lambda[j] * phi[itemFactor[i]][itemFactor[j]], 0)),
+      ...pairs.map(([a, b]) => {
+        let sum = 0;
+        for (let i = 0; i < p; i++) {
+          for (let j = 0; j < p; j++) {
+            if (itemFactor[i] === a && itemFactor[j] === b) sum += omega[i][j] * lambda[i] * lambda[j];
+          }
+        }
+        return 2 * sum;
+      }),
+      ...psi.map((v, i) => omega[i][i] * v),
+    ];
+    return { value, gradient };
+  };
+
+  // Start: loadings of 0.7, uncorrelated factors, uniqueness 0.5
+  let theta = [...new Array<number>(p).fill(0.7), ...new Array<number>(pairs.length).fill(0), ...new Array<number>(p).fill(Math.log(0.5))];
+  let current = evaluate(theta);
+  if (!current) return null;
+  const q = theta.length;
+  let h = identity(q);
+  let converged = false;
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    if (Math.max(...current.gradient.map(Math.abs)) < 1e-6) {
+      converged = true;
+      break;
+    }
+    const direction = h.map(row => -row.reduce((sum, v, j) => sum + v * current!.gradient[j], 0));
+    const slope = direction.reduce((sum, d, i) => sum + d * current!.gradient[i], 0);
+    if (slope >= 0) {
+      h = identity(q);     // Not a descent direction: restart from steepest descent
+      continue;
+    }
+
+    let step = 1;
+    let next: { value: number; gradient: number[] } | null = null;
+    let nextTheta = theta;
+    for (let halving = 0; halving < 40; halving++) {
+      nextTheta = theta.map((v, i) => v + step * direction[i]);
+      next = evaluate(nextTheta);
+      if (next && next.value <= current.value + 1e-4 * step * slope) break;
+      next = null;
+      step /= 2;
+    }
+    if (!next) break;
+
+    // BFGS update of the inverse Hessian approximation
+    const sVec = nextTheta.map((v, i) => v - theta[i]);
+    const yVec = next.gradient.map((g, i) => g - current!.gradient[i]);
+    const sy = sVec.reduce((sum, v, i) => sum + v * yVec[i], 0);
+    if (sy > 1e-12) {
+      const hy = h.map(row => row.reduce((sum, v, j) => sum + v * yVec[j], 0));
+      const yhy = yVec.reduce((sum, v, i) => sum + v * hy[i], 0);
+      h = h.map((row, i) => row.map((v, j) =>
+        v + ((sy + yhy) * sVec[i] * sVec[j]) / (sy * sy) - (hy[i] * sVec[j] + sVec[i] * hy[j]) / sy));
+    }
+    const improvement = current.value - next.value;
+    theta = nextTheta;
+    current = next;
+    if (improvement < 1e-12) {
+      converged = Math.max(...current.gradient.map(Math.abs)) < 1e-4;
+      break;
+    }
+  }
+
+  const { lambda, phi, psi, sigma } = unpack(theta);
+  const chiSquare = (n - 1) * current.value;
+  const df = (p * (p + 1)) / 2 - q;
+  const nullChiSquare = -(n - 1) * logDetS;
+  const nullDf = (p * (p - 1)) / 2;
+  const excess = Math.max(chiSquare - df, 0);
+
+  let residualSum = 0;
+  for (let i = 0; i < p; i++) {
+    for (let j = 0; j <= i; j++) {
+      residualSum += (s[i][j] - sigma[i][j] / Math.sqrt(sigma[i][i] * sigma[j][j])) ** 2;
+    }
+  }
+
+  // Orient each factor so its loadings are mostly positive
+  const signs = Array.from({ length: m }, (_, f) =>
+    lambda.reduce((sum, l, i) => sum + (itemFactor[i] === f ? l : 0), 0) < 0 ? -1 : 1);
+
+  return {
+    n,
+    chiSquare,
+    df,
+    pValue: chiSquareUpperTail(chiSquare, df),
+    cfi: 1 - excess / Math.max(nullChiSquare - nullDf, excess, 1e-12),
+    tli: (nullChiSquare / nullDf - chiSquare / df) / (nullChiSquare / nullDf - 1),
+    rmsea: Math.sqrt(excess / (df * (n - 1))),
+    srmr: Math.sqrt(residualSum / ((p * (p + 1)) / 2)),
+    loadings: lambda.map((l, i) => (signs[itemFactor[i]] * l) / Math.sqrt(sigma[i][i])),
+    factorCorrelations: phi.map((row, a) => row.map((v, b) => v * signs[a] * signs[b])),
+    converged,
+    heywood: psi.some(v => v < 0.01) || phi.some((row, a) => row.some((v, b) => a !== b && Math.abs(v) >= 1)),
+  };
+};
@@ -0,0 +1,106 @@
+// =================================================================================
+// FILTER: subset responden yang dipakai oleh semua tab
+// =================================================================================
+import { GroupDefinition, LikertScale, ResolvedConstruct } from './codebook';
+import { DataItem } from './types';
+
+// --- TYPES ---
+export type EligibilityFilter = 'all' | 'eligible' | 'ineligible';
+
+export interface DataFilter {
+  groups: string[];                               // Usage-group labels to keep (empty = all groups)
+  scoreRanges: Record<string, [number, number]>;  // Inclusive bounds per construct key (absent = full scale)
+  eligibility: EligibilityFilter;
+  dateFrom: string;                               // YYYY-MM-DD, inclusive ('' = no bound)
+  dateTo: string;
+}
+
+export const EMPTY_FILTER: DataFilter = {
+  groups: [],
+  scoreRanges: {},
+  eligibility: 'all',
+  dateFrom: '',
+  dateTo: '',
+};
+
+export const ELIGIBILITY_FILTER_LABELS: Record<EligibilityFilter, string> = {
+  all: 'Semua',
+  eligible: 'Memenuhi kriteria',
+  ineligible: 'Tidak memenuhi',
+};
+
+// --- HELPER FUNCTIONS ---
+
+// Form exports write "23/11/2025 13:05:41" (day first); ISO dates are accepted too
+export const parseTimestamp = (text: string): Date | null => {
+  const trimmed = text.trim();
+  const dayFirst = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dayFirst) {
+    const [, day, month, year, hour = '0', minute = '0', second = '0'] = dayFirst;
+    const date = new Date(+year, +month - 1, +day, +hour, +minute, +second);
+    return date.getMonth() === +month - 1 ? date : null;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+// Local calendar day as YYYY-MM-DD, the value format of <input type="date">
+export const toDateInputValue = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Earliest and latest response day, for the bounds of the date inputs
+export const timestampRange = (data: DataItem[]): [string, string] | null => {
+  const times = data.flatMap(d => {
+    const date = parseTimestamp(d.timestamp);
+    return date ? [date.getTime()] : [];
+  });
+  if (times.length === 0) return null;
+  return [toDateInputValue(new Date(Math.min(...times))), toDateInputValue(new Date(Math.max(...times)))];
+};
+
+// Drop selections that no longer exist (other grouping rule or codebook) and
+// ranges that cover the whole scale
+export const normalizeFilter = (
+  filter: DataFilter,
+  groups: GroupDefinition[],
+  constructs: ResolvedConstruct[],
+  scale: LikertScale
+): DataFilter => ({
+  ...filter,
+  groups: filter.groups.filter(label => groups.some(g => g.label === label)),
+  scoreRanges: Object.fromEntries(
+    Object.entries(filter.scoreRanges).filter(([key, [min, max]]) =>
+      constructs.some(c => c.key === key) && (min > scale.min || max < scale.max)
+    )
+  ),
+});
+
+export const activeFilterCount = (filter: DataFilter): number =>
+  (filter.groups.length > 0 ? 1 : 0) +
+  Object.keys(filter.scoreRanges).length +
+  (filter.eligibility !== 'all' ? 1 : 0) +
+  (filter.dateFrom || filter.dateTo ? 1 : 0);
+
+export const applyFilter = (data: DataItem[], filter: DataFilter): DataItem[] => {
+  const ranges = Object.entries(filter.scoreRanges);
+  const hasDateBound = filter.dateFrom !== '' || filter.dateTo !== '';
+
+  return data.filter(d => {
+    if (filter.groups.length > 0 && (d.usageGroup === null || !filter.groups.includes(d.usageGroup))) return false;
+    if (filter.eligibility === 'eligible' && !d.eligible) return false;
+    if (filter.eligibility === 'ineligible' && d.eligible) return false;
+    if (ranges.some(([key, [min, max]]) => !(d.scores[key] >= min && d.scores[key] <= max))) return false;
+    if (hasDateBound) {
+      // Rows without a readable timestamp cannot satisfy a date bound
+      const date = parseTimestamp(d.timestamp);
+      if (!date) return false;
+      const day = toDateInputValue(date);
+      if (filter.dateFrom && day < filter.dateFrom) return false;
+      if (filter.dateTo && day > filter.dateTo) return false;
+    }
+    return true;
+  });
+};
@@ -0,0 +1,217 @@
+// =================================================================================
+// PERBANDINGAN KELOMPOK: Mann-Whitney U, Kruskal-Wallis, Dunn post-hoc
+// =================================================================================
+import { chiSquareUpperTail, normalCdf, rankWithTies } from './stats';
+
+// --- TYPES ---
+export interface GroupSummary {
+  label: string;
+  n: number;
+  median: number;
+  q1: number;
+  q3: number;
+  min: number;
+  max: number;
+  meanRank: number;
+}
+
+export interface MannWhitneyResult {
+  test: 'mann-whitney';
+  u: number;            // U of the first group
+  z: number;
+  pValue: number;
+  exact: boolean;
+  rankBiserial: number; // Positive when the first group tends to score higher
+}
+
+export interface DunnComparison {
+  group1: string;
+  group2: string;
+  z: number;
+  pValue: number;
+  pAdjusted: number;    // Holm-adjusted
+}
+
+export interface KruskalWallisResult {
+  test: 'kruskal-wallis';
+  h: number;
+  df: number;
+  pValue: number;
+  epsilonSquared: number;
+  posthoc: DunnComparison[];
+}
+
+export interface GroupComparison {
+  groups: GroupSummary[];
+  result: MannWhitneyResult | KruskalWallisResult | null;  // null with fewer than 2 usable groups
+}
+
+// Exact distribution is enumerated when both groups are at most this size and
+// there are no ties; otherwise the tie-corrected normal approximation is used.
+const EXACT_MANN_WHITNEY_MAX_N = 20;
+
+// --- HELPER FUNCTIONS ---
+
+export const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+// Σ(t³ - t) over groups of tied values, used by every rank-test tie correction
+const tieSum = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  let sum = 0;
+  counts.forEach(t => {
+    sum += t * t * t - t;
+  });
+  return sum;
+};
+
+// Exact two-sided p-value of U by counting rank arrangements (no ties)
+const exactMannWhitneyP = (u: number, n1: number, n2: number): number => {
+  // counts[i][j][k]: arrangements of i items from group 1 and j from group 2 with U = k
+  const maxU = n1 * n2;
+  let previous: number[][] = Array.from({ length: n2 + 1 }, () => new Array(maxU + 1).fill(0));
+  for (let j = 0; j <= n2; j++) previous[j][0] = 1;
+  for (let i = 1; i <= n1; i++) {
+    const current: number[][] = Array.from({ length: n2 + 1 }, () => new Array(maxU + 1).fill(0));
+    current[0][0] = 1;
+    for (let j = 1; j <= n2; j++) {
+      for (let k = 0; k <= maxU; k++) {
+        // Largest element is from group 1 (adds j to U) or from group 2
+        current[j][k] = (k >= j ? previous[j][k - j] : 0) + current[j - 1][k];
+      }
+    }
+    previous = current;
+  }
+  const distribution = previous[n2];
+  const total = distribution.reduce((a, b) => a + b, 0);
+  const center = maxU / 2;
+  const observed = Math.abs(u - center);
+  let extreme = 0;
+  distribution.forEach((count, k) => {
+    if (Math.abs(k - center) >= observed - 1e-9) extreme += count;
+  });
+  return Math.min(1, extreme / total);
+};
+
+export const mannWhitneyU = (a: number[], b: number[]): MannWhitneyResult => {
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  const { ranks, tiedCount } = rankWithTies([...a, ...b]);
+  const rankSum1 = ranks.slice(0, n1).reduce((s, r) => s + r, 0);
+  const u = rankSum1 - (n1 * (n1 + 1)) / 2;
+  const meanU = (n1 * n2) / 2;
+  const ties = tieSum([...a, ...b]);
+  const sdU = Math.sqrt(((n1 * n2) / 12) * ((n + 1) - ties / (n * (n - 1))));
+  const rankBiserial = (2 * u) / (n1 * n2) - 1;
+
+  if (tiedCount === 0 && n1 <= EXACT_MANN_WHITNEY_MAX_N && n2 <= EXACT_MANN_WHITNEY_MAX_N) {
+    const z = sdU > 0 ? (u - meanU) / sdU : 0;
+    return { test: 'mann-whitney', u, z, pValue: exactMannWhitneyP(u, n1, n2), exact: true, rankBiserial };
+  }
+
+  // Normal approximation with continuity correction
+  const z = sdU > 0 ? (u - meanU - Math.sign(u - meanU) * 0.5) / sdU : 0;
+  const pValue = sdU > 0 ? Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) : 1;
+  return { test: 'mann-whitney', u, z, pValue, exact: false, rankBiserial };
+};
+
+// Holm step-down adjustment, returned in the original order
+export const holmAdjust = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, (m - rank) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+};
+
+export const kruskalWallis = (groups: { label: string; values: number[] }[]): KruskalWallisResult => {
+  const all = groups.flatMap(g => g.values);
+  const n = all.length;
+  const { ranks } = rankWithTies(all);
+  const ties = tieSum(all);
+  const tieCorrection = 1 - ties / (n * n * n - n);
+
+  let offset = 0;
+  const meanRanks = groups.map(g => {
+    const groupRanks = ranks.slice(offset, offset + g.values.length);
+    offset += g.values.length;
+    return groupRanks.reduce((s, r) => s + r, 0) / g.values.length;
+  });
+
+  const hRaw = (12 / (n * (n + 1))) *
+    groups.reduce((sum, g, i) => sum + g.values.length * meanRanks[i] * meanRanks[i], 0) - 3 * (n + 1);
+  const h = tieCorrection > 0 ? hRaw / tieCorrection : 0;
+  const df = groups.length - 1;
+
+  // Dunn (1964) pairwise z with tie-corrected variance
+  const variance = (n * (n + 1)) / 12 - ties / (12 * (n - 1));
+  const pairs: Omit<DunnComparison, 'pAdjusted'>[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    for (let j = i + 1; j < groups.length; j++) {
+      const se = Math.sqrt(variance * (1 / groups[i].values.length + 1 / groups[j].values.length));
+      const z = se > 0 ? (meanRanks[i] - meanRanks[j]) / se : 0;
+      pairs.push({ group1: groups[i].label, group2: groups[j].label, z, pValue: 2 * (1 - normalCdf(Math.abs(z))) });
+    }
+  }
+  const adjusted = holmAdjust(pairs.map(p => p.pValue));
+
+  return {
+    test: 'kruskal-wallis',
+    h,
+    df,
+    pValue: chiSquareUpperTail(h, df),
+    epsilonSquared: n > 1 ? h / (n - 1) : 0,
+    posthoc: pairs.map((p, i) => ({ ...p, pAdjusted: adjusted[i] })),
+  };
+};
+
+// Compare one variable across groups: Mann-Whitney U for two groups,
+// Kruskal-Wallis with Dunn post-hoc for three or more.
+export const compareGroups = (groups: { label: string; values: number[] }[]): GroupComparison => {
+  const usable = groups.filter(g => g.values.length > 0);
+  const all = usable.flatMap(g => g.values);
+  const { ranks } = rankWithTies(all);
+
+  let offset = 0;
+  const summaries = usable.map(g => {
+    const sorted = [...g.values].sort((a, b) => a - b);
+    const groupRanks = ranks.slice(offset, offset + g.values.length);
+    offset += g.values.length;
+    return {
+      label: g.label,
+      n: g.values.length,
+      median: quantile(sorted, 0.5),
+      q1: quantile(sorted, 0.25),
+      q3: quantile(sorted, 0.75),
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      meanRank: groupRanks.reduce((s, r) => s + r, 0) / g.values.length,
+    };
+  });
+
+  if (usable.length < 2) return { groups: summaries, result: null };
+  if (usable.length === 2) return { groups: summaries, result: mannWhitneyU(usable[0].values, usable[1].values) };
+  return { groups: summaries, result: kruskalWallis(usable) };
+};
+
+// Conventional magnitude labels: |r| .1/.3/.5 (Cohen), ε² .01/.08/.26 (Rea & Parker)
+export const effectSizeLabel = (result: MannWhitneyResult | KruskalWallisResult): string => {
+  const [value, small, medium, large] = result.test === 'mann-whitney'
+    ? [Math.abs(result.rankBiserial), 0.1, 0.3, 0.5]
+    : [result.epsilonSquared, 0.01, 0.08, 0.26];
+  if (value >= large) return 'Besar';
+  if (value >= medium) return 'Sedang';
+  if (value >= small) return 'Kecil';
+  return 'Sangat kecil';
+};
@@ -0,0 +1,201 @@
+// =================================================================================
+// PENGELOMPOKAN RESPONDEN: aturan kelompok penggunaan yang dapat diatur
+// =================================================================================
+import { CLUSTER_METHOD_LABELS, ClusterModel, assignCluster } from './clustering';
+import { GroupDefinition, ResolvedCodebook } from './codebook';
+import { quantile } from './groupTests';
+import { DataItem } from './types';
+
+// --- TYPES ---
+export type GroupingBasisType = 'item' | 'construct' | 'cluster';
+export type GroupingMethod = 'threshold' | 'median' | 'tertile' | 'quartile' | 'cluster';
+
+export interface GroupingRule {
+  basisType: GroupingBasisType;
+  basis: string;            // Item id (raw answer) or construct key (score); unused for clusters
+  method: GroupingMethod;
+  thresholds: number[];     // threshold: ascending cut points; value >= cut moves up a level
+  levels: GroupDefinition[];  // Ordered from the lowest to the highest level (clusters: by cluster index)
+  cluster?: ClusterModel;   // cluster: fitted model that assigns each respondent
+}
+
+export interface GroupingPreset {
+  name: string;
+  rule: GroupingRule;
+}
+
+export interface GroupingResult {
+  data: DataItem[];
+  cuts: number[];           // Cut points actually applied (quantiles are computed on the sample)
+  counts: number[];         // Respondents per level
+  unassigned: number;       // Respondents without a value on the basis
+}
+
+export const GROUPING_METHOD_LABELS: Record<GroupingMethod, string> = {
+  threshold: 'Batas manual',
+  median: 'Median split',
+  tertile: 'Tertil',
+  quartile: 'Kuartil',
+  cluster: 'Klaster',
+};
+
+export const MAX_GROUP_LEVELS = 5;
+
+const QUANTILE_CUTS: Record<Exclude<GroupingMethod, 'threshold' | 'cluster'>, number[]> = {
+  median: [0.5],
+  tertile: [1 / 3, 2 / 3],
+  quartile: [0.25, 0.5, 0.75],
+};
+
+const DEFAULT_LEVEL_NAMES: Record<number, string[]> = {
+  2: ['Rendah', 'Tinggi'],
+  3: ['Rendah', 'Sedang', 'Tinggi'],
+  4: ['Sangat Rendah', 'Rendah', 'Tinggi', 'Sangat Tinggi'],
+};
+const LEVEL_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6'];
+
+const STORAGE_KEY = 'dashboard-telematika.grouping';
+
+// --- HELPER FUNCTIONS ---
+
+export const levelCount = (rule: Pick<GroupingRule, 'method' | 'thresholds' | 'cluster'>): number => {
+  if (rule.method === 'cluster') return Array.isArray(rule.cluster?.centroids) ? rule.cluster.centroids.length : 0;
+  return rule.method === 'threshold' ? rule.thresholds.length + 1 : QUANTILE_CUTS[rule.method].length + 1;
+};
+
+export const defaultLevels = (count: number): GroupDefinition[] =>
+  Array.from({ length: count }, (_, i) => {
+    const name = DEFAULT_LEVEL_NAMES[count]?.[i] ?? `Level ${i + 1}`;
+    const color = count === 2 ? [LEVEL_COLORS[0], LEVEL_COLORS[3]][i] : LEVEL_COLORS[i % LEVEL_COLORS.length];
+    return { label: name, shortLabel: name, color };
+  });
+
+// The codebook's two-level split is the rule used until the user defines another
+export const defaultGroupingRule = (codebook: ResolvedCodebook): GroupingRule => ({
+  basisType: 'item',
+  basis: codebook.usageGroup.item,
+  method: 'threshold',
+  thresholds: [codebook.usageGroup.threshold],
+  levels: [codebook.usageGroup.low, codebook.usageGroup.high],
+});
+
+// A stored cluster model comes from localStorage, so its shape is checked
+// before assignCluster reads it
+const isClusterModelValid = (model: ClusterModel | undefined): boolean => {
+  if (!model || !Array.isArray(model.keys) || !Array.isArray(model.centroids) || model.centroids.length === 0) return false;
+  const width = model.keys.length;
+  const isRow = (row: unknown) => Array.isArray(row) && row.length === width && row.every(v => typeof v === 'number');
+  const perCluster = (values: unknown) => values === undefined || (Array.isArray(values) && values.length === model.centroids.length);
+  return isRow(model.center) && isRow(model.spread) && model.centroids.every(isRow) &&
+    perCluster(model.variances) && (model.variances ?? []).every(isRow) && perCluster(model.weights);
+};
+
+// Returns an error message, or null when the rule can be applied to the codebook
+export const validateGroupingRule = (rule: GroupingRule, codebook: ResolvedCodebook): string | null => {
+  const basisExists = rule.basisType === 'item'
+    ? codebook.allItems.some(item => item.id === rule.basis)
+    : rule.basisType === 'cluster'
+      ? isClusterModelValid(rule.cluster) && rule.cluster!.keys.every(key => codebook.constructs.some(c => c.key === key))
+      : codebook.constructs.some(c => c.key === rule.basis);
+  if (!basisExists) return 'Dasar pengelompokan tidak ada di codebook.';
+  if (!(rule.method in GROUPING_METHOD_LABELS)) return 'Metode pengelompokan tidak dikenal.';
+  if ((rule.basisType === 'cluster') !== (rule.method === 'cluster')) {
+    return 'Metode klaster hanya dapat dipakai dengan dasar klaster.';
+  }
+  if (!Array.isArray(rule.thresholds)) return 'Batas pengelompokan tidak valid.';
+  if (!Array.isArray(rule.levels) || rule.levels.some(level => typeof level?.label !== 'string')) {
+    return 'Daftar kelompok tidak valid.';
+  }
+  if (rule.levels.length !== levelCount(rule)) {
+    return 'Jumlah kelompok tidak sesuai dengan jumlah batas.';
+  }
+  if (rule.method === 'threshold') {
+    if (rule.thresholds.some(t => typeof t !== 'number' || isNaN(t))) return 'Batas harus berupa angka.';
+    if (rule.thresholds.some((t, i) => i > 0 && t <= rule.thresholds[i - 1])) return 'Batas harus berurutan naik.';
+    if (rule.thresholds.some(t => t <= codebook.scale.min || t > codebook.scale.max)) {
+      return `Batas harus di atas ${codebook.scale.min} dan paling tinggi ${codebook.scale.max}.`;
+    }
+  }
+  const labels = rule.levels.map(level => level.label.trim());
+  if (labels.some(label => !label)) return 'Setiap kelompok harus memiliki nama.';
+  if (new Set(labels).size !== labels.length) return 'Nama kelompok tidak boleh sama.';
+  return null;
+};
+
+// For clusters the value is the cluster index itself
+const basisValue = (respondent: DataItem, rule: GroupingRule): number => {
+  if (rule.basisType === 'cluster') return rule.cluster ? assignCluster(respondent, rule.cluster) ?? NaN : NaN;
+  return rule.basisType === 'item' ? respondent.responses[rule.basis] : respondent.scores[rule.basis];
+};
+
+// Assign every respondent to a level. Quantile cut points are computed on the
+// analysed sample; ties at a cut point fall into the higher level, so Likert
+// data often gives unequal (or empty) quantile groups.
+export const assignGroups = (data: DataItem[], rule: GroupingRule): GroupingResult => {
+  const values = data.map(d => basisValue(d, rule));
+  const sorted = values.filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const cuts = rule.method === 'cluster'
+    ? []
+    : rule.method === 'threshold'
+      ? rule.thresholds
+      : QUANTILE_CUTS[rule.method].map(q => quantile(sorted, q));
+
+  const counts = new Array<number>(rule.levels.length).fill(0);
+  let unassigned = 0;
+  const grouped = data.map((d, i) => {
+    if (isNaN(values[i])) {
+      unassigned++;
+      return { ...d, usageGroup: null };
+    }
+    const level = rule.method === 'cluster' ? values[i] : cuts.filter(cut => values[i] >= cut).length;
+    counts[level]++;
+    return { ...d, usageGroup: rule.levels[level].label };
+  });
+
+  return { data: grouped, cuts, counts, unassigned };
+};
+
+// Quantile cut points are only known once applied to a sample; omit them to
+// describe the rule itself
+export const describeGroupingRule = (rule: GroupingRule, codebook: ResolvedCodebook, cuts?: number[]): string => {
+  if (rule.method === 'cluster') {
+    const method = rule.cluster ? CLUSTER_METHOD_LABELS[rule.cluster.method] : '';
+    return `Klaster ${method} (k = ${rule.levels.length})`;
+  }
+  const basis = rule.basisType === 'item'
+    ? rule.basis
+    : codebook.constructs.find(c => c.key === rule.basis)?.shortLabel ?? rule.basis;
+  const formatCuts = (values: number[]) =>
+    values.map(c => (Number.isInteger(c) ? String(c) : c.toFixed(2))).join(' / ');
+  if (rule.method === 'threshold') return `${basis} ≥ ${formatCuts(rule.thresholds)}`;
+  const label = `${GROUPING_METHOD_LABELS[rule.method]} ${basis}`;
+  return cuts ? `${label} (${formatCuts(cuts)})` : label;
+};
+
+// --- PERSISTENCE ---
+
+interface StoredGrouping {
+  active: GroupingRule | null;
+  presets: GroupingPreset[];
+}
+
+export const loadStoredGrouping = (): StoredGrouping => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      active: parsed?.active ?? null,
+      presets: Array.isArray(parsed?.presets) ? parsed.presets : [],
+    };
+  } catch {
+    return { active: null, presets: [] };
+  }
+};
+
+export const saveStoredGrouping = (stored: StoredGrouping): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the rule still applies for this session
+  }
+};
@@ -0,0 +1,166 @@
+// =================================================================================
+// INSIGHT: pernyataan temuan yang disusun dari hasil uji statistik
+// =================================================================================
+// Every statement carries the numbers it rests on and the tab where they can be
+// checked. Non-significant results are phrased as "no evidence", never as a
+// finding in the observed direction.
+import { GroupDefinition, ResolvedConstruct } from './codebook';
+import { GroupComparison, effectSizeLabel } from './groupTests';
+import { formatPValue } from './stats';
+import { CorrelationItem } from './types';
+
+// --- TYPES ---
+export type InsightTarget = 'matrix' | 'groups';
+
+export interface Insight {
+  title: string;
+  text: string;
+  evidence: string;        // The statistic behind the statement, e.g. "ρ = 0.45, p = 0.001, n = 55"
+  target: InsightTarget;   // Tab that shows the full result
+  significant: boolean;
+}
+
+// --- HELPER FUNCTIONS ---
+
+// Bands for |ρ| following the usual 0.1 / 0.3 / 0.5 / 0.7 convention
+export const strengthBand = (r: number): string => {
+  const magnitude = Math.abs(r);
+  if (magnitude < 0.1) return 'sangat lemah';
+  if (magnitude < 0.3) return 'lemah';
+  if (magnitude < 0.5) return 'sedang';
+  if (magnitude < 0.7) return 'kuat';
+  return 'sangat kuat';
+};
+
+export const findCorrelation = (correlations: CorrelationItem[], a: string, b: string): CorrelationItem | undefined =>
+  correlations.find(c => (c.var1 === a && c.var2 === b) || (c.var1 === b && c.var2 === a));
+
+const correlationEvidence = (item: CorrelationItem): string =>
+  `ρ = ${item.correlation.toFixed(2)}, ${formatPValue(item.pValue)}, n = ${item.n}`;
+
+// Orient the pair so the sentence reads "x → y" in the requested order
+export const correlationInsight = (item: CorrelationItem, x: string, alpha: number): Insight => {
+  const [labelX, labelY] = item.var1 === x ? [item.label1, item.label2] : [item.label2, item.label1];
+  const direction = item.correlation >= 0 ? 'positif' : 'negatif';
+
+  if (!item.significant) {
+    return {
+      title: 'Tidak signifikan',
+      text: `Tidak ada bukti hubungan antara ${labelX} dan ${labelY} pada α = ${alpha}. ` +
+        `Arah ${direction} yang teramati (${strengthBand(item.correlation)}) bisa terjadi karena variasi sampel.`,
+      evidence: correlationEvidence(item),
+      target: 'matrix',
+      significant: false,
+    };
+  }
+
+  return {
+    title: 'Insight',
+    text: `Semakin tinggi ${labelX}, cenderung semakin ${item.correlation >= 0 ? 'tinggi' : 'rendah'} ${labelY} ` +
+      `(hubungan ${direction}, kekuatan ${strengthBand(item.correlation)}).`,
+    evidence: correlationEvidence(item),
+    target: 'matrix',
+    significant: true,
+  };
+};
+
+export const groupDifferenceInsight = (
+  construct: ResolvedConstruct,
+  comparison: GroupComparison,
+  groups: GroupDefinition[],
+  alpha: number
+): Insight | null => {
+  const result = comparison.result;
+  if (!result) return null;
+
+  const shortLabel = (label: string) => groups.find(g => g.label === label)?.shortLabel ?? label;
+  const evidence = result.test === 'mann-whitney'
+    ? `U = ${result.u.toFixed(1)}, ${formatPValue(result.pValue)}, r_rb = ${result.rankBiserial.toFixed(2)}`
+    : `H(${result.df}) = ${result.h.toFixed(2)}, ${formatPValue(result.pValue)}, ε² = ${result.epsilonSquared.toFixed(3)}`;
+  const medians = comparison.groups.map(g => `${shortLabel(g.label)} ${g.median.toFixed(2)}`).join(', ');
+
+  if (result.pValue >= alpha) {
+    return {
+      title: 'Perbedaan kelompok',
+      text: `Tidak ada bukti perbedaan skor ${construct.label} antar kelompok (median: ${medians}).`,
+      evidence,
+      target: 'groups',
+      significant: false,
+    };
+  }
+
+  const ranked = [...comparison.groups].sort((a, b) => b.meanRank - a.meanRank);
+  return {
+    title: 'Perbedaan kelompok',
+    text: `Skor ${construct.label} berbeda antar kelompok; tertinggi pada ${shortLabel(ranked[0].label)} ` +
+      `dan terendah pada ${shortLabel(ranked[ranked.length - 1].label)} (median: ${medians}; efek ${effectSizeLabel(result).toLowerCase()}).`,
+    evidence,
+    target: 'groups',
+    significant: true,
+  };
+};
+
+// Which construct relates most strongly to the outcome. Differences between
+// correlations are not tested, so the wording only reports the ordering.
+const strongestPredictorInsight = (
+  correlations: CorrelationItem[],
+  outcome: ResolvedConstruct,
+  constructs: ResolvedConstruct[],
+  alpha: number
+): Insight | null => {
+  const candidates = constructs
+    .filter(c => c.key !== outcome.key)
+    .flatMap(c => {
+      const item = findCorrelation(correlations, c.key, outcome.key);
+      return item ? [{ construct: c, item }] : [];
+    })
+    .sort((a, b) => Math.abs(b.item.correlation) - Math.abs(a.item.correlation));
+  if (candidates.length < 2) return null;
+
+  const significant = candidates.filter(c => c.item.significant);
+  const evidence = candidates.map(c => `${c.construct.shortLabel} ρ = ${c.item.correlation.toFixed(2)}`).join('; ');
+  if (significant.length === 0) {
+    return {
+      title: 'Perbandingan prediktor',
+      text: `Tidak satu pun variabel berhubungan signifikan dengan ${outcome.label} pada α = ${alpha}.`,
+      evidence,
+      target: 'matrix',
+      significant: false,
+    };
+  }
+
+  const nonSignificant = candidates.filter(c => !c.item.significant).map(c => c.construct.label);
+  return {
+    title: 'Perbandingan prediktor',
+    text: `Hubungan terkuat dengan ${outcome.label} ditunjukkan oleh ${candidates[0].construct.label}` +
+      (nonSignificant.length > 0 ? `, sedangkan ${nonSignificant.join(' dan ')} tidak berhubungan signifikan` : '') +
+      '. Selisih besaran ρ antar prediktor tidak diuji secara formal.',
+    evidence,
+    target: 'matrix',
+    significant: true,
+  };
+};
+
+// Conclusions for the behavior tab: each construct against the outcome, the
+// ranking of predictors, and the usage-group difference on the outcome
+export const researchConclusions = ({ correlations, outcome, constructs, outcomeComparison, groups, alpha }: {
+  correlations: CorrelationItem[];
+  outcome: ResolvedConstruct;
+  constructs: ResolvedConstruct[];
+  outcomeComparison: GroupComparison | null;
+  groups: GroupDefinition[];
+  alpha: number;
+}): Insight[] => {
+  const perPredictor = constructs
+    .filter(c => c.key !== outcome.key)
+    .flatMap(c => {
+      const item = findCorrelation(correlations, c.key, outcome.key);
+      return item ? [{ ...correlationInsight(item, c.key, alpha), title: `${c.shortLabel} – ${outcome.shortLabel}` }] : [];
+    });
+
+  return [
+    ...perPredictor,
+    strongestPredictorInsight(correlations, outcome, constructs, alpha),
+    outcomeComparison ? groupDifferenceInsight(outcome, outcomeComparison, groups, alpha) : null,
+  ].filter((insight): insight is Insight => insight !== null);
+};
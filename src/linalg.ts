@@ -0,0 +1,140 @@
+// =================================================================================
+// ALJABAR LINEAR: matriks korelasi dan dekomposisi eigen
+// =================================================================================
+
+export type Matrix = number[][];
+
+// --- HELPER FUNCTIONS ---
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+// Sample variance (n - 1 denominator)
+export const variance = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / (n - 1);
+};
+
+export const standardDeviation = (values: number[]): number => Math.sqrt(variance(values));
+
+export const identity = (size: number): Matrix =>
+  Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+
+export const transpose = (a: Matrix): Matrix =>
+  (a[0] ?? []).map((_, j) => a.map(row => row[j]));
+
+export const multiplyMatrices = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => (b[0] ?? []).map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+
+// Pearson correlation matrix of the given columns (each column = one variable)
+export const correlationMatrix = (columns: number[][]): Matrix => {
+  const k = columns.length;
+  const centered = columns.map(col => {
+    const m = mean(col);
+    return col.map(v => v - m);
+  });
+  const norms = centered.map(col => Math.sqrt(col.reduce((s, v) => s + v * v, 0)));
+
+  return Array.from({ length: k }, (_, i) =>
+    Array.from({ length: k }, (_, j) => {
+      if (i === j) return 1;
+      if (norms[i] === 0 || norms[j] === 0) return 0;
+      return centered[i].reduce((s, v, idx) => s + v * centered[j][idx], 0) / (norms[i] * norms[j]);
+    })
+  );
+};
+
+// Eigen decomposition of a symmetric matrix with the cyclic Jacobi method.
+// Eigenvalues are sorted in descending order; vectors[i] is the eigenvector
+// belonging to values[i].
+export const symmetricEigen = (input: Matrix): { values: number[]; vectors: number[][] } => {
+  const n = input.length;
+  const a = input.map(row => [...row]);
+  const v = identity(n);
+  const MAX_SWEEPS = 100;
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = a.map((row, i) => ({ value: row[i], i })).sort((x, y) => y.value - x.value);
+  return {
+    values: order.map(o => o.value),
+    vectors: order.map(o => v.map(row => row[o.i])),
+  };
+};
+
+// Solve A·x = b with Gaussian elimination and partial pivoting. Returns null
+// when the system is singular.
+export const solveLinearSystem = (a: Matrix, b: number[]): number[] | null => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[r][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let k = r + 1; k < n; k++) sum -= m[r][k] * x[k];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+};
+
+// Inverse via one solve per identity column; null if the matrix is singular
+export const invertMatrix = (a: Matrix): Matrix | null => {
+  const columns: number[][] = [];
+  for (const unit of identity(a.length)) {
+    const column = solveLinearSystem(a, unit);
+    if (!column) return null;
+    columns.push(column);
+  }
+  return a.map((_, i) => columns.map(column => column[i]));
+};
@@ -0,0 +1,100 @@
+// =================================================================================
+// DATA HILANG: strategi penghitungan skor konstruk saat ada item kosong
+// =================================================================================
+import { ResolvedCodebook } from './codebook';
+import { mean } from './linalg';
+import { DataItem } from './types';
+
+// --- TYPES ---
+// Multiple imputation is deliberately not offered: it needs m completed datasets
+// with every analysis rerun on each and pooled by Rubin's rules, and the views
+// here only consume a single DataItem[].
+export type MissingDataMethod = 'listwise' | 'personMean' | 'itemMean';
+
+export interface MissingDataStrategy {
+  method: MissingDataMethod;
+  minItemRatio: number;   // personMean: share of a construct's items that must be answered
+}
+
+export interface MissingDataResult {
+  data: DataItem[];
+  dropped: DataItem[];    // Rows that could not be scored under the strategy
+  missingCells: number;   // Missing item cells among the screened rows
+  imputedCells: number;   // Cells filled in by imputation
+}
+
+export const DEFAULT_MISSING_DATA_STRATEGY: MissingDataStrategy = {
+  method: 'personMean',
+  minItemRatio: 0.5,
+};
+
+export const MISSING_DATA_METHOD_LABELS: Record<MissingDataMethod, string> = {
+  listwise: 'Listwise deletion',
+  personMean: 'Person-mean',
+  itemMean: 'Imputasi mean item',
+};
+
+export const MIN_ITEM_RATIO_OPTIONS = [0.5, 0.6, 0.75, 0.8, 1];
+
+// --- HELPER FUNCTIONS ---
+
+export const describeStrategy = (strategy: MissingDataStrategy): string => {
+  const label = MISSING_DATA_METHOD_LABELS[strategy.method];
+  if (strategy.method === 'personMean') return `${label} (≥ ${Math.round(strategy.minItemRatio * 100)}% item)`;
+  return label;
+};
+
+const roundScore = (value: number): number => parseFloat(value.toFixed(2));
+
+// Compute construct scores for the screened respondents with the chosen strategy
+export const applyMissingDataStrategy = (
+  respondents: DataItem[],
+  codebook: ResolvedCodebook,
+  strategy: MissingDataStrategy
+): MissingDataResult => {
+  const itemIds = codebook.items.map(item => item.id);
+  const matrix = respondents.map(r => itemIds.map(id => r.items[id]));
+  const missingCells = matrix.reduce((sum, row) => sum + row.filter(v => isNaN(v)).length, 0);
+
+  // Completed item values per respondent (NaN where the strategy leaves a gap)
+  let completed: number[][] = matrix;
+  let imputedCells = 0;
+
+  if (strategy.method === 'itemMean') {
+    const itemMeans = itemIds.map((_, j) => mean(matrix.map(row => row[j]).filter(v => !isNaN(v))));
+    completed = matrix.map(row => row.map((v, j) => (isNaN(v) ? itemMeans[j] : v)));
+    imputedCells = missingCells;
+  }
+
+  const data: DataItem[] = [];
+  const dropped: DataItem[] = [];
+
+  respondents.forEach((r, i) => {
+    const values: Record<string, number> = {};
+    itemIds.forEach((id, j) => {
+      values[id] = completed[i][j];
+    });
+
+    if (strategy.method === 'listwise' && itemIds.some(id => isNaN(values[id]))) {
+      dropped.push(r);
+      return;
+    }
+
+    const scores: Record<string, number> = {};
+    codebook.constructs.forEach(c => {
+      const answered = c.items.map(item => values[item.id]).filter(v => !isNaN(v));
+      const required = strategy.method === 'personMean' ? Math.ceil(strategy.minItemRatio * c.items.length) : 1;
+      scores[c.key] = answered.length >= required
+        ? roundScore(answered.reduce((sum, v) => sum + v, 0) / answered.length)
+        : NaN;
+    });
+
+    if (Object.values(scores).some(v => isNaN(v))) {
+      dropped.push(r);
+    } else {
+      data.push({ ...r, scores });
+    }
+  });
+
+  return { data, dropped, missingCells, imputedCells };
+};
@@ -0,0 +1,343 @@
+// =================================================================================
+// REGRESI & MEDIASI: OLS, regresi ordinal (proportional odds), mediasi sederhana
+// =================================================================================
+import { Matrix, invertMatrix, mean, solveLinearSystem, standardDeviation } from './linalg';
+import {
+  chiSquareUpperTail, createRng, fUpperTail, normalCdf, normalQuantile, studentTCritical, studentTTwoSided
+} from './stats';
+
+// --- TYPES ---
+export interface Coefficient {
+  name: string;
+  estimate: number;
+  se: number;
+  statistic: number;      // t (OLS) or z (ordinal)
+  pValue: number;
+  ciLower: number;
+  ciUpper: number;
+  standardized?: number;  // OLS: β on standardized variables
+  oddsRatio?: number;     // Ordinal: exp(estimate)
+}
+
+export interface OlsResult {
+  n: number;
+  coefficients: Coefficient[];  // Intercept first, then predictors in input order
+  rSquared: number;
+  adjRSquared: number;
+  fStatistic: number;
+  df1: number;
+  df2: number;
+  fPValue: number;
+}
+
+export interface OrdinalResult {
+  n: number;
+  categories: number[];         // Observed outcome categories, ascending
+  thresholds: Coefficient[];    // Cut points between adjacent categories
+  coefficients: Coefficient[];  // Predictors (no intercept; absorbed by thresholds)
+  logLikelihood: number;
+  nullLogLikelihood: number;
+  lrChiSquare: number;
+  lrPValue: number;
+  pseudoRSquared: number;       // McFadden
+  aic: number;
+  converged: boolean;
+}
+
+export interface MediationPath {
+  estimate: number;
+  se: number;
+  pValue: number;
+}
+
+export interface MediationResult {
+  n: number;
+  a: MediationPath;            // X → M
+  b: MediationPath;            // M → Y, controlling for X
+  c: MediationPath;            // Total effect X → Y
+  cPrime: MediationPath;       // Direct effect X → Y, controlling for M
+  indirect: number;            // a × b
+  ciLower: number;             // Percentile bootstrap interval of a × b (NaN when every resample was singular)
+  ciUpper: number;
+  iterations: number;
+  proportionMediated: number;  // indirect / total (only meaningful when both share a sign)
+}
+
+const BOOTSTRAP_SEED = 20251210;
+const ORDINAL_MAX_ITERATIONS = 100;
+
+// --- HELPER FUNCTIONS ---
+
+const designMatrix = (predictors: number[][], n: number): Matrix =>
+  Array.from({ length: n }, (_, i) => [1, ...predictors.map(column => column[i])]);
+
+const crossProducts = (x: Matrix, y: number[]): { xtx: Matrix; xty: number[] } => {
+  const q = x[0].length;
+  const xtx = Array.from({ length: q }, () => new Array<number>(q).fill(0));
+  const xty = new Array<number>(q).fill(0);
+  x.forEach((row, i) => {
+    for (let a = 0; a < q; a++) {
+      xty[a] += row[a] * y[i];
+      for (let b = 0; b < q; b++) xtx[a][b] += row[a] * row[b];
+    }
+  });
+  return { xtx, xty };
+};
+
+// Coefficients only (intercept first); used inside the bootstrap loop
+const olsCoefficients = (y: number[], predictors: number[][]): number[] | null => {
+  const { xtx, xty } = crossProducts(designMatrix(predictors, y.length), y);
+  return solveLinearSystem(xtx, xty);
+};
+
+export const olsRegression = (
+  y: number[],
+  predictors: number[][],
+  names: string[],
+  alpha: number
+): OlsResult | null => {
+  const n = y.length;
+  const k = predictors.length;
+  if (n <= k + 1) return null;
+
+  const x = designMatrix(predictors, n);
+  const { xtx, xty } = crossProducts(x, y);
+  const inverse = invertMatrix(xtx);
+  const beta = solveLinearSystem(xtx, xty);
+  if (!inverse || !beta) return null;
+
+  const fitted = x.map(row => row.reduce((sum, v, j) => sum + v * beta[j], 0));
+  const yMean = mean(y);
+  const sse = y.reduce((sum, v, i) => sum + (v - fitted[i]) ** 2, 0);
+  const sst = y.reduce((sum, v) => sum + (v - yMean) ** 2, 0);
+  const df2 = n - k - 1;
+  const mse = sse / df2;
+  const tCritical = studentTCritical(alpha, df2);
+  const ySd = standardDeviation(y);
+
+  const coefficients = beta.map((estimate, j): Coefficient => {
+    const se = Math.sqrt(mse * inverse[j][j]);
+    const t = se > 0 ? estimate / se : 0;
+    return {
+      name: j === 0 ? '(Intercept)' : names[j - 1],
+      estimate,
+      se,
+      statistic: t,
+      pValue: se > 0 ? studentTTwoSided(t, df2) : 1,
+      ciLower: estimate - tCritical * se,
+      ciUpper: estimate + tCritical * se,
+      standardized: j === 0 ? undefined : (estimate * standardDeviation(predictors[j - 1])) / ySd,
+    };
+  });
+
+  const rSquared = sst > 0 ? 1 - sse / sst : 0;
+  const fStatistic = k > 0 ? ((sst - sse) / k) / mse : 0;
+  return {
+    n,
+    coefficients,
+    rSquared,
+    adjRSquared: 1 - (1 - rSquared) * (n - 1) / df2,
+    fStatistic,
+    df1: k,
+    df2,
+    fPValue: fUpperTail(fStatistic, k, df2),
+  };
+};
+
+const logistic = (x: number): number => 1 / (1 + Math.exp(-x));
+
+// Cumulative-logit model: P(Y ≤ j) = logistic(θ_j − xβ). Parameters are the
+// K − 1 thresholds followed by the predictor slopes.
+const ordinalLogLikelihood = (params: number[], levels: number[], predictors: number[][], cuts: number): number => {
+  const cdf = (j: number, eta: number) => (j < 0 ? 0 : j >= cuts ? 1 : logistic(params[j] - eta));
+  let total = 0;
+  for (let i = 0; i < levels.length; i++) {
+    const eta = predictors.reduce((sum, column, p) => sum + column[i] * params[cuts + p], 0);
+    const prob = cdf(levels[i], eta) - cdf(levels[i] - 1, eta);
+    if (prob <= 0) return -Infinity;
+    total += Math.log(prob);
+  }
+  return total;
+};
+
+const ordinalGradient = (params: number[], levels: number[], predictors: number[][], cuts: number): number[] => {
+  const gradient = new Array<number>(params.length).fill(0);
+  const density = (j: number, eta: number) => {
+    if (j < 0 || j >= cuts) return 0;
+    const f = logistic(params[j] - eta);
+    return f * (1 - f);
+  };
+  const cdf = (j: number, eta: number) => (j < 0 ? 0 : j >= cuts ? 1 : logistic(params[j] - eta));
+  for (let i = 0; i < levels.length; i++) {
+    const k = levels[i];
+    const eta = predictors.reduce((sum, column, p) => sum + column[i] * params[cuts + p], 0);
+    const prob = cdf(k, eta) - cdf(k - 1, eta);
+    const upper = density(k, eta);
+    const lower = density(k - 1, eta);
+    if (k < cuts) gradient[k] += upper / prob;
+    if (k > 0) gradient[k - 1] -= lower / prob;
+    predictors.forEach((column, p) => {
+      gradient[cuts + p] -= (column[i] * (upper - lower)) / prob;
+    });
+  }
+  return gradient;
+};
+
+// Hessian from central differences of the analytic gradient
+const numericHessian = (gradient: (params: number[]) => number[], params: number[]): Matrix => {
+  const size = params.length;
+  const hessian: Matrix = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  for (let j = 0; j < size; j++) {
+    const step = 1e-5 * Math.max(1, Math.abs(params[j]));
+    const plus = gradient(params.map((v, i) => (i === j ? v + step : v)));
+    const minus = gradient(params.map((v, i) => (i === j ? v - step : v)));
+    for (let i = 0; i < size; i++) hessian[i][j] = (plus[i] - minus[i]) / (2 * step);
+  }
+  // Symmetrize away the finite-difference noise
+  return hessian.map((row, i) => row.map((v, j) => (v + hessian[j][i]) / 2));
+};
+
+// Proportional-odds (ordinal logistic) regression fitted by Newton-Raphson.
+// Outcomes are treated as ordered categories: only the observed values are used
+// as levels, so empty scale points do not produce infinite thresholds.
+export const ordinalRegression = (
+  y: number[],
+  predictors: number[][],
+  names: string[],
+  alpha: number
+): OrdinalResult | null => {
+  const n = y.length;
+  const categories = Array.from(new Set(y)).sort((a, b) => a - b);
+  const cuts = categories.length - 1;
+  if (cuts < 1 || n <= cuts + predictors.length) return null;
+  const levels = y.map(v => categories.indexOf(v));
+
+  // Start from the marginal cumulative proportions with zero slopes
+  const cumulative = categories.slice(0, -1).map((_, j) => levels.filter(l => l <= j).length / n);
+  const nullParams = cumulative.map(p => Math.log(p / (1 - p)));
+  let params = [...nullParams, ...predictors.map(() => 0)];
+  const logLik = (p: number[]) => ordinalLogLikelihood(p, levels, predictors, cuts);
+  const gradientOf = (p: number[]) => ordinalGradient(p, levels, predictors, cuts);
+  let current = logLik(params);
+  let converged = false;
+
+  for (let iter = 0; iter < ORDINAL_MAX_ITERATIONS && !converged; iter++) {
+    const gradient = gradientOf(params);
+    const hessian = numericHessian(gradientOf, params);
+    const step = solveLinearSystem(hessian.map(row => row.map(v => -v)), gradient);
+    if (!step) break;
+
+    // Step halving keeps the log-likelihood increasing and thresholds ordered
+    let scale = 1;
+    let accepted = false;
+    while (scale > 1e-6) {
+      const candidate = params.map((v, i) => v + scale * step[i]);
+      const ordered = candidate.slice(0, cuts).every((v, i, arr) => i === 0 || v > arr[i - 1]);
+      const value = ordered ? logLik(candidate) : -Infinity;
+      if (value >= current - 1e-10) {
+        converged = Math.abs(value - current) < 1e-9 && Math.max(...step.map(Math.abs)) * scale < 1e-6;
+        params = candidate;
+        current = value;
+        accepted = true;
+        break;
+      }
+      scale /= 2;
+    }
+    if (!accepted) {
+      converged = Math.max(...gradient.map(Math.abs)) < 1e-4;
+      break;
+    }
+  }
+
+  const covariance = invertMatrix(numericHessian(gradientOf, params).map(row => row.map(v => -v)));
+  if (!covariance) return null;
+
+  const z = normalQuantile(1 - alpha / 2);
+  const toCoefficient = (index: number, name: string, withOdds: boolean): Coefficient => {
+    const estimate = params[index];
+    const se = Math.sqrt(Math.max(covariance[index][index], 0));
+    const statistic = se > 0 ? estimate / se : 0;
+    return {
+      name,
+      estimate,
+      se,
+      statistic,
+      pValue: se > 0 ? 2 * (1 - normalCdf(Math.abs(statistic))) : 1,
+      ciLower: estimate - z * se,
+      ciUpper: estimate + z * se,
+      oddsRatio: withOdds ? Math.exp(estimate) : undefined,
+    };
+  };
+
+  const nullLogLikelihood = ordinalLogLikelihood([...nullParams, ...predictors.map(() => 0)], levels, predictors, cuts);
+  const lrChiSquare = Math.max(0, 2 * (current - nullLogLikelihood));
+  return {
+    n,
+    categories,
+    thresholds: categories.slice(0, -1).map((c, j) => toCoefficient(j, `${c} | ${categories[j + 1]}`, false)),
+    coefficients: names.map((name, p) => toCoefficient(cuts + p, name, true)),
+    logLikelihood: current,
+    nullLogLikelihood,
+    lrChiSquare,
+    lrPValue: chiSquareUpperTail(lrChiSquare, predictors.length),
+    pseudoRSquared: nullLogLikelihood < 0 ? 1 - current / nullLogLikelihood : 0,
+    aic: -2 * current + 2 * params.length,
+    converged,
+  };
+};
+
+const toPath = (result: OlsResult, index: number): MediationPath => ({
+  estimate: result.coefficients[index].estimate,
+  se: result.coefficients[index].se,
+  pValue: result.coefficients[index].pValue,
+});
+
+// Simple mediation X → M → Y (Baron & Kenny paths) with a seeded percentile
+// bootstrap interval for the indirect effect a × b
+export const mediationAnalysis = (
+  x: number[],
+  m: number[],
+  y: number[],
+  iterations: number,
+  alpha: number
+): MediationResult | null => {
+  const n = x.length;
+  const aModel = olsRegression(m, [x], ['X'], alpha);
+  const bModel = olsRegression(y, [x, m], ['X', 'M'], alpha);
+  const cModel = olsRegression(y, [x], ['X'], alpha);
+  if (!aModel || !bModel || !cModel) return null;
+
+  const random = createRng(BOOTSTRAP_SEED);
+  const indirects: number[] = [];
+  for (let iter = 0; iter < iterations; iter++) {
+    const sample = Array.from({ length: n }, () => Math.floor(random() * n));
+    const xs = sample.map(i => x[i]);
+    const ms = sample.map(i => m[i]);
+    const ys = sample.map(i => y[i]);
+    const a = olsCoefficients(ms, [xs]);
+    const b = olsCoefficients(ys, [xs, ms]);
+    // Resamples without variation in X or M are singular and skipped
+    if (a && b) indirects.push(a[1] * b[2]);
+  }
+  indirects.sort((p, q) => p - q);
+  const at = (q: number): number => indirects.length === 0
+    ? NaN
+    : indirects[Math.min(indirects.length - 1, Math.max(0, Math.floor(q * indirects.length)))];
+
+  const a = toPath(aModel, 1);
+  const b = toPath(bModel, 2);
+  const c = toPath(cModel, 1);
+  const indirect = a.estimate * b.estimate;
+  return {
+    n,
+    a,
+    b,
+    c,
+    cPrime: toPath(bModel, 1),
+    indirect,
+    ciLower: at(alpha / 2),
+    ciUpper: at(1 - alpha / 2),
+    iterations: indirects.length,
+    proportionMediated: c.estimate !== 0 ? indirect / c.estimate : NaN,
+  };
+};
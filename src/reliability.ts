@@ -0,0 +1,107 @@
+// =================================================================================
+// RELIABILITAS: Cronbach's alpha, McDonald's omega, analisis item
+// =================================================================================
+import { correlationMatrix, mean, standardDeviation, symmetricEigen, variance } from './linalg';
+import { pearsonCorrelation } from './stats';
+
+// --- TYPES ---
+export interface ItemStatistics {
+  mean: number;
+  sd: number;
+  itemTotal: number;        // Corrected item-total correlation (item vs. sum of the others)
+  alphaIfDeleted: number;   // NaN when fewer than 2 items would remain
+  loading: number;          // Standardized one-factor loading used for omega
+}
+
+export interface ReliabilityResult {
+  alpha: number;
+  omega: number;
+  items: ItemStatistics[];
+  n: number;
+}
+
+// --- HELPER FUNCTIONS ---
+
+// Cronbach's alpha for columns of item scores (one column per item)
+export const cronbachAlpha = (columns: number[][]): number => {
+  const k = columns.length;
+  if (k < 2) return NaN;
+  const n = columns[0].length;
+  const totals = Array.from({ length: n }, (_, r) => columns.reduce((sum, col) => sum + col[r], 0));
+  const totalVariance = variance(totals);
+  if (totalVariance === 0) return NaN;
+  const itemVariance = columns.reduce((sum, col) => sum + variance(col), 0);
+  return (k / (k - 1)) * (1 - itemVariance / totalVariance);
+};
+
+// Standardized loadings of a single common factor, estimated with iterated
+// principal axis factoring on the item correlation matrix.
+export const oneFactorLoadings = (columns: number[][]): number[] => {
+  const k = columns.length;
+  const r = correlationMatrix(columns);
+
+  // Start communalities at each item's largest absolute correlation
+  let communalities = r.map((row, i) => Math.max(...row.filter((_, j) => j !== i).map(Math.abs), 0.1));
+  let loadings = new Array<number>(k).fill(0);
+
+  for (let iter = 0; iter < 100; iter++) {
+    const reduced = r.map((row, i) => row.map((v, j) => (i === j ? communalities[i] : v)));
+    const { values, vectors } = symmetricEigen(reduced);
+    const scale = Math.sqrt(Math.max(values[0], 0));
+    loadings = vectors[0].map(v => v * scale);
+
+    // Heywood cases are capped just below 1
+    const next = loadings.map(l => Math.min(l * l, 0.995));
+    const change = Math.max(...next.map((c, i) => Math.abs(c - communalities[i])));
+    communalities = next;
+    if (change < 1e-6) break;
+  }
+
+  // Eigenvector sign is arbitrary; orient the factor so most loadings are positive
+  const sum = loadings.reduce((a, b) => a + b, 0);
+  return sum < 0 ? loadings.map(l => -l) : loadings;
+};
+
+// McDonald's omega (total) from standardized one-factor loadings
+export const mcDonaldOmega = (loadings: number[]): number => {
+  if (loadings.length < 2) return NaN;
+  const sumLoadings = loadings.reduce((a, b) => a + b, 0);
+  const uniqueness = loadings.reduce((sum, l) => sum + (1 - l * l), 0);
+  return (sumLoadings * sumLoadings) / (sumLoadings * sumLoadings + uniqueness);
+};
+
+export const analyzeReliability = (columns: number[][]): ReliabilityResult => {
+  const n = columns[0]?.length ?? 0;
+  const totals = Array.from({ length: n }, (_, r) => columns.reduce((sum, col) => sum + col[r], 0));
+  const loadings = columns.length >= 2 ? oneFactorLoadings(columns) : columns.map(() => NaN);
+
+  const items = columns.map((col, i) => {
+    const rest = totals.map((t, r) => t - col[r]);
+    const remaining = columns.filter((_, j) => j !== i);
+    return {
+      mean: mean(col),
+      sd: standardDeviation(col),
+      itemTotal: pearsonCorrelation(col, rest),
+      alphaIfDeleted: remaining.length >= 2 ? cronbachAlpha(remaining) : NaN,
+      loading: loadings[i],
+    };
+  });
+
+  return {
+    alpha: cronbachAlpha(columns),
+    omega: mcDonaldOmega(loadings),
+    items,
+    n,
+  };
+};
+
+// George & Mallery (2003) rule of thumb
+export const interpretReliability = (value: number): { label: string; colorClass: string } => {
+  if (isNaN(value)) return { label: 'Tidak dapat dihitung', colorClass: 'text-slate-400' };
+  if (value >= 0.9) return { label: 'Sangat Baik', colorClass: 'text-emerald-600' };
+  if (value >= 0.8) return { label: 'Baik', colorClass: 'text-emerald-600' };
+  if (value >= 0.7) return { label: 'Dapat Diterima', colorClass: 'text-blue-600' };
+  if (value >= 0.6) return { label: 'Dipertanyakan', colorClass: 'text-amber-600' };
+  if (value >= 0.5) return { label: 'Buruk', colorClass: 'text-red-600' };
+  return { label: 'Tidak Dapat Diterima', colorClass: 'text-red-700' };
+};
@@ -0,0 +1,176 @@
+// =================================================================================
+// EKSPOR HASIL: dataset berskor (CSV) dan ringkasan statistik (JSON)
+// =================================================================================
+// The CSV lists every parsed row, analyzed or not, so the dashboard's scoring
+// and screening decisions can be reproduced in SPSS or R. The JSON bundle
+// archives the statistics exactly as the dashboard showed them.
+import { BootstrapSettings, bootstrapCorrelation, bootstrapMean } from './bootstrap';
+import { GroupDefinition, ResolvedCodebook } from './codebook';
+import {
+  COMPOSITE_METHODS, CorrelationMethod, calculateCorrelationMatrix, correlationCoefficient
+} from './correlationMethods';
+import { describeConstructs } from './descriptives';
+import { DataFilter } from './filters';
+import { compareGroups } from './groupTests';
+import { GroupingResult, GroupingRule } from './grouping';
+import { Insight } from './insights';
+import { MissingDataResult, MissingDataStrategy } from './missing';
+import { analyzeReliability } from './reliability';
+import { ScreeningOptions, ScreeningReport } from './screening';
+import { CorrelationItem, DataItem, ScreeningFlag } from './types';
+
+// --- TYPES ---
+export type RowStatus = 'analyzed' | 'filtered' | 'excluded' | 'unscored';
+
+export interface AnalysisSnapshot {
+  datasetName: string;
+  codebook: ResolvedCodebook;
+  respondents: DataItem[];          // Every parsed row, before screening
+  data: DataItem[];                 // Rows shown by the dashboard (scored, grouped and filtered)
+  filter: DataFilter;
+  screeningOptions: ScreeningOptions;
+  screeningReport: ScreeningReport;
+  missingStrategy: MissingDataStrategy;
+  strategyLabel: string;
+  missingDataResult: MissingDataResult;
+  groupingRule: GroupingRule;
+  groupingLabel: string;
+  groupingResult: GroupingResult;   // Its data = every scored row, before filtering
+  groups: GroupDefinition[];
+  alpha: number;
+  correlationMethod: CorrelationMethod;   // Method selected on the matrix tab
+  correlations: CorrelationItem[];        // Spearman, as used by insights and the report
+  bootstrapSettings: BootstrapSettings;
+  partialControls: string[];              // Construct keys held constant; empty outside partial mode
+  conclusions: Insight[];
+}
+
+const SCREENING_FLAGS: ScreeningFlag[] = ['ineligible', 'outOfRange', 'missing', 'straightLining', 'duplicateTimestamp'];
+
+// --- HELPER FUNCTIONS ---
+
+// RFC 4180 quoting; missing numbers become empty cells
+const csvCell = (value: string | number | boolean | null): string => {
+  if (value === null || (typeof value === 'number' && isNaN(value))) return '';
+  const text = typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per parsed respondent: raw answers, construct scores, usage group,
+// screening flags and the reason a row did not enter the analysis. Rows hidden
+// by the cross-filter keep their scores and are marked "filtered".
+export const scoredDatasetCsv = (snapshot: AnalysisSnapshot): string => {
+  const { codebook, respondents, data, screeningReport, missingDataResult, groupingResult } = snapshot;
+  const scoredRows = new Map(groupingResult.data.map(d => [d.id, d]));
+  const shown = new Set(data.map(d => d.id));
+  const excluded = new Map(screeningReport.excluded.map(e => [e.respondent.id, e.reasons]));
+  const unscored = new Set(missingDataResult.dropped.map(d => d.id));
+
+  const header = [
+    'id', 'row', 'timestamp', 'eligible', 'status', 'exclusion_reasons',
+    ...SCREENING_FLAGS.map(flag => `flag_${flag}`),
+    ...codebook.allItems.map(item => item.id),
+    ...codebook.constructs.map(c => c.key),
+    'usageGroup',
+  ];
+
+  const rows = respondents.map(r => {
+    const scored = scoredRows.get(r.id);
+    const status: RowStatus = scored
+      ? (shown.has(r.id) ? 'analyzed' : 'filtered')
+      : excluded.has(r.id) ? 'excluded' : 'unscored';
+    const reasons: string[] = excluded.get(r.id) ?? (unscored.has(r.id) ? ['insufficientItems'] : []);
+    const flags = new Set(r.issues.map(issue => issue.flag));
+    return [
+      r.id, r.row, r.timestamp, r.eligible, status, reasons.join(';'),
+      ...SCREENING_FLAGS.map(flag => flags.has(flag)),
+      ...codebook.allItems.map(item => r.responses[item.id]),
+      ...codebook.constructs.map(c => (scored ? scored.scores[c.key] : NaN)),
+      scored?.usageGroup ?? null,
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+// Every statistic behind the dashboard tabs, plus the settings that produced them.
+// Correlations are listed for every method that applies to construct scores.
+// Regression, mediation and factor models are configured inside their own tabs
+// and are not part of the bundle. NaN and Infinity serialize as null.
+export const analysisBundle = (snapshot: AnalysisSnapshot) => {
+  const { codebook, data, groups, alpha, bootstrapSettings } = snapshot;
+  const correlations = Object.fromEntries(COMPOSITE_METHODS.map(method => [
+    method,
+    method === 'spearman' ? snapshot.correlations : calculateCorrelationMatrix(data, codebook.constructs, alpha, method),
+  ])) as Partial<Record<CorrelationMethod, CorrelationItem[]>>;
+  const column = (key: string) => data.map(d => d.scores[key]);
+  const controls = codebook.constructs.filter(c => snapshot.partialControls.includes(c.key));
+  return {
+    generatedAt: new Date().toISOString(),
+    dataset: snapshot.datasetName,
+    settings: {
+      alpha: snapshot.alpha,
+      correlationMethod: snapshot.correlationMethod,
+      screening: snapshot.screeningOptions,
+      missingData: { ...snapshot.missingStrategy, label: snapshot.strategyLabel },
+      grouping: { ...snapshot.groupingRule, label: snapshot.groupingLabel },
+      filter: snapshot.filter,
+    },
+    sample: {
+      total: snapshot.screeningReport.total,
+      afterScreening: snapshot.screeningReport.included,
+      scored: snapshot.groupingResult.data.length,
+      analyzed: data.length,
+      screeningCounts: snapshot.screeningReport.counts,
+      excluded: snapshot.screeningReport.excluded.map(e => ({ id: e.respondent.id, row: e.respondent.row, reasons: e.reasons })),
+      unscored: snapshot.missingDataResult.dropped.map(d => ({ id: d.id, row: d.row })),
+      missingCells: snapshot.missingDataResult.missingCells,
+      imputedCells: snapshot.missingDataResult.imputedCells,
+      groups: groups.map(g => ({ label: g.label, n: data.filter(d => d.usageGroup === g.label).length })),
+      groupCuts: snapshot.groupingResult.cuts,
+      unassigned: snapshot.groupingResult.unassigned,
+    },
+    descriptives: describeConstructs(data, codebook.constructs),
+    reliability: codebook.constructs.map(c => {
+      const complete = data.filter(d => c.items.every(item => !isNaN(d.items[item.id])));
+      const result = analyzeReliability(c.items.map(item => complete.map(d => d.items[item.id])));
+      return {
+        construct: c.key,
+        ...result,
+        items: result.items.map((stats, i) => ({ id: c.items[i].id, ...stats })),
+      };
+    }),
+    correlations,
+    // Resampled intervals as shown on the overview (means) and matrix (selected method) tabs
+    bootstrap: {
+      ...bootstrapSettings,
+      means: codebook.constructs.map(c => ({ construct: c.key, ...bootstrapMean(column(c.key), bootstrapSettings, alpha) })),
+      correlations: (correlations[snapshot.correlationMethod] ?? []).map(c => ({
+        var1: c.var1,
+        var2: c.var2,
+        ...bootstrapCorrelation(
+          column(c.var1), column(c.var2),
+          (x, y) => correlationCoefficient(snapshot.correlationMethod, x, y),
+          bootstrapSettings, alpha
+        ),
+      })),
+    },
+    // Partial correlations of the selected method among the remaining constructs
+    partialCorrelations: controls.length > 0
+      ? {
+        method: snapshot.correlationMethod,
+        controls: controls.map(c => c.key),
+        correlations: calculateCorrelationMatrix(data, codebook.constructs, alpha, snapshot.correlationMethod, controls)
+          .map(c => ({ ...c, df: c.n - 2 - controls.length })),
+      }
+      : null,
+    groupComparisons: codebook.constructs.map(c => ({
+      construct: c.key,
+      ...compareGroups(groups.map(g => ({
+        label: g.label,
+        values: data.filter(d => d.usageGroup === g.label).map(d => d.scores[c.key]),
+      }))),
+    })),
+    conclusions: snapshot.conclusions,
+  };
+};
@@ -0,0 +1,112 @@
+// =================================================================================
+// SCREENING: pemeriksaan kualitas data sebelum analisis
+// =================================================================================
+import { DataItem, ScreeningFlag } from './types';
+
+// --- TYPES ---
+export interface ScreeningOptions {
+  excludeIneligible: boolean;
+  excludeStraightLining: boolean;
+  excludeDuplicateTimestamp: boolean;
+}
+
+export interface ExcludedRow {
+  respondent: DataItem;
+  reasons: ScreeningFlag[];
+}
+
+export interface ScreeningReport {
+  total: number;
+  included: number;
+  counts: Record<ScreeningFlag, number>;   // Rows carrying each flag (excluded or not)
+  excluded: ExcludedRow[];
+  flagged: DataItem[];                     // Every row with at least one issue
+}
+
+export const DEFAULT_SCREENING_OPTIONS: ScreeningOptions = {
+  excludeIneligible: true,
+  excludeStraightLining: true,
+  excludeDuplicateTimestamp: true,
+};
+
+export const DEFAULT_STRAIGHT_LINING_MIN_ITEMS = 10;
+
+export const SCREENING_FLAG_LABELS: Record<ScreeningFlag, string> = {
+  ineligible: 'Tidak memenuhi kriteria',
+  outOfRange: 'Nilai di luar skala',
+  missing: 'Item kosong',
+  straightLining: 'Straight-lining',
+  duplicateTimestamp: 'Timestamp duplikat',
+};
+
+// --- HELPER FUNCTIONS ---
+
+// Parse a single Likert cell. Empty cells are missing; anything that is not an
+// integer inside the scale is invalid. Both come back as NaN.
+export const parseLikertValue = (raw: string | undefined, scale: { min: number; max: number }): { value: number; invalid: boolean } => {
+  const text = (raw ?? '').trim();
+  if (text === '') return { value: NaN, invalid: false };
+  const value = Number(text.replace(',', '.'));
+  if (!Number.isInteger(value) || value < scale.min || value > scale.max) {
+    return { value: NaN, invalid: true };
+  }
+  return { value, invalid: false };
+};
+
+// Same answer on every item (zero variance) across at least minItems answered items
+export const isStraightLining = (values: number[], minItems: number): boolean => {
+  const answered = values.filter(v => !isNaN(v));
+  return answered.length >= minItems && answered.every(v => v === answered[0]);
+};
+
+// Flag every repeat of a non-empty timestamp; the first occurrence is kept
+export const markDuplicateTimestamps = (respondents: DataItem[]): void => {
+  const firstSeen = new Map<string, number>();
+  respondents.forEach(r => {
+    if (!r.timestamp) return;
+    const first = firstSeen.get(r.timestamp);
+    if (first === undefined) {
+      firstSeen.set(r.timestamp, r.row);
+    } else {
+      r.issues.push({ flag: 'duplicateTimestamp', detail: `Sama dengan baris ${first}` });
+    }
+  });
+};
+
+const exclusionReasons = (respondent: DataItem, options: ScreeningOptions): ScreeningFlag[] => {
+  const flags = new Set(respondent.issues.map(issue => issue.flag));
+  const reasons: ScreeningFlag[] = [];
+  if (options.excludeIneligible && flags.has('ineligible')) reasons.push('ineligible');
+  if (options.excludeStraightLining && flags.has('straightLining')) reasons.push('straightLining');
+  if (options.excludeDuplicateTimestamp && flags.has('duplicateTimestamp')) reasons.push('duplicateTimestamp');
+  return reasons;
+};
+
+export const applyScreening = (respondents: DataItem[], options: ScreeningOptions): { data: DataItem[]; report: ScreeningReport } => {
+  const counts: Record<ScreeningFlag, number> = {
+    ineligible: 0, outOfRange: 0, missing: 0, straightLining: 0, duplicateTimestamp: 0,
+  };
+  const excluded: ExcludedRow[] = [];
+  const data: DataItem[] = [];
+
+  respondents.forEach(r => {
+    new Set(r.issues.map(issue => issue.flag)).forEach(flag => counts[flag]++);
+    const reasons = exclusionReasons(r, options);
+    if (reasons.length > 0) {
+      excluded.push({ respondent: r, reasons });
+    } else {
+      data.push(r);
+    }
+  });
+
+  return {
+    data,
+    report: {
+      total: respondents.length,
+      included: data.length,
+      counts,
+      excluded,
+      flagged: respondents.filter(r => r.issues.length > 0),
+    },
+  };
+};
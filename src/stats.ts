@@ -0,0 +1,383 @@
+// =================================================================================
+// STATISTIK: koefisien korelasi, uji signifikansi, dan distribusi
+// =================================================================================
+
+// --- TYPES ---
+export type TestMethod = 'exact' | 'permutation' | 't-approx' | 'z-approx' | 'likelihood-ratio';
+
+export interface CorrelationTest {
+  rho: number;          // Coefficient of the measure tested (Spearman ρ, Pearson r, ...)
+  pValue: number;       // Two-sided
+  ciLower: number;      // Confidence interval at level 1 - alpha
+  ciUpper: number;
+  method: TestMethod;
+  n: number;
+  tiesX: number;        // Observations of x sharing a rank with another observation
+  tiesY: number;
+}
+
+// Sample sizes up to EXACT_MAX_N enumerate all n! permutations; up to
+// PERMUTATION_MAX_N a Monte Carlo permutation test is used; above that the
+// t-approximation is accurate enough.
+export const EXACT_MAX_N = 9;
+export const PERMUTATION_MAX_N = 30;
+export const PERMUTATION_ITERATIONS = 10000;
+const PERMUTATION_SEED = 20251123;
+
+// --- RANDOM NUMBERS ---
+
+// Small seeded PRNG (mulberry32) so resampling results are reproducible
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw from a uniform generator (Box-Muller)
+export const normalRandom = (random: () => number): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// --- DISTRIBUTIONS ---
+
+// Lanczos approximation of ln Γ(x)
+export const logGamma = (x: number): number => {
+  const coef = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61503916999185, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  x -= 1;
+  let a = 0.99999999999980993;
+  const t = x + 7.5;
+  for (let i = 0; i < coef.length; i++) {
+    a += coef[i] / (x + i + 1);
+  }
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+// Continued fraction for the incomplete beta function (Numerical Recipes, betacf)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const MAX_ITER = 200;
+  const EPS = 3e-14;
+  const FPMIN = 1e-300;
+
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITER; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return h;
+};
+
+// Regularized incomplete beta function I_x(a, b)
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const lnFront = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const front = Math.exp(lnFront);
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+// Two-sided p-value of Student's t with df degrees of freedom
+export const studentTTwoSided = (t: number, df: number): number => {
+  if (!isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+// Two-sided critical value t such that P(|T| > t) = alpha, found by bisection
+export const studentTCritical = (alpha: number, df: number): number => {
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (studentTTwoSided(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+// Upper tail probability of the F distribution
+export const fUpperTail = (f: number, df1: number, df2: number): number =>
+  f <= 0 ? 1 : incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+
+// Regularized lower incomplete gamma function P(a, x)
+export const incompleteGamma = (a: number, x: number): number => {
+  if (x <= 0) return 0;
+  const lnFront = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    // Series expansion
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return sum * Math.exp(lnFront);
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const FPMIN = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < 1e-15) break;
+  }
+  return 1 - Math.exp(lnFront) * h;
+};
+
+// Upper tail probability of the chi-square distribution
+export const chiSquareUpperTail = (x: number, df: number): number =>
+  x <= 0 ? 1 : 1 - incompleteGamma(df / 2, x / 2);
+
+// Standard normal CDF, via erf(x) = P(1/2, x²)
+export const normalCdf = (z: number): number => {
+  const half = 0.5 * incompleteGamma(0.5, (z * z) / 2);
+  return z >= 0 ? 0.5 + half : 0.5 - half;
+};
+
+// Inverse of the standard normal CDF (Acklam's rational approximation)
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+// --- CORRELATION ---
+
+export interface RankResult {
+  ranks: number[];
+  tiedGroups: number;   // Number of distinct values shared by 2+ observations
+  tiedCount: number;    // Number of observations that belong to a tied group
+}
+
+// Average (fractional) ranks: tied values all receive the mean of the ranks they
+// span, so the result does not depend on the input order.
+export const rankWithTies = (arr: number[]): RankResult => {
+  const n = arr.length;
+  const sorted = arr.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(n);
+  let tiedGroups = 0;
+  let tiedCount = 0;
+
+  let start = 0;
+  while (start < n) {
+    let end = start;
+    while (end + 1 < n && sorted[end + 1].v === sorted[start].v) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) {
+      ranks[sorted[k].i] = averageRank;
+    }
+    if (end > start) {
+      tiedGroups++;
+      tiedCount += end - start + 1;
+    }
+    start = end + 1;
+  }
+
+  return { ranks, tiedGroups, tiedCount };
+};
+
+// Pearson product-moment correlation
+export const pearsonCorrelation = (x: number[], y: number[]): number => {
+  const n = x.length;
+  if (n !== y.length || n === 0) return 0;
+
+  const meanX = x.reduce((a, b) => a + b, 0) / n;
+  const meanY = y.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i] - meanX;
+    const dy = y[i] - meanY;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+
+  // A constant variable has no defined correlation; report 0 instead of NaN
+  if (sxx === 0 || syy === 0) return 0;
+  return sxy / Math.sqrt(sxx * syy);
+};
+
+// Calculate Spearman correlation coefficient as the Pearson correlation of the
+// average ranks, which stays correct when ties are present (matches SPSS/SciPy)
+export const spearmanCorrelation = (x: number[], y: number[]): number => {
+  if (x.length !== y.length || x.length === 0) return 0;
+  return pearsonCorrelation(rankWithTies(x).ranks, rankWithTies(y).ranks);
+};
+
+// Two-sided permutation p-value for a correlation statistic. Enumerates every
+// permutation of y when n is small enough, otherwise samples PERMUTATION_ITERATIONS.
+export const permutationPValue = (
+  x: number[],
+  y: number[],
+  statistic: (x: number[], y: number[]) => number,
+  exact: boolean
+): number => {
+  const observed = Math.abs(statistic(x, y));
+  const tolerance = 1e-12;
+  const permuted = [...y];
+  let extreme = 0;
+  let total = 0;
+
+  if (exact) {
+    // Heap's algorithm, iterative form
+    const n = permuted.length;
+    const c = new Array(n).fill(0);
+    const visit = () => {
+      total++;
+      if (Math.abs(statistic(x, permuted)) >= observed - tolerance) extreme++;
+    };
+    visit();
+    let i = 0;
+    while (i < n) {
+      if (c[i] < i) {
+        const j = i % 2 === 0 ? 0 : c[i];
+        [permuted[j], permuted[i]] = [permuted[i], permuted[j]];
+        visit();
+        c[i]++;
+        i = 0;
+      } else {
+        c[i] = 0;
+        i++;
+      }
+    }
+    return extreme / total;
+  }
+
+  const random = createRng(PERMUTATION_SEED);
+  for (let iter = 0; iter < PERMUTATION_ITERATIONS; iter++) {
+    // Fisher-Yates shuffle
+    for (let i = permuted.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [permuted[i], permuted[j]] = [permuted[j], permuted[i]];
+    }
+    if (Math.abs(statistic(x, permuted)) >= observed - tolerance) extreme++;
+  }
+  // Include the observed arrangement so p is never exactly zero
+  return (extreme + 1) / (PERMUTATION_ITERATIONS + 1);
+};
+
+// Fisher-z confidence interval for Spearman's ρ, using the Fieller-Hartley-Pearson
+// standard error sqrt(1.06 / (n - 3)).
+export const spearmanConfidenceInterval = (rho: number, n: number, alpha: number): [number, number] => {
+  if (n < 4) return [-1, 1];
+  const clamped = Math.max(-0.999999, Math.min(0.999999, rho));
+  const z = Math.atanh(clamped);
+  const se = Math.sqrt(1.06 / (n - 3));
+  const crit = normalQuantile(1 - alpha / 2);
+  return [Math.tanh(z - crit * se), Math.tanh(z + crit * se)];
+};
+
+// Spearman's ρ with p-value and confidence interval. The test method depends on n:
+// exact permutation, Monte Carlo permutation, or the t-approximation with n - 2 df.
+export const spearmanTest = (x: number[], y: number[], alpha: number): CorrelationTest => {
+  const n = Math.min(x.length, y.length);
+  const rho = spearmanCorrelation(x, y);
+  const [ciLower, ciUpper] = spearmanConfidenceInterval(rho, n, alpha);
+  const ties = { tiesX: rankWithTies(x).tiedCount, tiesY: rankWithTies(y).tiedCount };
+
+  if (n < 3) {
+    return { rho, pValue: 1, ciLower, ciUpper, method: 'exact', n, ...ties };
+  }
+
+  if (n <= PERMUTATION_MAX_N) {
+    const exact = n <= EXACT_MAX_N;
+    // Rank once and permute the ranks: Pearson on average ranks is Spearman's ρ,
+    // and re-ranking inside every permutation is what makes the exact path slow
+    const pValue = permutationPValue(rankWithTies(x).ranks, rankWithTies(y).ranks, pearsonCorrelation, exact);
+    return { rho, pValue, ciLower, ciUpper, method: exact ? 'exact' : 'permutation', n, ...ties };
+  }
+
+  const df = n - 2;
+  const t = Math.abs(rho) >= 1 ? Infinity : rho * Math.sqrt(df / (1 - rho * rho));
+  return { rho, pValue: studentTTwoSided(t, df), ciLower, ciUpper, method: 't-approx', n, ...ties };
+};
+
+// --- FORMATTING ---
+
+export const formatPValue = (p: number): string =>
+  p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`;
+
+// Conventional APA-style stars, independent of the chosen alpha
+export const significanceStars = (p: number): string =>
+  p < 0.001 ? '***' : p < 0.01 ? '**' : p < 0.05 ? '*' : '';
+
+export const TEST_METHOD_LABELS: Record<TestMethod, string> = {
+  'exact': 'uji permutasi eksak',
+  'permutation': `uji permutasi (${PERMUTATION_ITERATIONS.toLocaleString('id-ID')} iterasi)`,
+  't-approx': 'aproksimasi t',
+  'z-approx': 'aproksimasi normal',
+  'likelihood-ratio': 'uji rasio likelihood',
+};
@@ -0,0 +1,94 @@
+// =================================================================================
+// GARIS TREN: OLS dan LOESS dengan pita kepercayaan untuk diagram pencar
+// =================================================================================
+// Both fits are linear smoothers (ŷ(x0) = Σ lᵢ(x0)·yᵢ), so the band at x0 is
+// ŷ ± t·σ̂·‖l(x0)‖: the confidence interval of the mean response, not a
+// prediction interval for individual respondents.
+import { mean } from './linalg';
+import { studentTCritical } from './stats';
+
+// --- TYPES ---
+export type TrendMethod = 'none' | 'ols' | 'loess';
+
+export interface TrendPoint {
+  x: number;
+  fit: number;
+  band: [number, number];  // Lower and upper confidence limit of the mean response
+}
+
+export const TREND_METHOD_LABELS: Record<TrendMethod, string> = {
+  none: 'Tanpa tren',
+  ols: 'Linear (OLS)',
+  loess: 'LOESS',
+};
+
+export const DEFAULT_LOESS_SPAN = 0.75;
+
+const GRID_SIZE = 40;
+
+// --- HELPER FUNCTIONS ---
+
+const grid = (x: number[]): number[] => {
+  const min = Math.min(...x);
+  const max = Math.max(...x);
+  return Array.from({ length: GRID_SIZE }, (_, i) => min + ((max - min) * i) / (GRID_SIZE - 1));
+};
+
+const withBand = (x0: number, weights: number[], y: number[], sigma: number, tCritical: number): TrendPoint => {
+  const fit = weights.reduce((sum, w, i) => sum + w * y[i], 0);
+  const se = sigma * Math.sqrt(weights.reduce((sum, w) => sum + w * w, 0));
+  return { x: x0, fit, band: [fit - tCritical * se, fit + tCritical * se] };
+};
+
+// Simple regression of y on x
+export const olsTrend = (x: number[], y: number[], alpha: number): TrendPoint[] => {
+  const n = x.length;
+  if (n < 3) return [];
+  const xMean = mean(x);
+  const sxx = x.reduce((sum, v) => sum + (v - xMean) ** 2, 0);
+  if (sxx === 0) return [];
+
+  // Smoother weights of the fitted line at x0
+  const weightsAt = (x0: number) => x.map(xi => 1 / n + ((x0 - xMean) * (xi - xMean)) / sxx);
+  const residuals = x.map((xi, i) => y[i] - weightsAt(xi).reduce((sum, w, j) => sum + w * y[j], 0));
+  const sigma = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2));
+  const tCritical = studentTCritical(alpha, n - 2);
+  return grid(x).map(x0 => withBand(x0, weightsAt(x0), y, sigma, tCritical));
+};
+
+// Local linear regression with tricube weights over the nearest span·n points
+export const loessTrend = (x: number[], y: number[], alpha: number, span = DEFAULT_LOESS_SPAN): TrendPoint[] => {
+  const n = x.length;
+  if (n < 5) return [];
+  const range = Math.max(...x) - Math.min(...x);
+  if (range === 0) return [];
+  const q = Math.min(n, Math.max(3, Math.ceil(span * n)));
+
+  const weightsAt = (x0: number): number[] => {
+    const distances = x.map(xi => Math.abs(xi - x0));
+    // Scores sit on a grid, so the q-th distance can be zero; widen to a share of the range
+    const h = Math.max([...distances].sort((a, b) => a - b)[q - 1], (range * span) / 2) * 1.000001;
+    const w = distances.map(d => (d < h ? (1 - (d / h) ** 3) ** 3 : 0));
+    const s0 = w.reduce((sum, v) => sum + v, 0);
+    const s1 = w.reduce((sum, v, i) => sum + v * (x[i] - x0), 0);
+    const s2 = w.reduce((sum, v, i) => sum + v * (x[i] - x0) ** 2, 0);
+    const det = s0 * s2 - s1 * s1;
+    // A window with a single distinct x falls back to the local weighted mean
+    return det > 1e-12 * s0 * s0
+      ? w.map((v, i) => (v * (s2 - (x[i] - x0) * s1)) / det)
+      : w.map(v => v / s0);
+  };
+
+  // Residual variance with the equivalent number of parameters ν = tr(L)
+  let trace = 0;
+  let rss = 0;
+  x.forEach((xi, i) => {
+    const weights = weightsAt(xi);
+    trace += weights[i];
+    rss += (y[i] - weights.reduce((sum, w, j) => sum + w * y[j], 0)) ** 2;
+  });
+  const df = Math.max(1, n - trace);
+  const sigma = Math.sqrt(rss / df);
+  const tCritical = studentTCritical(alpha, df);
+  return grid(x).map(x0 => withBand(x0, weightsAt(x0), y, sigma, tCritical));
+};
@@ -0,0 +1,37 @@
+import { TestMethod } from './stats';
+
+// --- TYPES ---
+export type ScreeningFlag = 'ineligible' | 'outOfRange' | 'missing' | 'straightLining' | 'duplicateTimestamp';
+
+export interface ScreeningIssue {
+  flag: ScreeningFlag;
+  detail: string;
+}
+
+export interface DataItem {
+  id: number;
+  row: number;                     // Line (CSV) or sheet row where the response starts (header = 1)
+  timestamp: string;
+  eligible: boolean;
+  scores: Record<string, number>;  // Construct scores keyed by codebook construct key
+  responses: Record<string, number>;  // Answers as given, keyed by codebook item id (NaN = missing/invalid)
+  items: Record<string, number>;      // Scored item values: reverse-coded items already reversed
+  usageGroup: string | null;       // Level label from the active grouping rule (null = no value on its basis)
+  issues: ScreeningIssue[];
+}
+
+export interface CorrelationItem {
+  var1: string;
+  var2: string;
+  label1: string;
+  label2: string;
+  correlation: number;
+  pValue: number;
+  ciLower: number;
+  ciUpper: number;
+  method: TestMethod;
+  n: number;
+  tiesX: number;           // Tied observations handled by average ranking
+  tiesY: number;
+  significant: boolean;    // pValue < alpha
+}
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { exportPng, exportSvg } from './exporting';
+
+// --- COMPONENTS ---
+
+export const KpiCard = ({ title, value, subtitle, icon: Icon, colorClass }: {
+  title: string;
+  value: string | number;
+  subtitle?: string;
+  icon: React.ComponentType<{ className?: string }>;
+  colorClass: string;
+}) => (
+  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 flex items-start justify-between">
+    <div>
+      <p className="text-sm font-medium text-slate-500 mb-1">{title}</p>
+      <h3 className="text-2xl font-bold text-slate-800">{value}</h3>
+      {subtitle && <p className={`text-xs mt-2 ${colorClass} font-medium`}>{subtitle}</p>}
+    </div>
+    <div className={`p-3 rounded-lg ${colorClass.replace('text-', 'bg-').replace('600', '100').replace('700', '100')} bg-opacity-20`}>
+      <Icon className={`w-6 h-6 ${colorClass}`} />
+    </div>
+  </div>
+);
+
+export const SectionHeader = ({ title, description }: { title: string; description: string }) => (
+  <div className="mb-6">
+    <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+      <div className="w-1 h-6 bg-blue-600 rounded-full"></div>
+      {title}
+    </h2>
+    <p className="text-sm text-slate-500 ml-3 mt-1">{description}</p>
+  </div>
+);
+
+// Sample size and missing-data strategy behind a chart
+export const AnalysisBadge = ({ n, strategy }: { n: number; strategy: string }) => (
+  <span className="inline-flex items-center gap-1 text-[11px] text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full whitespace-nowrap">
+    N = {n} • {strategy}
+  </span>
+);
+
+// The statistic behind an insight; clicking opens the tab with the full result
+export const EvidenceLink = ({ evidence, onClick }: { evidence: string; onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    className="font-mono text-[11px] underline decoration-dotted underline-offset-2 opacity-80 hover:opacity-100 text-left"
+    title="Lihat hasil lengkap"
+  >
+    {evidence}
+  </button>
+);
+
+// Chart wrapper with PNG/SVG download buttons that appear on hover. PNG captures
+// the whole wrapper (legends included); SVG takes the chart surface only and is
+// hidden for HTML-only content such as the correlation heatmap.
+export const ExportableChart = ({ name, className, vector = true, children }: {
+  name: string;
+  className?: string;
+  vector?: boolean;
+  children: React.ReactNode;
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const findSvg = () =>
+    ref.current?.querySelector<SVGSVGElement>('svg.recharts-surface') ?? ref.current?.querySelector<SVGSVGElement>('svg');
+
+  // html-to-image can fail on cross-origin fonts or canvas size limits
+  const exportAs = async (format: 'PNG' | 'SVG') => {
+    setExportError(null);
+    try {
+      if (format === 'PNG') {
+        if (ref.current) await exportPng(ref.current, name);
+      } else {
+        const svg = findSvg();
+        if (svg) exportSvg(svg, name);
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : `Ekspor ${format} gagal.`);
+    }
+  };
+
+  return (
+    <div ref={ref} className={`relative group ${className ?? ''}`}>
+      {children}
+      <div data-export-ignore className="absolute top-0 right-0 hidden group-hover:flex gap-1 z-10">
+        <button
+          onClick={() => exportAs('PNG')}
+          className="text-[10px] font-medium bg-white/90 border border-slate-200 text-slate-600 hover:text-blue-600 px-2 py-0.5 rounded"
+          title="Unduh PNG resolusi tinggi"
+        >
+          PNG
+        </button>
+        {vector && (
+          <button
+            onClick={() => exportAs('SVG')}
+            className="text-[10px] font-medium bg-white/90 border border-slate-200 text-slate-600 hover:text-blue-600 px-2 py-0.5 rounded"
+            title="Unduh SVG (area grafik, tanpa legenda HTML)"
+          >
+            SVG
+          </button>
+        )}
+      </div>
+      {exportError && (
+        <div data-export-ignore className="absolute top-7 right-0 z-10 max-w-xs bg-red-50 border border-red-200 text-red-700 text-xs p-2 rounded-lg flex gap-2">
+          {exportError}
+          <button onClick={() => setExportError(null)} aria-label="Tutup">×</button>
+        </div>
+      )}
+    </div>
+  );
+};